@@ -6,6 +6,8 @@
  */
 
 import type { CynapsConfig, PreflightResult } from '../core/types.js'
+import type { CacheStats } from '../core/cache.js'
+import type { CircuitSnapshot } from '../core/circuit-breaker.js'
 import { CynapsApiClient } from '../core/api-client.js'
 
 export function createStatusCommand(config: CynapsConfig) {
@@ -16,18 +18,20 @@ export function createStatusCommand(config: CynapsConfig) {
     requireAuth: true,
 
     async handler(): Promise<{ text: string }> {
+      const client = new CynapsApiClient(config)
       try {
-        const client = new CynapsApiClient(config)
         const result = await client.rpc<PreflightResult>('preflight')
-        return { text: formatStatus(result) }
+        return { text: formatStatus(result, client.cacheStats(), client.circuitStates()) }
       } catch {
-        return { text: 'Could not fetch status. Please try again.' }
+        // Breaker states explain *why* preflight failed — show them even here
+        const circuits = formatCircuits(client.circuitStates())
+        return { text: ['Could not fetch status. Please try again.', ...circuits].join('\n') }
       }
     },
   }
 }
 
-function formatStatus(pf: PreflightResult): string {
+function formatStatus(pf: PreflightResult, cache: CacheStats, circuits: CircuitSnapshot[]): string {
   const c = pf.checks
   const lines: string[] = [
     '**Cynaps3 Status**',
@@ -41,6 +45,8 @@ function formatStatus(pf: PreflightResult): string {
   }
 
   lines.push(`Daily Usage: **${c.daily_used}/${c.daily_limit}**`)
+  lines.push(`Cache: ${cache.hits} hits / ${cache.misses} misses (${cache.size} entries)`)
+  lines.push(...formatCircuits(circuits))
   lines.push('')
 
   if (pf.ready) {
@@ -57,3 +63,18 @@ function formatStatus(pf: PreflightResult): string {
 
   return lines.join('\n')
 }
+
+function formatCircuits(circuits: CircuitSnapshot[]): string[] {
+  if (circuits.length === 0) return []
+  const lines = ['', '**Edge Functions:**']
+  for (const c of circuits) {
+    if (c.state === 'closed') {
+      lines.push(`- ${c.name}: OK`)
+    } else if (c.state === 'open') {
+      lines.push(`- ${c.name}: **OPEN** (failing fast, probe in ${Math.ceil(c.retryInMs / 1_000)}s)`)
+    } else {
+      lines.push(`- ${c.name}: half-open (probing)`)
+    }
+  }
+  return lines
+}
@@ -0,0 +1,104 @@
+/**
+ * Post Composition — turn the agent's copy into the text that goes out on
+ * a channel: the copy, the listen link and hashtags for social posts, or a
+ * Markdown article with the artwork for the blog.
+ *
+ * Lengths are counted the way the platforms count them (code points, and
+ * on X every URL as 23 characters), so a draft that fits here fits there.
+ */
+
+export const POST_CHANNELS = ['x', 'instagram', 'tiktok', 'facebook', 'youtube', 'blog'] as const
+export type PostChannel = typeof POST_CHANNELS[number]
+
+interface ChannelRules {
+  /** null = no limit */
+  maxChars: number | null
+  maxHashtags: number | null
+  /** Links in the post body open nothing — the agent should point to a bio link */
+  linkNotClickable?: boolean
+}
+
+export const CHANNEL_RULES: Record<PostChannel, ChannelRules> = {
+  x: { maxChars: 280, maxHashtags: null },
+  instagram: { maxChars: 2200, maxHashtags: 30, linkNotClickable: true },
+  tiktok: { maxChars: 2200, maxHashtags: null, linkNotClickable: true },
+  facebook: { maxChars: 63_206, maxHashtags: null },
+  youtube: { maxChars: 5000, maxHashtags: 15 },
+  blog: { maxChars: null, maxHashtags: null },
+}
+
+/** X wraps every link in t.co and counts it as this many characters */
+const X_URL_LENGTH = 23
+
+export interface PostInput {
+  channel: PostChannel
+  text: string
+  /** Article heading (blog) */
+  title?: string
+  hashtags?: string[]
+  listen_url: string
+  image_url?: string | null
+}
+
+export interface ComposedPost {
+  body: string
+  /** Characters as the channel counts them */
+  length: number
+  limit: number | null
+  hashtags: string[]
+  warnings: string[]
+}
+
+export function composePost(input: PostInput): ComposedPost {
+  const rules = CHANNEL_RULES[input.channel]
+  const hashtags = normalizeHashtags(input.hashtags ?? [])
+  const warnings: string[] = []
+  const text = input.text.trim()
+
+  let body: string
+  if (input.channel === 'blog') {
+    const parts = [`# ${input.title ?? ''}`.trimEnd()]
+    if (input.image_url) parts.push(`![${escapeAlt(input.title ?? 'Artwork')}](${input.image_url})`)
+    parts.push(text, `[Listen](${input.listen_url})`)
+    if (hashtags.length) parts.push(`Tags: ${hashtags.join(', ')}`)
+    body = parts.join('\n\n')
+  } else {
+    const parts = [text, input.listen_url]
+    if (hashtags.length) parts.push(hashtags.map((t) => `#${t}`).join(' '))
+    body = parts.join('\n\n')
+  }
+
+  if (rules.maxHashtags !== null && hashtags.length > rules.maxHashtags) {
+    warnings.push(`${input.channel} allows at most ${rules.maxHashtags} hashtags; this post has ${hashtags.length}`)
+  }
+  if (rules.linkNotClickable) {
+    warnings.push(`Links in ${input.channel} captions are not clickable — put the listen link in the bio or link sticker`)
+  }
+  if (!input.image_url) warnings.push('No artwork — the post goes out without an image')
+
+  return { body, length: countChars(body, input.channel), limit: rules.maxChars, hashtags, warnings }
+}
+
+/** Strip "#", whitespace and punctuation; drop empties and case-insensitive duplicates */
+export function normalizeHashtags(tags: string[]): string[] {
+  const seen = new Set<string>()
+  const out: string[] = []
+  for (const raw of tags) {
+    const tag = raw.replace(/[^\p{L}\p{N}_]/gu, '')
+    if (!tag || seen.has(tag.toLowerCase())) continue
+    seen.add(tag.toLowerCase())
+    out.push(tag)
+  }
+  return out
+}
+
+export function countChars(body: string, channel: PostChannel): number {
+  const counted = channel === 'x' ? body.replace(/https?:\/\/\S+/g, 'x'.repeat(X_URL_LENGTH)) : body
+  return [...counted].length
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────
+
+function escapeAlt(text: string): string {
+  return text.replace(/[[\]]/g, '\\$&')
+}
@@ -0,0 +1,81 @@
+/**
+ * Agent Profiles — per-agent overrides of the plugin config.
+ *
+ * One install serves every agent; `agents` in plugin config maps a runtime
+ * agent ID (OpenClawPluginToolContext.agentId) to the settings that differ
+ * for it. Tool factories resolve the profile for their context, so two
+ * agents in the same gateway see different tools and defaults.
+ *
+ * Profile fields replace the global value, except `tools.deny`, which adds
+ * to the global deny list — a global deny can't be lifted per agent.
+ */
+
+import type { AgentProfile, CynapsConfig, SpendingCaps, ToolPolicy } from './types.js'
+import { CynapsApiError } from './errors.js'
+
+/**
+ * Config as seen by `agentId` (the context's, else the static config one).
+ * Returns `config` itself when no profile matches.
+ */
+export function resolveAgentConfig(config: CynapsConfig, agentId?: string): CynapsConfig {
+  const id = agentId ?? config.agentId
+  const profile = id ? config.agents?.[id] : undefined
+  if (!profile) return config
+
+  return {
+    ...config,
+    enabledModules: profile.enabledModules ?? config.enabledModules,
+    defaultProjectId: profile.defaultProjectId ?? config.defaultProjectId,
+    defaultProvider: profile.defaultProvider ?? config.defaultProvider,
+    spendingCaps: profile.spendingCaps ?? config.spendingCaps,
+    tools: mergeToolPolicy(config.tools, profile.tools),
+  }
+}
+
+/** The profile that applies to `agentId`, if any */
+export function agentProfile(config: CynapsConfig, agentId?: string): AgentProfile | undefined {
+  const id = agentId ?? config.agentId
+  return id ? config.agents?.[id] : undefined
+}
+
+/**
+ * Throw SPENDING_CAP_EXCEEDED when a generation request is over the caps.
+ * `credits` is the provider's estimate; null (unknown) passes a credit cap
+ * unless `refuseUnknownCost` is set — see spendingCapWarning(). Caps are a
+ * per-request guard rail checked here in the plugin — the server's credit
+ * balance and daily limit remain the real limiter.
+ */
+export function assertSpendingCap(caps: SpendingCaps | undefined, tracks: number, credits: number | null): void {
+  const problem = spendingCapIssue(caps, tracks, credits)
+  if (problem) throw new CynapsApiError(problem, 400, 'SPENDING_CAP_EXCEEDED')
+}
+
+export function spendingCapIssue(caps: SpendingCaps | undefined, tracks: number, credits: number | null): string | null {
+  if (!caps) return null
+  if (caps.maxTracksPerRequest !== undefined && tracks > caps.maxTracksPerRequest) {
+    return `This agent may generate at most ${caps.maxTracksPerRequest} track(s) per request (asked for ${tracks})`
+  }
+  if (caps.maxCreditsPerRequest !== undefined && credits === null && caps.refuseUnknownCost) {
+    return `This agent may spend at most ${caps.maxCreditsPerRequest} credits per request, ` +
+      "and this provider's cost is unknown, so the request can't be checked against that cap"
+  }
+  if (caps.maxCreditsPerRequest !== undefined && credits !== null && credits > caps.maxCreditsPerRequest) {
+    return `This agent may spend at most ${caps.maxCreditsPerRequest} credits per request (~${credits} needed)`
+  }
+  return null
+}
+
+/** Set when a credit cap lets a request of unknown cost through unchecked */
+export function spendingCapWarning(caps: SpendingCaps | undefined, credits: number | null): string | null {
+  if (caps?.maxCreditsPerRequest === undefined || credits !== null || caps.refuseUnknownCost) return null
+  return `This provider's cost is unknown, so the ${caps.maxCreditsPerRequest}-credit cap wasn't checked`
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────
+
+function mergeToolPolicy(base: ToolPolicy | undefined, override: Partial<ToolPolicy> | undefined): ToolPolicy | undefined {
+  if (!override) return base
+  const allow = override.allow ?? base?.allow ?? []
+  const deny = [...(base?.deny ?? []), ...(override.deny ?? [])]
+  return allow.length || deny.length ? { allow, deny } : undefined
+}
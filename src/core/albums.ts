@@ -0,0 +1,55 @@
+/**
+ * Albums — read back what musicmation_create_album and
+ * musicmation_set_dramaturgy wrote.
+ *
+ * agent-tools can create albums and set their dramaturgy but, before the
+ * `get-album` method (album metadata plus `{ track_id, order }` per track),
+ * had no way to read one. Every album read goes through fetchAlbum() so that
+ * dependency lives in one place: a backend without the method answers
+ * UNKNOWN_METHOD, which becomes ALBUM_UNSUPPORTED pointing at project_id or
+ * track_ids instead.
+ */
+
+import type { CynapsApiClient } from './api-client.js'
+import { CynapsApiError } from './errors.js'
+import { findTrashed } from './trash.js'
+import type { AlbumDetail } from './types.js'
+
+/** findTrashed() batch size — one in() query per batch */
+const TRASH_BATCH_SIZE = 20
+
+export interface AlbumTracks {
+  album: AlbumDetail
+  /** Track IDs in dramaturgy order, trashed tracks left out */
+  trackIds: string[]
+  /** Album tracks that are in the trash */
+  trashed: string[]
+}
+
+/** Fetch an album and its track order, or throw ALBUM_NOT_FOUND / ALBUM_UNSUPPORTED */
+export async function fetchAlbum(client: CynapsApiClient, albumId: string): Promise<AlbumTracks> {
+  let album: AlbumDetail | undefined
+  try {
+    album = await client.rpc<AlbumDetail>('get-album', { album_id: albumId })
+  } catch (err) {
+    if (err instanceof CynapsApiError && err.code === 'UNKNOWN_METHOD') {
+      throw new CynapsApiError(
+        'This backend cannot read albums yet (agent-tools has no get-album method). ' +
+        'Pass the album\'s project_id or its track_ids instead.',
+        400, 'ALBUM_UNSUPPORTED')
+    }
+    throw err
+  }
+  if (!album?.id) throw new CynapsApiError('Album not found', 404, 'ALBUM_NOT_FOUND')
+
+  const ordered = [...(album.tracks ?? [])].sort((a, b) => a.order - b.order).map((t) => t.track_id)
+  const trashed = new Set<string>()
+  for (let i = 0; i < ordered.length; i += TRASH_BATCH_SIZE) {
+    for (const id of await findTrashed(client, ordered.slice(i, i + TRASH_BATCH_SIZE))) trashed.add(id)
+  }
+  return {
+    album,
+    trackIds: ordered.filter((id) => !trashed.has(id)),
+    trashed: ordered.filter((id) => trashed.has(id)),
+  }
+}
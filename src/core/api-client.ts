@@ -2,7 +2,8 @@
  * Cynaps3 API Client
  *
  * Authenticated HTTP client for Supabase edge functions.
- * Handles token injection, error wrapping, timeout, and retry.
+ * Handles token injection, error wrapping, timeout, retry, per-function
+ * circuit breaking, and response caching for read-mostly RPCs.
  *
  * Design principle: this is a THIN CLIENT. All security enforcement
  * (auth, tier limits, rate limits, ownership) lives in the edge functions.
@@ -11,33 +12,75 @@
 
 import type { CynapsConfig, ApiErrorBody } from './types.js'
 import { CynapsApiError } from './errors.js'
+import type { CacheStats, ResponseCache } from './cache.js'
+import type { CircuitSnapshot } from './circuit-breaker.js'
+import { CircuitBreakerRegistry } from './circuit-breaker.js'
+import {
+  MemoryCache, RPC_CACHE_TTLS, RPC_INVALIDATIONS, TABLE_INVALIDATIONS, stableStringify,
+} from './cache.js'
+import { filter } from './filter.js'
 
 const DEFAULT_TIMEOUT_MS = 30_000
 const MAX_RETRIES = 2
 const RETRY_DELAY_MS = 1_000
 
+/** Process-wide default so every tool factory's client shares hits */
+const sharedCache = new MemoryCache()
+
+/** Breakers are shared per backend so one agent's failures protect the others */
+const sharedBreakers = new Map<string, CircuitBreakerRegistry>()
+
+export interface CynapsApiClientOptions {
+  /** Response cache for read-mostly RPCs (default: shared in-memory cache) */
+  cache?: ResponseCache
+  /** Per-method TTL overrides in ms; set a method to 0 to disable caching it */
+  cacheTtls?: Record<string, number>
+  /** Circuit breakers per edge function (default: shared per supabaseUrl) */
+  breakers?: CircuitBreakerRegistry
+}
+
 export class CynapsApiClient {
   private readonly baseUrl: string
   private readonly anonKey: string
   private readonly serviceRoleKey: string
   private readonly userId: string
   private readonly agentId: string | undefined
+  private readonly cache: ResponseCache
+  private readonly cacheTtls: Record<string, number>
+  private readonly breakers: CircuitBreakerRegistry
 
-  constructor(config: CynapsConfig) {
+  constructor(config: CynapsConfig, options?: CynapsApiClientOptions) {
     this.baseUrl = config.supabaseUrl.replace(/\/$/, '')
     this.anonKey = config.supabaseAnonKey
     this.serviceRoleKey = config.serviceRoleKey
     this.userId = config.userId
     this.agentId = config.agentId
+    this.cache = options?.cache ?? sharedCache
+    this.cacheTtls = { ...RPC_CACHE_TTLS, ...options?.cacheTtls }
+    this.breakers = options?.breakers ?? sharedBreakerRegistry(this.baseUrl)
   }
 
   /**
    * Create a client with agent identity from the OpenClaw tool context.
    * Context agentId (runtime) takes priority over config agentId (static).
    */
-  static fromContext(config: CynapsConfig, ctx?: { agentId?: string }): CynapsApiClient {
+  static fromContext(
+    config: CynapsConfig,
+    ctx?: { agentId?: string },
+    options?: CynapsApiClientOptions,
+  ): CynapsApiClient {
     const effective = ctx?.agentId ? { ...config, agentId: ctx.agentId } : config
-    return new CynapsApiClient(effective)
+    return new CynapsApiClient(effective, options)
+  }
+
+  /** Hit/miss counters for the response cache */
+  cacheStats(): CacheStats {
+    return this.cache.stats()
+  }
+
+  /** Current circuit breaker state per edge function */
+  circuitStates(): CircuitSnapshot[] {
+    return this.breakers.snapshot()
   }
 
   /**
@@ -58,25 +101,201 @@ export class CynapsApiClient {
   ): Promise<T> {
     const url = `${this.baseUrl}/functions/v1/${functionName}`
     const method = options?.method ?? 'POST'
-    const timeout = options?.timeout ?? DEFAULT_TIMEOUT_MS
-    const maxRetries = options?.retries ?? MAX_RETRIES
 
+    const response = await this.send(functionName, url, {
+      method,
+      headers: this.buildHeaders(),
+      body: method !== 'GET' ? JSON.stringify(body) : undefined,
+    }, options)
+
+    return (await response.json()) as T
+  }
+
+  /**
+   * Call agent-tools RPC endpoint.
+   * Convenience wrapper that builds the { method, params } envelope.
+   *
+   * Methods listed in RPC_CACHE_TTLS are served from the response cache
+   * while fresh. Write methods listed in RPC_INVALIDATIONS drop the
+   * cached reads they affect once they succeed.
+   */
+  async rpc<T = unknown>(
+    method: string,
+    params: Record<string, unknown> = {},
+    options?: { timeout?: number; retries?: number },
+  ): Promise<T> {
+    const ttl = this.cacheTtls[method] ?? 0
+    const key = `${this.cachePrefix(method)}${stableStringify(params)}`
+
+    if (ttl > 0) {
+      const cached = this.cache.get(key)
+      if (cached !== undefined) return cached as T
+    }
+
+    const result = await this.call<T>('agent-tools', { method, params }, options)
+
+    if (ttl > 0) this.cache.set(key, result, ttl)
+    this.invalidate(RPC_INVALIDATIONS[method])
+    return result
+  }
+
+  /**
+   * Query skill-api (PostgREST proxy).
+   *
+   * @param table - Table name from the whitelist
+   * @param params - PostgREST query parameters
+   * @param options - Method and body for write operations, timeout, retry control
+   *
+   * Shares call()'s retry pipeline, but only retries requests that are safe
+   * to repeat: reads, PATCH, DELETE, and keyed POSTs. A POST is keyed when
+   * the caller passes `idempotencyKey` or the body carries its own row `id`
+   * (the key is then `<table>:<id>`); the key goes out as an
+   * `Idempotency-Key` header, identical on every attempt. An unkeyed POST
+   * gets one attempt. When a retried insert answers 409, an earlier attempt
+   * landed and its response was lost — the row is read back by its id and
+   * returned as if the insert had succeeded.
+   *
+   * SECURITY NOTE (MED-3): PostgREST filter values (e.g., `eq.${trackId}`)
+   * are safe against injection because URL.searchParams.set() handles
+   * percent-encoding. A value like "abc;owner_id=eq.attacker" becomes
+   * "abc%3Bowner_id%3Deq.attacker" which PostgREST treats as a literal.
+   * Do NOT refactor this to use string concatenation for URL construction.
+   *
+   * Build params with filter() (core/filter.ts) rather than by hand — it
+   * validates column names and quotes in.(...) list values, which URL
+   * encoding alone does not protect.
+   */
+  async query<T = unknown>(
+    table: string,
+    params?: Record<string, string>,
+    options?: {
+      method?: string
+      body?: Record<string, unknown>
+      timeout?: number
+      retries?: number
+      idempotencyKey?: string
+    },
+  ): Promise<T> {
+    const url = this.tableUrl(table, params)
+    const method = options?.method ?? 'GET'
+    const headers = this.buildHeaders()
+
+    // Writes return the affected rows (DELETE included, so callers can count them)
+    if (method !== 'GET') {
+      headers['Prefer'] = 'return=representation'
+    }
+
+    const rowId = method === 'POST' && typeof options?.body?.id === 'string' ? options.body.id : undefined
+    const idempotencyKey = method === 'POST'
+      ? options?.idempotencyKey ?? (rowId ? `${table}:${rowId}` : undefined)
+      : undefined
+    if (idempotencyKey) headers['Idempotency-Key'] = idempotencyKey
+    const retries = method === 'POST' && !idempotencyKey ? 0 : options?.retries
+
+    let response: Response
+    try {
+      response = await this.send('skill-api', url.toString(), {
+        method,
+        headers,
+        body: options?.body ? JSON.stringify(options.body) : undefined,
+      }, { ...options, retries })
+    } catch (err) {
+      if (!rowId || !(err instanceof CynapsApiError) || err.status !== 409) throw err
+      const existing = await this.query<unknown[]>(table, filter().eq('id', rowId).build())
+      if (!existing?.length) throw err
+      this.invalidate(TABLE_INVALIDATIONS[table])
+      return existing as T
+    }
+
+    if (method !== 'GET') this.invalidate(TABLE_INVALIDATIONS[table])
+
+    // DELETE without a representation returns 204 No Content — no body to parse
+    if (response.status === 204 || response.headers.get('content-length') === '0') {
+      return ([] as unknown) as T
+    }
+
+    return (await response.json()) as T
+  }
+
+  /**
+   * Read one page from skill-api with the total row count.
+   *
+   * Sends `Prefer: count=exact`; PostgREST answers with a Content-Range
+   * header like `0-49/1234`. `total` is null if the server omits it.
+   * Paging itself is driven by limit/offset in params.
+   */
+  async queryPage<T = unknown>(
+    table: string,
+    params?: Record<string, string>,
+    options?: { timeout?: number; retries?: number },
+  ): Promise<{ rows: T[]; total: number | null }> {
     const headers = this.buildHeaders()
+    headers['Prefer'] = 'count=exact'
 
+    const response = await this.send('skill-api', this.tableUrl(table, params).toString(), {
+      method: 'GET',
+      headers,
+    }, options)
+
+    const rows = ((await response.json()) as T[] | null) ?? []
+    const total = response.headers.get('content-range')?.split('/')[1]
+    return { rows, total: total && total !== '*' ? Number(total) : null }
+  }
+
+  // ─── Private ────────────────────────────────────────────────────
+
+  private tableUrl(table: string, params?: Record<string, string>): URL {
+    const url = new URL(`${this.baseUrl}/functions/v1/skill-api/${table}`)
+    if (params) {
+      for (const [k, v] of Object.entries(params)) {
+        url.searchParams.set(k, v)
+      }
+    }
+    return url
+  }
+
+  /**
+   * Shared fetch pipeline for call() and query(): timeout per attempt,
+   * exponential backoff on 5xx and network errors, and a wait of
+   * Retry-After seconds (5 if absent, at most 60) on 429. Other client
+   * errors (4xx) fail immediately. Resolves with the OK response.
+   *
+   * Every attempt goes through the named function's circuit breaker; an
+   * open breaker rejects with CIRCUIT_OPEN before any request is made.
+   */
+  private async send(
+    functionName: string,
+    url: string,
+    init: { method: string; headers: Record<string, string>; body?: string },
+    options?: { timeout?: number; retries?: number },
+  ): Promise<Response> {
+    const timeout = options?.timeout ?? DEFAULT_TIMEOUT_MS
+    const maxRetries = options?.retries ?? MAX_RETRIES
+
+    const breaker = this.breakers.get(functionName)
     let lastError: CynapsApiError | null = null
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
       try {
+        if (!breaker.allow()) {
+          const seconds = Math.ceil(breaker.retryInMs() / 1_000)
+          throw new CynapsApiError(
+            `${functionName} is temporarily unavailable — failing fast` +
+              (seconds > 0 ? `, next attempt allowed in ${seconds}s` : ''),
+            503,
+            'CIRCUIT_OPEN',
+          )
+        }
+
         const response = await fetch(url, {
-          method,
-          headers,
-          body: method !== 'GET' ? JSON.stringify(body) : undefined,
+          ...init,
           signal: AbortSignal.timeout(timeout),
         })
 
-        if (response.ok) {
-          return (await response.json()) as T
-        }
+        if (response.status >= 500) breaker.recordFailure()
+        else breaker.recordSuccess()
+
+        if (response.ok) return response
 
         // Parse error body
         const errorBody = await response.json().catch(
@@ -84,14 +303,14 @@ export class CynapsApiClient {
         ) as ApiErrorBody
 
         const apiError = new CynapsApiError(
-          errorBody.error || `HTTP ${response.status}`,
+          errorBody.error || errorBody.message || `HTTP ${response.status}`,
           response.status,
           errorBody.code,
           errorBody.errorId,
         )
 
-        // Don't retry client errors (4xx) — they won't change
-        if (apiError.isClientError) throw apiError
+        // Don't retry client errors (4xx) other than 429 — they won't change
+        if (apiError.isClientError && !apiError.isRateLimited) throw apiError
 
         // Retry server errors (5xx) and rate limits (429)
         lastError = apiError
@@ -106,6 +325,7 @@ export class CynapsApiClient {
         if (err instanceof CynapsApiError) throw err
 
         // Timeout or network error
+        breaker.recordFailure()
         const message = err instanceof Error ? err.message : String(err)
         lastError = new CynapsApiError(
           message.includes('timeout') ? `Request timed out after ${timeout}ms` : message,
@@ -123,78 +343,17 @@ export class CynapsApiClient {
     throw lastError ?? new CynapsApiError('Request failed after retries', 500)
   }
 
-  /**
-   * Call agent-tools RPC endpoint.
-   * Convenience wrapper that builds the { method, params } envelope.
-   */
-  async rpc<T = unknown>(
-    method: string,
-    params: Record<string, unknown> = {},
-    options?: { timeout?: number },
-  ): Promise<T> {
-    return this.call<T>('agent-tools', { method, params }, options)
+  /** Cache keys are scoped per user so a shared cache never crosses accounts */
+  private cachePrefix(method: string): string {
+    return `${this.baseUrl}|${this.userId}|rpc:${method}:`
   }
 
-  /**
-   * Query skill-api (PostgREST proxy).
-   *
-   * @param table - Table name from the whitelist
-   * @param params - PostgREST query parameters
-   * @param options - Method and body for write operations
-   *
-   * SECURITY NOTE (MED-3): PostgREST filter values (e.g., `eq.${trackId}`)
-   * are safe against injection because URL.searchParams.set() handles
-   * percent-encoding. A value like "abc;owner_id=eq.attacker" becomes
-   * "abc%3Bowner_id%3Deq.attacker" which PostgREST treats as a literal.
-   * Do NOT refactor this to use string concatenation for URL construction.
-   */
-  async query<T = unknown>(
-    table: string,
-    params?: Record<string, string>,
-    options?: { method?: string; body?: Record<string, unknown> },
-  ): Promise<T> {
-    const url = new URL(`${this.baseUrl}/functions/v1/skill-api/${table}`)
-    if (params) {
-      for (const [k, v] of Object.entries(params)) {
-        url.searchParams.set(k, v)
-      }
+  private invalidate(methods: string[] | undefined): void {
+    for (const method of methods ?? []) {
+      this.cache.invalidate(this.cachePrefix(method))
     }
-
-    const method = options?.method ?? 'GET'
-    const headers = this.buildHeaders()
-
-    if (method === 'POST' || method === 'PATCH') {
-      headers['Prefer'] = 'return=representation'
-    }
-
-    const response = await fetch(url.toString(), {
-      method,
-      headers,
-      body: options?.body ? JSON.stringify(options.body) : undefined,
-      signal: AbortSignal.timeout(DEFAULT_TIMEOUT_MS),
-    })
-
-    if (!response.ok) {
-      const errorBody = await response.json().catch(
-        () => ({ error: `HTTP ${response.status}` }),
-      ) as ApiErrorBody
-      throw new CynapsApiError(
-        errorBody.error || `HTTP ${response.status}`,
-        response.status,
-        errorBody.code,
-      )
-    }
-
-    // DELETE returns 204 No Content — no body to parse
-    if (response.status === 204 || response.headers.get('content-length') === '0') {
-      return ([] as unknown) as T
-    }
-
-    return (await response.json()) as T
   }
 
-  // ─── Private ────────────────────────────────────────────────────
-
   private buildHeaders(): Record<string, string> {
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
@@ -219,6 +378,15 @@ export class CynapsApiClient {
 
 // ─── Helpers ──────────────────────────────────────────────────────
 
+function sharedBreakerRegistry(baseUrl: string): CircuitBreakerRegistry {
+  let registry = sharedBreakers.get(baseUrl)
+  if (!registry) {
+    registry = new CircuitBreakerRegistry()
+    sharedBreakers.set(baseUrl, registry)
+  }
+  return registry
+}
+
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms))
 }
@@ -0,0 +1,72 @@
+/**
+ * Batching — split large ID lists into server-sized chunks and run them
+ * with bounded concurrency.
+ *
+ * Each chunk settles independently: a failed chunk is reported next to
+ * the successful ones instead of rejecting the whole batch, so a 60-track
+ * album job that hits one 5xx still enqueues (or polls) the other 40.
+ *
+ * @example
+ *   const outcomes = await mapChunks(trackIds, 20, 3, (ids) =>
+ *     client.call('suno-generation-enqueue', { trackIds: ids }))
+ */
+
+import { CynapsApiError, wrapError } from './errors.js'
+
+/** Largest batch the enqueue endpoints and one in() query take */
+export const SERVER_BATCH_SIZE = 20
+/** Chunks in flight at once */
+export const BULK_CONCURRENCY = 3
+
+export type ChunkOutcome<T, R> =
+  | { index: number; items: T[]; ok: true; value: R }
+  | { index: number; items: T[]; ok: false; error: CynapsApiError }
+
+/** Split `items` into consecutive chunks of at most `size` */
+export function chunk<T>(items: readonly T[], size: number): T[][] {
+  if (!Number.isInteger(size) || size < 1) throw new RangeError(`Chunk size must be a positive integer, got ${size}`)
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size))
+  return chunks
+}
+
+/**
+ * Run `fn` over `items` in chunks of `size`, at most `concurrency` at a time.
+ * Outcomes are returned in chunk order regardless of completion order.
+ */
+export async function mapChunks<T, R>(
+  items: readonly T[],
+  size: number,
+  concurrency: number,
+  fn: (chunk: T[], index: number) => Promise<R>,
+): Promise<ChunkOutcome<T, R>[]> {
+  const chunks = chunk(items, size)
+  const outcomes: ChunkOutcome<T, R>[] = new Array(chunks.length)
+  let next = 0
+
+  async function worker(): Promise<void> {
+    while (next < chunks.length) {
+      const index = next++
+      const chunkItems = chunks[index]
+      try {
+        outcomes[index] = { index, items: chunkItems, ok: true, value: await fn(chunkItems, index) }
+      } catch (err) {
+        outcomes[index] = { index, items: chunkItems, ok: false, error: wrapError(err) }
+      }
+    }
+  }
+
+  const workers = Math.min(Math.max(1, Math.floor(concurrency)), chunks.length)
+  await Promise.all(Array.from({ length: workers }, worker))
+  return outcomes
+}
+
+/** Failed chunks in the shape tools report them */
+export function describeFailedChunks<T, R>(outcomes: ChunkOutcome<T, R>[]) {
+  return outcomes.flatMap((o) => o.ok ? [] : [{
+    chunk: o.index + 1,
+    ids: o.items,
+    error: o.error.userMessage,
+    code: o.error.code ?? null,
+  }])
+}
@@ -0,0 +1,99 @@
+/**
+ * Response Cache — TTL cache for read-mostly agent-tools RPCs.
+ *
+ * Styles, personas, influence groups, and project context barely change
+ * between agent turns, so CynapsApiClient serves them from here instead of
+ * re-fetching every time. Writes that affect a cached read invalidate it.
+ *
+ * The cache is pluggable: anything implementing ResponseCache can be passed
+ * to the client (e.g. a shared store across processes). MemoryCache is the
+ * in-process default.
+ */
+
+/** Default TTL per cacheable RPC method. Methods not listed are never cached. */
+export const RPC_CACHE_TTLS: Readonly<Record<string, number>> = {
+  'browse-styles': 10 * 60_000,
+  'get-personas': 10 * 60_000,
+  'browse-influence-groups': 5 * 60_000,
+  'get-project-context': 60_000,
+}
+
+/** Write RPCs and the cached RPC methods they make stale */
+export const RPC_INVALIDATIONS: Readonly<Record<string, string[]>> = {
+  'set-project-context': ['get-project-context'],
+}
+
+/** Tables whose writes (POST/PATCH/DELETE via query()) make cached RPCs stale */
+export const TABLE_INVALIDATIONS: Readonly<Record<string, string[]>> = {
+  // Context rules embed project names; influence groups are project-scoped
+  sunoma_projects: ['get-project-context', 'browse-influence-groups'],
+}
+
+export interface CacheStats {
+  hits: number
+  misses: number
+  size: number
+}
+
+export interface ResponseCache {
+  get(key: string): unknown | undefined
+  set(key: string, value: unknown, ttlMs: number): void
+  /** Drop every entry whose key starts with prefix */
+  invalidate(prefix: string): void
+  stats(): CacheStats
+}
+
+/** Values are copied in and out, so callers mutating a result can't corrupt the entry */
+export class MemoryCache implements ResponseCache {
+  private readonly entries = new Map<string, { value: unknown; expiresAt: number }>()
+  private hits = 0
+  private misses = 0
+
+  constructor(private readonly maxEntries = 500) {}
+
+  get(key: string): unknown | undefined {
+    const entry = this.entries.get(key)
+    if (entry && entry.expiresAt > Date.now()) {
+      this.hits++
+      return structuredClone(entry.value)
+    }
+    if (entry) this.entries.delete(key)
+    this.misses++
+    return undefined
+  }
+
+  set(key: string, value: unknown, ttlMs: number): void {
+    // Map preserves insertion order — evict the oldest entry when full
+    if (!this.entries.has(key) && this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value
+      if (oldest !== undefined) this.entries.delete(oldest)
+    }
+    this.entries.set(key, { value: structuredClone(value), expiresAt: Date.now() + ttlMs })
+  }
+
+  invalidate(prefix: string): void {
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) this.entries.delete(key)
+    }
+  }
+
+  stats(): CacheStats {
+    return { hits: this.hits, misses: this.misses, size: this.entries.size }
+  }
+}
+
+/**
+ * Deterministic JSON for cache keys — object keys are sorted so
+ * { a, b } and { b, a } hit the same entry.
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+  if (value && typeof value === 'object') {
+    const obj = value as Record<string, unknown>
+    return `{${Object.keys(obj).sort()
+      .filter((k) => obj[k] !== undefined)
+      .map((k) => `${JSON.stringify(k)}:${stableStringify(obj[k])}`)
+      .join(',')}}`
+  }
+  return JSON.stringify(value)
+}
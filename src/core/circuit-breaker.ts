@@ -0,0 +1,106 @@
+/**
+ * Circuit Breaker — Fail fast when an edge function is down.
+ *
+ * One breaker per edge function. After FAILURE_THRESHOLD consecutive
+ * failed attempts (5xx, timeout, network error) the breaker opens and
+ * every call is rejected immediately with CIRCUIT_OPEN instead of
+ * waiting through timeouts and retries. After the cooldown a single
+ * probe request is let through (half-open): success closes the breaker,
+ * failure re-opens it for another cooldown.
+ *
+ * Any response below 500 — including 4xx and 429 — counts as success:
+ * the function is up, it just said no.
+ */
+
+const FAILURE_THRESHOLD = 5
+const COOLDOWN_MS = 30_000
+
+export type CircuitState = 'closed' | 'open' | 'half_open'
+
+export interface CircuitSnapshot {
+  name: string
+  state: CircuitState
+  failures: number
+  /** Milliseconds until the next probe is allowed (open state only) */
+  retryInMs: number
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number
+  cooldownMs?: number
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed'
+  private failures = 0
+  private openedAt = 0
+  private probeInFlight = false
+  private readonly failureThreshold: number
+  private readonly cooldownMs: number
+
+  constructor(readonly name: string, options?: CircuitBreakerOptions) {
+    this.failureThreshold = options?.failureThreshold ?? FAILURE_THRESHOLD
+    this.cooldownMs = options?.cooldownMs ?? COOLDOWN_MS
+  }
+
+  /** Whether a request may go out now. Transitions open → half_open after the cooldown. */
+  allow(): boolean {
+    if (this.state === 'closed') return true
+    if (this.state === 'open') {
+      if (this.retryInMs() > 0) return false
+      this.state = 'half_open'
+      this.probeInFlight = false
+    }
+    // half_open: exactly one probe at a time
+    if (this.probeInFlight) return false
+    this.probeInFlight = true
+    return true
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed'
+    this.failures = 0
+    this.probeInFlight = false
+  }
+
+  recordFailure(): void {
+    this.failures++
+    this.probeInFlight = false
+    if (this.state === 'half_open' || this.failures >= this.failureThreshold) {
+      this.state = 'open'
+      this.openedAt = Date.now()
+    }
+  }
+
+  retryInMs(): number {
+    if (this.state !== 'open') return 0
+    return Math.max(0, this.openedAt + this.cooldownMs - Date.now())
+  }
+
+  snapshot(): CircuitSnapshot {
+    return { name: this.name, state: this.state, failures: this.failures, retryInMs: this.retryInMs() }
+  }
+}
+
+/** Lazily creates one breaker per edge function name */
+export class CircuitBreakerRegistry {
+  private readonly breakers = new Map<string, CircuitBreaker>()
+
+  constructor(private readonly options?: CircuitBreakerOptions) {}
+
+  get(name: string): CircuitBreaker {
+    let breaker = this.breakers.get(name)
+    if (!breaker) {
+      breaker = new CircuitBreaker(name, this.options)
+      this.breakers.set(name, breaker)
+    }
+    return breaker
+  }
+
+  /** States of every breaker that has seen traffic, sorted by name */
+  snapshot(): CircuitSnapshot[] {
+    return [...this.breakers.values()]
+      .map((b) => b.snapshot())
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }
+}
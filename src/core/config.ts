@@ -5,12 +5,16 @@
  * Resolves values from pluginConfig first, then falls back to env vars.
  */
 
-import type { CynapsConfig, CynapsModule } from './types.js'
+import type { AgentProfile, CynapsConfig, CynapsModule, SpendingCaps, ToolPolicy } from './types.js'
+import { providers } from '../providers/index.js'
 
 const VALID_MODULES = new Set<CynapsModule>([
   'musicmation', 'storymation', 'skillmation', 'contentmation',
 ])
 
+/** Tool names are snake_case; patterns may add `*` and `?` */
+const TOOL_PATTERN_RE = /^[a-z0-9_*?]+$/
+
 /**
  * Parse plugin config into a validated CynapsConfig.
  * Accepts pluginConfig from OpenClaw (or undefined) and falls back to env vars.
@@ -45,8 +49,7 @@ export function parseConfig(pluginConfig?: Record<string, unknown>): CynapsConfi
   const rawModules = pluginConfig && Array.isArray(pluginConfig.enabledModules)
     ? pluginConfig.enabledModules
     : ['musicmation']
-  const enabledModules = rawModules
-    .filter((m): m is CynapsModule => typeof m === 'string' && VALID_MODULES.has(m as CynapsModule))
+  const enabledModules = parseModules(rawModules)
 
   if (enabledModules.length === 0) {
     enabledModules.push('musicmation')
@@ -60,7 +63,107 @@ export function parseConfig(pluginConfig?: Record<string, unknown>): CynapsConfi
     contentDomain,
     enabledModules,
     agentId,
+    tools: parseToolPolicy(pluginConfig?.tools),
+    defaultProjectId: getString(pluginConfig, 'defaultProjectId'),
+    defaultProvider: parseProvider(getString(pluginConfig, 'defaultProvider'), 'defaultProvider'),
+    spendingCaps: parseSpendingCaps(pluginConfig?.spendingCaps, 'spendingCaps'),
+    agents: parseAgents(pluginConfig?.agents),
+  }
+}
+
+function parseModules(raw: unknown[]): CynapsModule[] {
+  return raw.filter((m): m is CynapsModule => typeof m === 'string' && VALID_MODULES.has(m as CynapsModule))
+}
+
+/**
+ * agents: { [agentId]: profile }. Unlike the global list, a profile's
+ * enabledModules may be empty — that agent then only gets core tools.
+ */
+function parseAgents(raw: unknown): Record<string, AgentProfile> | undefined {
+  if (raw === undefined || raw === null) return undefined
+  if (typeof raw !== 'object' || Array.isArray(raw)) throw new Error('Invalid agents: expected an object keyed by agent ID')
+
+  const agents: Record<string, AgentProfile> = {}
+  for (const [agentId, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error(`Invalid agents.${agentId}: expected an object`)
+    }
+    const entry = value as Record<string, unknown>
+    const profile: AgentProfile = {}
+    if (entry.enabledModules !== undefined) {
+      if (!Array.isArray(entry.enabledModules)) throw new Error(`Invalid agents.${agentId}.enabledModules: expected an array`)
+      profile.enabledModules = parseModules(entry.enabledModules)
+    }
+    const defaultProjectId = getString(entry, 'defaultProjectId')
+    if (defaultProjectId) profile.defaultProjectId = defaultProjectId
+    const defaultProvider = parseProvider(getString(entry, 'defaultProvider'), `agents.${agentId}.defaultProvider`)
+    if (defaultProvider) profile.defaultProvider = defaultProvider
+    const caps = parseSpendingCaps(entry.spendingCaps, `agents.${agentId}.spendingCaps`)
+    if (caps) profile.spendingCaps = caps
+    if (entry.tools !== undefined) {
+      const policy = parseToolPolicy(entry.tools, `agents.${agentId}.tools`)
+      const lists = entry.tools as Record<string, unknown>
+      profile.tools = {
+        ...(lists.allow !== undefined ? { allow: policy?.allow ?? [] } : {}),
+        ...(lists.deny !== undefined ? { deny: policy?.deny ?? [] } : {}),
+      }
+    }
+    agents[agentId] = profile
+  }
+  return Object.keys(agents).length ? agents : undefined
+}
+
+/** A provider ID must be registered — a typo would otherwise fail every generation call */
+function parseProvider(id: string | undefined, path: string): string | undefined {
+  if (id && !providers.get(id)) {
+    throw new Error(`Invalid ${path}: unknown provider "${id}" (available: ${providers.ids().join(', ')})`)
+  }
+  return id
+}
+
+/** Caps are positive integers; a malformed cap is a config error, never "no cap" */
+function parseSpendingCaps(raw: unknown, path: string): SpendingCaps | undefined {
+  if (raw === undefined || raw === null) return undefined
+  if (typeof raw !== 'object' || Array.isArray(raw)) throw new Error(`Invalid ${path}: expected an object`)
+  const caps: SpendingCaps = {}
+  for (const key of ['maxCreditsPerRequest', 'maxTracksPerRequest'] as const) {
+    const value = (raw as Record<string, unknown>)[key]
+    if (value === undefined) continue
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+      throw new Error(`Invalid ${path}.${key}: expected a positive integer`)
+    }
+    caps[key] = value
+  }
+  const refuse = (raw as Record<string, unknown>).refuseUnknownCost
+  if (refuse !== undefined) {
+    if (typeof refuse !== 'boolean') throw new Error(`Invalid ${path}.refuseUnknownCost: expected a boolean`)
+    caps.refuseUnknownCost = refuse
+  }
+  return Object.keys(caps).length ? caps : undefined
+}
+
+/**
+ * tools: { allow?: string[], deny?: string[] } — undefined when neither list
+ * has a pattern. A malformed pattern is a config error rather than skipped:
+ * dropping an allow entry could leave the list empty, which allows everything.
+ */
+function parseToolPolicy(raw: unknown, path = 'tools'): ToolPolicy | undefined {
+  if (raw === undefined || raw === null) return undefined
+  if (typeof raw !== 'object' || Array.isArray(raw)) throw new Error(`Invalid ${path}: expected { allow?, deny? }`)
+  const patterns = (key: 'allow' | 'deny'): string[] => {
+    const value = (raw as Record<string, unknown>)[key]
+    if (value === undefined) return []
+    if (!Array.isArray(value)) throw new Error(`Invalid ${path}.${key}: expected an array of tool name patterns`)
+    for (const p of value) {
+      if (typeof p !== 'string' || !TOOL_PATTERN_RE.test(p)) {
+        throw new Error(`Invalid ${path}.${key} pattern: ${JSON.stringify(p)}`)
+      }
+    }
+    return value as string[]
   }
+  const allow = patterns('allow')
+  const deny = patterns('deny')
+  return allow.length || deny.length ? { allow, deny } : undefined
 }
 
 function getString(obj: Record<string, unknown> | undefined, key: string): string | undefined {
@@ -0,0 +1,54 @@
+/**
+ * Plugin-issued confirmation tokens — the agent-tools confirmation flow for
+ * tools that write through skill-api tables, where no RPC issues a token.
+ *
+ * The first call returns a ConfirmationResponse whose token is an HMAC over
+ * the capability, the exact action (`subject`) and an expiry. The second
+ * call must bring that token back for the same action, so the model can't
+ * skip the preview, and a token for one version or state can't confirm
+ * another. Keys live in memory: a restart invalidates open tokens.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto'
+import { stableStringify } from './cache.js'
+import type { ConfirmationResponse } from './types.js'
+
+/** Same lifetime as the agent-tools tokens */
+export const CONFIRMATION_TTL_SEC = 300
+
+const key = randomBytes(32)
+
+/** A confirmation_required response for `capability` on `subject` */
+export function issueConfirmation(
+  capability: string,
+  subject: Record<string, unknown>,
+  message: string,
+): ConfirmationResponse {
+  const expiresAt = Date.now() + CONFIRMATION_TTL_SEC * 1000
+  return {
+    confirmation_required: true,
+    autonomy_level: 'ask',
+    capability,
+    confirmation_token: `${expiresAt}.${sign(capability, subject, expiresAt)}`,
+    expires_in: CONFIRMATION_TTL_SEC,
+    message,
+  }
+}
+
+/** Whether `token` was issued for this capability and subject and hasn't expired */
+export function verifyConfirmation(token: string, capability: string, subject: Record<string, unknown>): boolean {
+  const [expires, signature] = token.split('.')
+  const expiresAt = Number(expires)
+  if (!signature || !Number.isInteger(expiresAt) || expiresAt < Date.now()) return false
+  const expected = Buffer.from(sign(capability, subject, expiresAt), 'base64url')
+  const given = Buffer.from(signature, 'base64url')
+  return given.length === expected.length && timingSafeEqual(given, expected)
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────
+
+function sign(capability: string, subject: Record<string, unknown>, expiresAt: number): string {
+  return createHmac('sha256', key)
+    .update(`${capability}\n${stableStringify(subject)}\n${expiresAt}`)
+    .digest('base64url')
+}
@@ -35,10 +35,16 @@ export class CynapsApiError extends Error {
     return this.status === 429
   }
 
+  /** True if the client refused to call a failing edge function (circuit breaker open) */
+  get isCircuitOpen(): boolean {
+    return this.code === 'CIRCUIT_OPEN'
+  }
+
   /** User-safe message (never includes internal details) */
   get userMessage(): string {
     if (this.isAuthError) return 'Having trouble connecting — try again in a moment.'
     if (this.isRateLimited) return this.message
+    if (this.isCircuitOpen) return this.message
     if (this.isServerError) return 'Something went wrong on our end. Please try again.'
     return this.message
   }
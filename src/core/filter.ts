@@ -0,0 +1,129 @@
+/**
+ * PostgREST Filter Builder — typed query params for CynapsApiClient.query().
+ *
+ * Hand-written filters like `in.(${ids.join(',')})` break (or widen) as soon
+ * as a value contains a comma or parenthesis. This builder validates column
+ * names and quotes values the way PostgREST parses them, so tool code never
+ * interpolates filter strings itself.
+ *
+ * @example
+ *   client.query('sunoma_items', filter()
+ *     .in('id', trackIds)
+ *     .eq('item_type', 'variation')
+ *     .select('id', 'title', 'status')
+ *     .order('variation_index')
+ *     .build())
+ */
+
+import { CynapsApiError } from './errors.js'
+
+export type FilterValue = string | number | boolean
+
+const COLUMN_RE = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+/** Characters that must not appear unquoted inside an in.(...) list */
+const LIST_RESERVED_RE = /[,.:()"\\\s]/
+
+export class FilterBuilder {
+  private readonly params: Record<string, string> = {}
+  private readonly orders: string[] = []
+
+  /** column = value */
+  eq(column: string, value: FilterValue): this {
+    return this.set(column, `eq.${String(value)}`)
+  }
+
+  /** column >= value */
+  gte(column: string, value: FilterValue): this {
+    return this.set(column, `gte.${String(value)}`)
+  }
+
+  /** column < value */
+  lt(column: string, value: FilterValue): this {
+    return this.set(column, `lt.${String(value)}`)
+  }
+
+  /** column IS NULL */
+  isNull(column: string): this {
+    return this.set(column, 'is.null')
+  }
+
+  /** column IS NOT NULL */
+  notNull(column: string): this {
+    return this.set(column, 'not.is.null')
+  }
+
+  /** column IN (values) — each value is quoted when it contains reserved characters */
+  in(column: string, values: readonly FilterValue[]): this {
+    return this.set(column, `in.(${values.map((v) => quoteListValue(String(v))).join(',')})`)
+  }
+
+  /**
+   * Case-insensitive LIKE. `*` is the only wildcard — literal `%`, `_` and
+   * `\` in the pattern are escaped so user text can't widen the match.
+   */
+  ilike(column: string, pattern: string): this {
+    return this.set(column, `ilike.${pattern.replace(/[\\%_]/g, '\\$&')}`)
+  }
+
+  select(...columns: string[]): this {
+    for (const c of columns) assertColumn(c)
+    this.params.select = columns.join(',')
+    return this
+  }
+
+  /** Repeated calls add secondary sort keys */
+  order(column: string, direction: 'asc' | 'desc' = 'asc'): this {
+    assertColumn(column)
+    this.orders.push(`${column}.${direction}`)
+    return this
+  }
+
+  limit(count: number): this {
+    this.params.limit = String(assertCount('limit', count))
+    return this
+  }
+
+  offset(count: number): this {
+    this.params.offset = String(assertCount('offset', count))
+    return this
+  }
+
+  /** Query params ready for CynapsApiClient.query() */
+  build(): Record<string, string> {
+    const out = { ...this.params }
+    if (this.orders.length) out.order = this.orders.join(',')
+    return out
+  }
+
+  private set(column: string, expr: string): this {
+    assertColumn(column)
+    this.params[column] = expr
+    return this
+  }
+}
+
+export function filter(): FilterBuilder {
+  return new FilterBuilder()
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────
+
+function assertColumn(column: string): void {
+  if (!COLUMN_RE.test(column) || column === 'select' || column === 'order' || column === 'limit' || column === 'offset') {
+    throw new CynapsApiError(`Invalid filter column: ${JSON.stringify(column)}`, 400, 'INVALID_FILTER')
+  }
+}
+
+function assertCount(name: string, count: number): number {
+  if (!Number.isInteger(count) || count < 0) {
+    throw new CynapsApiError(`Invalid ${name}: ${count}`, 400, 'INVALID_FILTER')
+  }
+  return count
+}
+
+/** PostgREST list quoting: wrap in double quotes, backslash-escape `"` and `\` */
+function quoteListValue(value: string): string {
+  if (value && !LIST_RESERVED_RE.test(value)) return value
+  return `"${value.replace(/["\\]/g, '\\$&')}"`
+}
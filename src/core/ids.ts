@@ -0,0 +1,15 @@
+/**
+ * Client-side row IDs.
+ *
+ * The sunoma and module tables use explicit TEXT primary keys with no
+ * server-side default, so every insert brings its own ID in the existing
+ * {prefix}_{unix_epoch}_{8 hex} shape (e.g. track_1718000000_9f86d081).
+ * Carrying the ID also makes the insert safe to retry (see api-client.ts).
+ */
+
+export function newId(prefix: string): string {
+  const timestamp = Math.floor(Date.now() / 1000)
+  const hex = Array.from(crypto.getRandomValues(new Uint8Array(4)))
+    .map(b => b.toString(16).padStart(2, '0')).join('')
+  return `${prefix}_${timestamp}_${hex}`
+}
@@ -0,0 +1,139 @@
+/**
+ * Optional Columns — sunoma_items columns that not every backend has yet.
+ *
+ * Reads name them optimistically. When PostgREST rejects a read because one
+ * of them doesn't exist, the column is remembered as missing for that
+ * client and the read is retried as if the column were NULL on every row:
+ * an `is.null` filter on it always matches and is dropped, any other filter
+ * on it never matches (the read returns nothing), and it leaves `select`
+ * and `order`. Writes to a missing column still fail — callers that need
+ * one check missingColumn() on the error, and inserts whose optional
+ * columns are only nice to have go through insertOptional().
+ */
+
+import type { CynapsApiClient } from './api-client.js'
+import { CynapsApiError } from './errors.js'
+
+/** The table the optional columns belong to — reads of other tables pass through untouched */
+const ITEMS_TABLE = 'sunoma_items'
+
+/**
+ * deleted_at: the item trash; superseded_at / generation_attempt: regenerate
+ * history; lyrics_alignment: Sonauto align_lyrics timings; source_item_id:
+ * the track a Suno transformation was derived from
+ */
+export const OPTIONAL_COLUMNS = [
+  'deleted_at', 'superseded_at', 'generation_attempt', 'lyrics_alignment', 'source_item_id',
+] as const
+
+export type OptionalColumn = (typeof OPTIONAL_COLUMNS)[number]
+
+const missingByClient = new WeakMap<CynapsApiClient, Set<OptionalColumn>>()
+
+/** Run a read of `table` with `params`, adjusted for the optional columns this client's backend lacks */
+export async function withOptionalColumns<R>(
+  client: CynapsApiClient,
+  table: string,
+  params: Record<string, string>,
+  read: (params: Record<string, string>) => Promise<R>,
+  empty: R,
+): Promise<R> {
+  if (table !== ITEMS_TABLE) return read(params)
+
+  const missing = missingFor(client)
+  for (;;) {
+    const adjusted = withoutColumns(params, missing)
+    if (!adjusted) return empty
+    try {
+      return await read(adjusted)
+    } catch (err) {
+      const column = missingColumn(err)
+      if (!column || missing.has(column)) throw err
+      missing.add(column)
+    }
+  }
+}
+
+/** client.query() for a read that may name optional columns */
+export function queryOptional<T extends unknown[]>(
+  client: CynapsApiClient,
+  table: string,
+  params: Record<string, string>,
+): Promise<T> {
+  return withOptionalColumns(client, table, params, (p) => client.query<T>(table, p), [] as unknown as T)
+}
+
+/**
+ * Insert one row into sunoma_items, leaving out the `droppable` columns the
+ * backend lacks. The first failed insert marks the column missing for the
+ * client, like a read does. A missing column that isn't droppable still
+ * fails the insert.
+ */
+export async function insertOptional<T extends unknown[]>(
+  client: CynapsApiClient,
+  body: Record<string, unknown>,
+  droppable: readonly OptionalColumn[],
+): Promise<T> {
+  const missing = missingFor(client)
+  for (;;) {
+    const row = Object.fromEntries(Object.entries(body)
+      .filter(([column]) => !missing.has(column as OptionalColumn) || !droppable.includes(column as OptionalColumn)))
+    try {
+      return await client.query<T>(ITEMS_TABLE, undefined, { method: 'POST', body: row })
+    } catch (err) {
+      const column = missingColumn(err)
+      if (!column || missing.has(column) || !droppable.includes(column) || !(column in row)) throw err
+      missing.add(column)
+    }
+  }
+}
+
+/** Whether this client's backend is known to lack `column` */
+export function isColumnMissing(client: CynapsApiClient, column: OptionalColumn): boolean {
+  return missingByClient.get(client)?.has(column) ?? false
+}
+
+/**
+ * The optional column a PostgREST error says is missing, if any —
+ * `column t.c does not exist` (42703) on reads, `Could not find the 'c'
+ * column` (PGRST204) on writes.
+ */
+export function missingColumn(err: unknown): OptionalColumn | undefined {
+  if (!(err instanceof CynapsApiError) || err.status !== 400) return undefined
+  if (!/does not exist|could not find/i.test(err.message)) return undefined
+  return OPTIONAL_COLUMNS.find((c) => new RegExp(`\\b${c}\\b`).test(err.message))
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────
+
+function missingFor(client: CynapsApiClient): Set<OptionalColumn> {
+  let missing = missingByClient.get(client)
+  if (!missing) {
+    missing = new Set()
+    missingByClient.set(client, missing)
+  }
+  return missing
+}
+
+/** null when a filter on a missing column can never match */
+function withoutColumns(params: Record<string, string>, missing: Set<OptionalColumn>): Record<string, string> | null {
+  if (missing.size === 0) return params
+  const isMissing = (column: string) => missing.has(column as OptionalColumn)
+
+  const out: Record<string, string> = {}
+  for (const [key, value] of Object.entries(params)) {
+    if (isMissing(key)) {
+      if (value === 'is.null') continue
+      return null
+    }
+    if (key === 'select') {
+      out.select = value.split(',').filter((c) => !isMissing(c)).join(',')
+    } else if (key === 'order') {
+      const order = value.split(',').filter((o) => !isMissing(o.split('.')[0])).join(',')
+      if (order) out.order = order
+    } else {
+      out[key] = value
+    }
+  }
+  return out
+}
@@ -0,0 +1,94 @@
+/**
+ * Pagination — opaque cursors over limit/offset listings.
+ *
+ * Listing tools return at most one page plus a `next_cursor`; the agent
+ * passes it back unchanged to get the next page. The cursor encodes the
+ * offset and a fingerprint of the listing's filters, so a cursor from one
+ * listing can't be replayed against a different one.
+ */
+
+import type { CynapsApiClient } from './api-client.js'
+import { stableStringify } from './cache.js'
+import { CynapsApiError } from './errors.js'
+import type { FilterBuilder } from './filter.js'
+import { withOptionalColumns } from './optional-columns.js'
+
+export const DEFAULT_PAGE_SIZE = 50
+export const MAX_PAGE_SIZE = 200
+
+export interface Page<T> {
+  items: T[]
+  /** Rows matching the filters across all pages (null if the server didn't say) */
+  total: number | null
+  /** Pass back as `cursor` for the next page; null on the last page */
+  next_cursor: string | null
+  has_more: boolean
+}
+
+export interface PageRequest {
+  limit?: number
+  cursor?: string
+  /** Everything that defines the listing (table, filters, sort) — bound into the cursor */
+  scope: Record<string, unknown>
+}
+
+/** Fetch one page of `table`. Applies limit/offset to `query` and reads the total count. */
+export async function fetchPage<T>(
+  client: CynapsApiClient,
+  table: string,
+  query: FilterBuilder,
+  request: PageRequest,
+): Promise<Page<T>> {
+  const limit = Math.min(Math.max(1, Math.floor(request.limit ?? DEFAULT_PAGE_SIZE)), MAX_PAGE_SIZE)
+  const scope = fingerprint({ table, ...request.scope })
+  const offset = request.cursor ? decodeCursor(request.cursor, scope) : 0
+
+  const { rows, total } = await withOptionalColumns(client, table, query.limit(limit).offset(offset).build(),
+    (params) => client.queryPage<T>(table, params), { rows: [] as T[], total: 0 })
+
+  const end = offset + rows.length
+  const hasMore = total !== null ? end < total : rows.length === limit
+  return {
+    items: rows,
+    total,
+    next_cursor: hasMore ? encodeCursor(end, scope) : null,
+    has_more: hasMore,
+  }
+}
+
+export function encodeCursor(offset: number, scope: string): string {
+  return Buffer.from(JSON.stringify({ o: offset, s: scope })).toString('base64url')
+}
+
+/** Returns the offset, or throws INVALID_CURSOR if the cursor is malformed or from another listing */
+export function decodeCursor(cursor: string, scope: string): number {
+  let decoded: { o?: unknown; s?: unknown }
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+  } catch {
+    throw invalidCursor('Malformed cursor')
+  }
+  if (typeof decoded?.o !== 'number' || !Number.isInteger(decoded.o) || decoded.o < 0) {
+    throw invalidCursor('Malformed cursor')
+  }
+  if (decoded.s !== scope) {
+    throw invalidCursor('Cursor belongs to a different listing — restart without a cursor')
+  }
+  return decoded.o
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────
+
+function invalidCursor(message: string): CynapsApiError {
+  return new CynapsApiError(message, 400, 'INVALID_CURSOR')
+}
+
+/** FNV-1a over the scope's canonical JSON — short, stable, not a security boundary */
+function fingerprint(scope: Record<string, unknown>): string {
+  let hash = 0x811c9dc5
+  for (const ch of stableStringify(scope)) {
+    hash ^= ch.charCodeAt(0)
+    hash = Math.imul(hash, 0x01000193) >>> 0
+  }
+  return hash.toString(16).padStart(8, '0')
+}
@@ -0,0 +1,68 @@
+/**
+ * Tool Policy — per-tool allow/deny lists from plugin config.
+ *
+ * Patterns are globs over tool names: `*` matches any run of characters,
+ * `?` exactly one. An empty allow list allows everything; deny always wins.
+ * Filtering happens when a tool factory runs, so a denied tool is never
+ * handed to the runtime and the model never sees it — and, since the
+ * factory gets the session context, the policy can differ per agent.
+ */
+
+import type {
+  AgentTool, OpenClawPluginApi, OpenClawPluginToolContext, OpenClawPluginToolFactory, ToolPolicy, ToolRegisterOpts,
+} from './types.js'
+
+/** Compile a policy into a name predicate */
+export function createToolFilter(policy: ToolPolicy): (name: string) => boolean {
+  const allow = policy.allow.map(globToRegExp)
+  const deny = policy.deny.map(globToRegExp)
+  return (name) =>
+    (allow.length === 0 || allow.some((re) => re.test(name))) &&
+    !deny.some((re) => re.test(name))
+}
+
+const compiled = new WeakMap<ToolPolicy, (name: string) => boolean>()
+
+/** `createToolFilter` with the compiled predicate cached per policy object */
+export function isToolAllowed(policy: ToolPolicy | undefined, name: string): boolean {
+  if (!policy) return true
+  let allowed = compiled.get(policy)
+  if (!allowed) {
+    allowed = createToolFilter(policy)
+    compiled.set(policy, allowed)
+  }
+  return allowed(name)
+}
+
+/**
+ * Wrap `api` so every tool registered through it must pass `keep` for the
+ * context its factory runs in. Static tools are checked against an empty
+ * context. Everything else is forwarded untouched.
+ */
+export function filterTools(
+  api: OpenClawPluginApi,
+  keep: (name: string, ctx: OpenClawPluginToolContext) => boolean,
+): OpenClawPluginApi {
+  const select = (tools: AgentTool | AgentTool[] | null | undefined, ctx: OpenClawPluginToolContext) => {
+    const list = (Array.isArray(tools) ? tools : tools ? [tools] : []).filter((t) => keep(t.name, ctx))
+    return list.length ? list : null
+  }
+
+  return Object.assign(Object.create(api) as OpenClawPluginApi, {
+    registerTool(tool: AgentTool | OpenClawPluginToolFactory, opts?: ToolRegisterOpts) {
+      if (typeof tool === 'function') {
+        api.registerTool((ctx) => select(tool(ctx), ctx), opts)
+      } else if (keep(tool.name, {})) {
+        api.registerTool(tool, opts)
+      }
+    },
+  })
+}
+
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map((ch) => (ch === '*' ? '.*' : ch === '?' ? '.' : ch.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('')
+  return new RegExp(`^${source}$`)
+}
@@ -0,0 +1,23 @@
+/**
+ * Trash — items with `deleted_at` set (musicmation_delete_item).
+ *
+ * Table reads leave trashed rows out with `.isNull('deleted_at')`. The
+ * agent-tools RPCs and the enqueue endpoints predate the trash and don't
+ * know about it, so IDs going into them or coming back from them are
+ * checked here.
+ */
+
+import type { CynapsApiClient } from './api-client.js'
+import { filter } from './filter.js'
+import { queryOptional } from './optional-columns.js'
+
+/** The subset of `ids` that is in the trash (one query; keep `ids` to a server batch) */
+export async function findTrashed(client: CynapsApiClient, ids: string[]): Promise<Set<string>> {
+  if (ids.length === 0) return new Set()
+  const rows = await queryOptional<Array<{ id: string }>>(client, 'sunoma_items', filter()
+    .in('id', ids)
+    .notNull('deleted_at')
+    .select('id')
+    .build()) || []
+  return new Set(rows.map((r) => r.id))
+}
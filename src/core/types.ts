@@ -20,6 +20,38 @@ export interface CynapsConfig {
   /** OpenClaw agent ID (e.g. 'flow', 'pete'). Sent as X-Agent-Id header
    *  so the server can attribute actions to specific agents/sub-agents. */
   agentId?: string
+  /** Per-tool allow/deny globs, applied on top of enabledModules */
+  tools?: ToolPolicy
+  /** Project for new tracks when the agent passes none */
+  defaultProjectId?: string
+  /** Generation provider when the agent passes none (default: the registry's) */
+  defaultProvider?: string
+  spendingCaps?: SpendingCaps
+  /** Overrides keyed by runtime agent ID — see core/agents.ts */
+  agents?: Record<string, AgentProfile>
+}
+
+/** Per-request limits on generation; checked before anything is created */
+export interface SpendingCaps {
+  maxCreditsPerRequest?: number
+  maxTracksPerRequest?: number
+  /** Refuse providers that report no cost when maxCreditsPerRequest is set (default: allow, with a warning) */
+  refuseUnknownCost?: boolean
+}
+
+/** Per-agent overrides. `tools.allow` replaces the global list; `tools.deny` adds to it. */
+export interface AgentProfile {
+  enabledModules?: CynapsModule[]
+  defaultProjectId?: string
+  defaultProvider?: string
+  spendingCaps?: SpendingCaps
+  tools?: Partial<ToolPolicy>
+}
+
+/** Tool-name globs (`*`, `?`). Empty allow = every tool of the enabled modules; deny wins. */
+export interface ToolPolicy {
+  allow: string[]
+  deny: string[]
 }
 
 export type CynapsModule = 'musicmation' | 'storymation' | 'skillmation' | 'contentmation'
@@ -31,6 +63,8 @@ export type AutonomyLevel = 'auto' | 'suggest' | 'ask' | 'forbidden'
 /** Standard error shape from edge functions */
 export interface ApiErrorBody {
   error: string
+  /** PostgREST errors passed through skill-api carry `message` instead of `error` */
+  message?: string
   code?: string
   errorId?: string
 }
@@ -88,6 +122,7 @@ export interface Track {
   item_type?: string
   variation_index?: number | null
   generation_source?: string | null
+  source_item_id?: string | null
 }
 
 // ─── Search ─────────────────────────────────────────────────────────
@@ -175,6 +210,18 @@ export interface ProjectContext {
   rules: ProjectContextRule[]
 }
 
+// ─── Albums ──────────────────────────────────────────────────────────
+
+/** get-album agent-tools method: album metadata plus its tracks in dramaturgy order (see core/albums.ts) */
+export interface AlbumDetail {
+  id: string
+  title: string
+  artist?: string | null
+  image_url?: string | null
+  project_id?: string | null
+  tracks: Array<{ track_id: string; order: number }>
+}
+
 // ─── Library Stats ──────────────────────────────────────────────────
 
 export interface LibraryStats {
@@ -193,6 +240,111 @@ export interface LibraryStats {
   }>
 }
 
+// ─── Storymation ────────────────────────────────────────────────────
+
+/** A story lives in its own project (content_type "story") */
+export interface Story {
+  id: string
+  project_id: string
+  title: string
+  premise?: string | null
+  genre?: string | null
+  audience?: string | null
+  language?: string | null
+  created_at: string
+}
+
+export interface Chapter {
+  id: string
+  story_id: string
+  /** 1-based reading order */
+  position: number
+  title: string
+  summary?: string | null
+  /** Only returned when requested (list-chapters include_text) */
+  text?: string
+  word_count: number
+  /** sunoma_items row holding the latest narration, if any */
+  narration_item_id?: string | null
+  narration_status?: string | null
+  updated_at: string
+}
+
+/** list-chapters RPC */
+export interface ChapterList {
+  story: Story
+  chapters: Chapter[]
+}
+
+/** narrate-chapter RPC: the narration is queued as an audio item */
+export interface NarrationResult {
+  chapter_id: string
+  item_id: string
+  status: string
+}
+
+// ─── Skillmation ────────────────────────────────────────────────────
+
+export type SkillStatus = 'draft' | 'published'
+
+/** skillmation_skills row — one per skill name and owner */
+export interface Skill {
+  id: string
+  name: string
+  title: string
+  description: string
+  tags: string[] | null
+  /** Plugin modules the skill's tools come from */
+  modules: string[] | null
+  status: SkillStatus
+  current_version: number
+  published_version: number | null
+  published_at?: string | null
+  created_at: string
+  updated_at: string
+}
+
+/** skillmation_skill_versions row — every saved draft is a new version */
+export interface SkillVersion {
+  id: string
+  skill_id: string
+  version: number
+  content: string
+  description: string
+  /** validateSkill() result at save time */
+  validation: { valid: boolean; errors: number; warnings: number } | null
+  published_at: string | null
+  created_at: string
+}
+
+// ─── Contentmation ──────────────────────────────────────────────────
+
+export type PostStatus = 'draft' | 'scheduled' | 'published'
+
+/** contentmation_posts row — one post for one channel */
+export interface ContentPost {
+  id: string
+  channel: string
+  status: PostStatus
+  source_type: 'track' | 'album'
+  /** sunoma_items id (track) or album id */
+  source_id: string
+  project_id: string | null
+  title: string | null
+  /** The agent's copy, before the link and hashtags were added */
+  text: string
+  /** What gets posted */
+  body: string
+  hashtags: string[]
+  listen_url: string
+  image_url: string | null
+  scheduled_at: string | null
+  published_at: string | null
+  published_url: string | null
+  created_at: string
+  updated_at: string
+}
+
 // ─── OpenClaw SDK Types (matching real contract) ────────────────────
 
 /** Context passed by the OpenClaw runtime when resolving tool factories.
@@ -231,7 +383,8 @@ export interface AgentTool {
   label: string
   description: string
   parameters: Record<string, unknown>
-  execute(toolCallId: string, params: Record<string, unknown>): Promise<AgentToolResult>
+  /** `signal` is aborted by the host when the agent run is cancelled */
+  execute(toolCallId: string, params: Record<string, unknown>, signal?: AbortSignal): Promise<AgentToolResult>
 }
 
 export interface AgentToolResult {
@@ -0,0 +1,290 @@
+/**
+ * Workspace Files — write tool output into the agent's workspaceDir.
+ *
+ * Everything that lands on disk goes through here: names are sanitized,
+ * every path is resolved and checked to stay inside the workspace (titles
+ * are user/LLM-controlled), and remote downloads are size- and
+ * time-limited, streamed, and refused for private and loopback addresses.
+ * CDN fetches are plain `fetch` without our auth headers — audio and cover
+ * URLs are public and must never receive the API keys.
+ */
+
+import { createWriteStream } from 'node:fs'
+import { mkdir, rm, writeFile } from 'node:fs/promises'
+import { lookup } from 'node:dns/promises'
+import { BlockList, isIP } from 'node:net'
+import path from 'node:path'
+import { Readable, Transform, Writable } from 'node:stream'
+import type { TransformCallback } from 'node:stream'
+import { pipeline } from 'node:stream/promises'
+import type { ReadableStream as WebReadableStream } from 'node:stream/web'
+import { CynapsApiError } from './errors.js'
+import type { CynapsConfig } from './types.js'
+
+export const DOWNLOAD_TIMEOUT_MS = 60_000
+export const MAX_DOWNLOAD_BYTES = 100 * 1024 * 1024
+
+const MAX_REDIRECTS = 5
+
+const MAX_NAME_LENGTH = 80
+
+/** File extensions by content type, for URLs without one */
+const EXTENSION_BY_TYPE: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/flac': 'flac',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+}
+
+/**
+ * Turn a title into a portable file name stem: no path separators,
+ * control or shell-hostile characters, no leading or trailing dots, bounded length.
+ */
+export function sanitizeFileName(name: string, fallback = 'untitled'): string {
+  const cleaned = name
+    .normalize('NFKC')
+    .replace(/[\u0000-\u001f\u007f<>:"/\\|?*]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .replace(/^[.\s]+/, '')
+    .slice(0, MAX_NAME_LENGTH)
+    // Trailing dots and spaces are dropped silently on Windows
+    .replace(/[.\s]+$/, '')
+  return cleaned || fallback
+}
+
+/** Hands out names unique within one directory ("Song", "Song (2)", …), case-insensitively */
+export class NameAllocator {
+  private readonly used = new Set<string>()
+
+  allocate(stem: string, extension: string): string {
+    for (let n = 1; ; n++) {
+      const candidate = `${n === 1 ? stem : `${stem} (${n})`}.${extension}`
+      if (!this.used.has(candidate.toLowerCase())) {
+        this.used.add(candidate.toLowerCase())
+        return candidate
+      }
+    }
+  }
+}
+
+/** The workspace root for this tool call, or a NO_WORKSPACE error */
+export function requireWorkspace(workspaceDir: string | undefined): string {
+  if (!workspaceDir) {
+    throw new CynapsApiError('No workspace directory is available in this session', 400, 'NO_WORKSPACE')
+  }
+  return path.resolve(workspaceDir)
+}
+
+/** Resolve `relative` under `root`, refusing anything that escapes it */
+export function resolveInside(root: string, relative: string): string {
+  const resolved = path.resolve(root, relative)
+  if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+    throw new CynapsApiError(`Path escapes the workspace: ${relative}`, 400, 'INVALID_PATH')
+  }
+  return resolved
+}
+
+/** Write a file under the workspace (strings as UTF-8), creating parent directories */
+export async function writeWorkspaceFile(root: string, relative: string, content: string | Uint8Array): Promise<string> {
+  const target = resolveInside(root, relative)
+  await mkdir(path.dirname(target), { recursive: true })
+  await writeFile(target, content)
+  return target
+}
+
+/** File extension from the URL path, else from the content type, else `fallback` */
+export function extensionFor(url: string, contentType: string | null, fallback: string): string {
+  let fromPath = ''
+  try {
+    fromPath = path.extname(new URL(url).pathname).slice(1).toLowerCase()
+  } catch {
+    // Not a URL — the download itself will report it
+  }
+  if (/^[a-z0-9]{2,5}$/.test(fromPath)) return fromPath
+  const type = contentType?.split(';')[0].trim().toLowerCase() ?? ''
+  return EXTENSION_BY_TYPE[type] ?? fallback
+}
+
+export interface DownloadedFile {
+  bytes: number
+  contentType: string | null
+}
+
+export interface FetchedFile {
+  body: Buffer
+  contentType: string | null
+}
+
+export interface DownloadOptions {
+  timeoutMs?: number
+  maxBytes?: number
+  /**
+   * Hosts (`host[:port]`) exempt from the private-address check — the
+   * operator's own backend, which may be local (see configuredHosts()).
+   */
+  trustedHosts?: string[]
+}
+
+/** The hosts of the configured Supabase project and content domain */
+export function configuredHosts(config: Pick<CynapsConfig, 'supabaseUrl' | 'contentDomain'>): string[] {
+  return [config.supabaseUrl, config.contentDomain].flatMap((url) => {
+    try {
+      return [new URL(url).host]
+    } catch {
+      return []
+    }
+  })
+}
+
+/**
+ * Fetch a public http(s) URL into memory.
+ * Rejects non-2xx responses, private/loopback addresses and bodies over MAX_DOWNLOAD_BYTES.
+ */
+export async function fetchPublicFile(url: string, options?: DownloadOptions): Promise<FetchedFile> {
+  const signal = AbortSignal.timeout(options?.timeoutMs ?? DOWNLOAD_TIMEOUT_MS)
+  const response = await openPublicUrl(url, options, signal)
+  const limit = new ByteLimit(options?.maxBytes ?? MAX_DOWNLOAD_BYTES)
+  const chunks: Buffer[] = []
+  await streamBody(response, limit, new Writable({
+    write(chunk: Buffer, _encoding, callback) {
+      chunks.push(chunk)
+      callback()
+    },
+  }))
+  return { body: Buffer.concat(chunks), contentType: response.headers.get('content-type') }
+}
+
+/**
+ * Like fetchPublicFile, but streams the body into `target` (an
+ * already-resolved path) instead of memory. A failed download leaves no file.
+ */
+export async function downloadToFile(url: string, target: string, options?: DownloadOptions): Promise<DownloadedFile> {
+  const signal = AbortSignal.timeout(options?.timeoutMs ?? DOWNLOAD_TIMEOUT_MS)
+  const response = await openPublicUrl(url, options, signal)
+  const limit = new ByteLimit(options?.maxBytes ?? MAX_DOWNLOAD_BYTES)
+  await mkdir(path.dirname(target), { recursive: true })
+  try {
+    await streamBody(response, limit, createWriteStream(target))
+  } catch (err) {
+    await rm(target, { force: true })
+    throw err
+  }
+  return { bytes: limit.bytes, contentType: response.headers.get('content-type') }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────
+
+/** Loopback, private, link-local, CGNAT, benchmark, multicast and reserved ranges */
+const PRIVATE_RANGES = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6')
+}
+
+/**
+ * Fetch `url` without credentials, following redirects by hand so every hop
+ * is checked. Returns the 2xx response with its body unread.
+ */
+async function openPublicUrl(url: string, options: DownloadOptions | undefined, signal: AbortSignal): Promise<Response> {
+  let current = url
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicUrl(current, options?.trustedHosts ?? [])
+
+    let response: Response
+    try {
+      response = await fetch(current, { signal, redirect: 'manual' })
+    } catch (err) {
+      throw networkError(err)
+    }
+
+    const location = response.headers.get('location')
+    if (response.status >= 300 && response.status < 400 && location) {
+      if (redirects >= MAX_REDIRECTS) {
+        throw new CynapsApiError('Download failed: too many redirects', response.status, 'DOWNLOAD_FAILED')
+      }
+      current = new URL(location, current).toString()
+      continue
+    }
+    if (!response.ok) {
+      throw new CynapsApiError(`Download failed: HTTP ${response.status}`, response.status, 'DOWNLOAD_FAILED')
+    }
+    const declared = Number(response.headers.get('content-length') ?? 0)
+    if (declared > (options?.maxBytes ?? MAX_DOWNLOAD_BYTES)) {
+      throw new CynapsApiError(`File too large (${declared} bytes)`, 413, 'FILE_TOO_LARGE')
+    }
+    return response
+  }
+}
+
+/**
+ * Only http(s), and — unless the host is trusted — only hosts whose every
+ * resolved address is public. Audio and image URLs can be set by the agent,
+ * so without this an export could be pointed at loopback, the LAN or a
+ * cloud metadata endpoint.
+ */
+async function assertPublicUrl(url: string, trustedHosts: string[]): Promise<void> {
+  const parsed = new URL(url)
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    throw new CynapsApiError(`Refusing to download ${parsed.protocol} URL`, 400, 'INVALID_URL')
+  }
+  if (trustedHosts.includes(parsed.host)) return
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '')
+  let addresses: Array<{ address: string; family: number }>
+  if (isIP(hostname)) {
+    addresses = [{ address: hostname, family: isIP(hostname) }]
+  } else {
+    try {
+      addresses = await lookup(hostname, { all: true })
+    } catch (err) {
+      throw networkError(err)
+    }
+  }
+  if (addresses.some((a) => PRIVATE_RANGES.check(a.address, a.family === 6 ? 'ipv6' : 'ipv4'))) {
+    throw new CynapsApiError(`Refusing to download from a private address (${parsed.host})`, 400, 'INVALID_URL')
+  }
+}
+
+/** Pipe a response body through `limit` into `sink`, mapping stream failures to download errors */
+async function streamBody(response: Response, limit: ByteLimit, sink: Writable): Promise<void> {
+  const body = response.body ? Readable.fromWeb(response.body as WebReadableStream<Uint8Array>) : Readable.from([])
+  try {
+    await pipeline(body, limit, sink)
+  } catch (err) {
+    throw err instanceof CynapsApiError ? err : networkError(err)
+  }
+}
+
+/** Passes bytes through, failing with FILE_TOO_LARGE past `maxBytes` */
+class ByteLimit extends Transform {
+  bytes = 0
+
+  constructor(private readonly maxBytes: number) {
+    super()
+  }
+
+  override _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.bytes += chunk.length
+    if (this.bytes > this.maxBytes) {
+      callback(new CynapsApiError(`File too large (over ${this.maxBytes} bytes)`, 413, 'FILE_TOO_LARGE'))
+    } else {
+      callback(null, chunk)
+    }
+  }
+}
+
+function networkError(err: unknown): CynapsApiError {
+  const message = err instanceof Error ? err.message : String(err)
+  return new CynapsApiError(`Download failed: ${message}`, 0, 'NETWORK_ERROR')
+}
@@ -0,0 +1,167 @@
+/**
+ * Time-synced Lyrics — turn a transcript (plus optional alignment) into
+ * LRC and WebVTT.
+ *
+ * Sonauto's align_lyrics stores timestamped segments on the item
+ * (`lyrics_alignment`: words or lines, seconds). Those are mapped back onto
+ * the transcript's lines. Without alignment the lines are estimated: the
+ * track is split evenly across the [Section] tags, then evenly across the
+ * lines inside each section — good enough for a karaoke scroll, and the
+ * result says which of the two it is.
+ */
+
+export interface AlignedSegment {
+  text: string
+  /** Seconds from the start of the track */
+  start: number
+  end: number
+}
+
+export interface LyricCue {
+  start: number
+  end: number
+  text: string
+  /** Section tag the line sits under ("Verse 1", "Chorus"), if any */
+  section: string | null
+}
+
+export interface LyricSection {
+  tag: string | null
+  lines: string[]
+}
+
+export interface LyricsMeta {
+  title?: string | null
+  artist?: string | null
+  album?: string | null
+  duration_sec?: number | null
+}
+
+const SECTION_TAG_RE = /^\[([^\]]+)\]$/
+
+/** Split a transcript into sections at [Tag] lines. Blank lines are dropped. */
+export function parseTranscript(transcript: string): LyricSection[] {
+  const sections: LyricSection[] = []
+  let current: LyricSection = { tag: null, lines: [] }
+  for (const raw of transcript.split(/\r?\n/)) {
+    const line = raw.trim()
+    if (!line) continue
+    const tag = SECTION_TAG_RE.exec(line)
+    if (tag) {
+      if (current.tag !== null || current.lines.length > 0) sections.push(current)
+      current = { tag: tag[1].trim(), lines: [] }
+    } else {
+      current.lines.push(line)
+    }
+  }
+  if (current.tag !== null || current.lines.length > 0) sections.push(current)
+  return sections
+}
+
+/**
+ * Map alignment onto transcript lines. Word-level alignment (one segment
+ * per word) and line-level alignment (one per line) keep the transcript's
+ * text; anything else is used as-is, one cue per segment.
+ */
+export function cuesFromAlignment(sections: LyricSection[], alignment: AlignedSegment[]): LyricCue[] {
+  const segments = alignment
+    .filter((s) => Number.isFinite(s.start) && Number.isFinite(s.end))
+    .sort((a, b) => a.start - b.start)
+  const lines = sections.flatMap((s) => s.lines.map((text) => ({ text, section: s.tag })))
+  const wordCounts = lines.map((l) => words(l.text).length)
+  const totalWords = wordCounts.reduce((n, c) => n + c, 0)
+
+  if (segments.length === totalWords && totalWords > 0) {
+    let next = 0
+    return lines.flatMap((line, i) => {
+      const lineWords = segments.slice(next, next + wordCounts[i])
+      next += wordCounts[i]
+      if (lineWords.length === 0) return []
+      return [{ start: lineWords[0].start, end: lineWords[lineWords.length - 1].end, text: line.text, section: line.section }]
+    })
+  }
+  if (segments.length === lines.length) {
+    return lines.map((line, i) => ({ start: segments[i].start, end: segments[i].end, text: line.text, section: line.section }))
+  }
+  return segments.map((s) => ({ start: s.start, end: s.end, text: s.text.trim(), section: null }))
+}
+
+/** Even split: sections share the duration equally, lines share their section's slot */
+export function estimateCues(sections: LyricSection[], durationSec: number): LyricCue[] {
+  const sung = sections.filter((s) => s.lines.length > 0)
+  if (sung.length === 0 || !(durationSec > 0)) return []
+  const slot = durationSec / sung.length
+  return sung.flatMap((section, i) => {
+    const lineSlot = slot / section.lines.length
+    return section.lines.map((text, j) => ({
+      start: round(i * slot + j * lineSlot),
+      end: round(i * slot + (j + 1) * lineSlot),
+      text,
+      section: section.tag,
+    }))
+  })
+}
+
+/** LRC with ID tags; [mm:ss.xx] timestamps (minutes may exceed 59) */
+export function renderLrc(cues: LyricCue[], meta: LyricsMeta = {}): string {
+  const lines: string[] = []
+  if (meta.title) lines.push(`[ti:${oneLine(meta.title)}]`)
+  if (meta.artist) lines.push(`[ar:${oneLine(meta.artist)}]`)
+  if (meta.album) lines.push(`[al:${oneLine(meta.album)}]`)
+  if (meta.duration_sec) lines.push(`[length:${lrcTime(meta.duration_sec).slice(0, 5)}]`)
+  for (const cue of cues) lines.push(`[${lrcTime(cue.start)}]${oneLine(cue.text)}`)
+  return lines.join('\n') + '\n'
+}
+
+/** WebVTT; section tags become cue identifiers so players can jump to "Chorus" */
+export function renderVtt(cues: LyricCue[]): string {
+  const blocks = ['WEBVTT']
+  cues.forEach((cue, i) => {
+    const id = cue.section ? `${i + 1} ${oneLine(cue.section)}` : String(i + 1)
+    // "-->" may not appear in identifiers; cue text is markup, so escaping it also covers the arrow
+    blocks.push([
+      id.replace(/-->/g, '->'),
+      `${vttTime(cue.start)} --> ${vttTime(Math.max(cue.end, cue.start))}`,
+      escapeVtt(oneLine(cue.text)),
+    ].join('\n'))
+  })
+  return blocks.join('\n\n') + '\n'
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────
+
+function words(text: string): string[] {
+  return text.split(/\s+/).filter(Boolean)
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000
+}
+
+/** Cue text treats & and < as markup (and > closes it) — lyrics like "Rock & Roll" or "<3" must stay literal */
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+function oneLine(text: string): string {
+  return text.replace(/[\r\n]+/g, ' ').trim()
+}
+
+function lrcTime(seconds: number): string {
+  const centis = Math.round(Math.max(0, seconds) * 100)
+  const minutes = Math.floor(centis / 6000)
+  const rest = centis % 6000
+  return `${pad(minutes, 2)}:${pad(Math.floor(rest / 100), 2)}.${pad(rest % 100, 2)}`
+}
+
+function vttTime(seconds: number): string {
+  const millis = Math.round(Math.max(0, seconds) * 1000)
+  const hours = Math.floor(millis / 3_600_000)
+  const minutes = Math.floor((millis % 3_600_000) / 60_000)
+  const secs = Math.floor((millis % 60_000) / 1000)
+  return `${pad(hours, 2)}:${pad(minutes, 2)}:${pad(secs, 2)}.${pad(millis % 1000, 3)}`
+}
+
+function pad(n: number, width: number): string {
+  return String(n).padStart(width, '0')
+}
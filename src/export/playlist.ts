@@ -0,0 +1,130 @@
+/**
+ * Playlist Formats — render an ordered track list as M3U8, XSPF or JSPF.
+ *
+ * Pure functions: the export tool resolves the tracks, these only format.
+ * Every format carries title, duration, artwork and the contentDomain
+ * detail link per track; M3U8 has no field for the last two, so they go
+ * into #EXTALBUMARTURL and a plain comment line that players ignore.
+ */
+
+export type PlaylistFormat = 'm3u8' | 'xspf' | 'jspf'
+
+export const PLAYLIST_FORMATS: readonly PlaylistFormat[] = ['m3u8', 'xspf', 'jspf']
+
+export interface PlaylistEntry {
+  title: string
+  /** Playable audio URL (or local path) */
+  location: string
+  duration_sec?: number | null
+  artist?: string | null
+  album?: string | null
+  image_url?: string | null
+  /** contentDomain detail page */
+  info_url?: string | null
+}
+
+export interface Playlist {
+  title: string
+  creator?: string | null
+  image_url?: string | null
+  info_url?: string | null
+  entries: PlaylistEntry[]
+}
+
+export function renderPlaylist(playlist: Playlist, format: PlaylistFormat): string {
+  switch (format) {
+    case 'm3u8': return renderM3u8(playlist)
+    case 'xspf': return renderXspf(playlist)
+    case 'jspf': return JSON.stringify(toJspf(playlist), null, 2) + '\n'
+  }
+}
+
+/** Extended M3U, UTF-8. Duration is whole seconds (-1 when unknown). */
+export function renderM3u8(playlist: Playlist): string {
+  const lines = ['#EXTM3U', `#PLAYLIST:${oneLine(playlist.title)}`]
+  if (playlist.image_url) lines.push(`#EXTALBUMARTURL:${playlist.image_url}`)
+  for (const entry of playlist.entries) {
+    const seconds = entry.duration_sec != null ? Math.round(entry.duration_sec) : -1
+    const label = entry.artist ? `${entry.artist} - ${entry.title}` : entry.title
+    lines.push('', `#EXTINF:${seconds},${oneLine(label)}`)
+    if (entry.album) lines.push(`#EXTALB:${oneLine(entry.album)}`)
+    if (entry.image_url) lines.push(`#EXTALBUMARTURL:${entry.image_url}`)
+    if (entry.info_url) lines.push(`# ${entry.info_url}`)
+    lines.push(entry.location)
+  }
+  return lines.join('\n') + '\n'
+}
+
+/** XSPF 1 (https://xspf.org/spec). Track children follow the spec's element order. */
+export function renderXspf(playlist: Playlist): string {
+  const out = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+    ...element('  ', 'title', playlist.title),
+    ...element('  ', 'creator', playlist.creator),
+    ...element('  ', 'info', playlist.info_url),
+    ...element('  ', 'image', playlist.image_url),
+    '  <trackList>',
+  ]
+  playlist.entries.forEach((entry, i) => {
+    out.push(
+      '    <track>',
+      ...element('      ', 'location', entry.location),
+      ...element('      ', 'title', entry.title),
+      ...element('      ', 'creator', entry.artist),
+      ...element('      ', 'info', entry.info_url),
+      ...element('      ', 'image', entry.image_url),
+      ...element('      ', 'album', entry.album),
+      ...element('      ', 'trackNum', String(i + 1)),
+      ...element('      ', 'duration', durationMs(entry.duration_sec)),
+      '    </track>',
+    )
+  })
+  out.push('  </trackList>', '</playlist>')
+  return out.join('\n') + '\n'
+}
+
+/** JSPF — XSPF's JSON form (https://xspf.org/jspf) */
+export function toJspf(playlist: Playlist) {
+  return {
+    playlist: {
+      title: playlist.title,
+      ...(playlist.creator ? { creator: playlist.creator } : {}),
+      ...(playlist.info_url ? { info: playlist.info_url } : {}),
+      ...(playlist.image_url ? { image: playlist.image_url } : {}),
+      track: playlist.entries.map((entry, i) => ({
+        location: [entry.location],
+        title: entry.title,
+        ...(entry.artist ? { creator: entry.artist } : {}),
+        ...(entry.info_url ? { info: entry.info_url } : {}),
+        ...(entry.image_url ? { image: entry.image_url } : {}),
+        ...(entry.album ? { album: entry.album } : {}),
+        trackNum: i + 1,
+        ...(entry.duration_sec != null ? { duration: Math.round(entry.duration_sec * 1000) } : {}),
+      })),
+    },
+  }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────
+
+function oneLine(text: string): string {
+  return text.replace(/[\r\n]+/g, ' ').trim()
+}
+
+function durationMs(seconds: number | null | undefined): string | null {
+  return seconds != null ? String(Math.round(seconds * 1000)) : null
+}
+
+function element(indent: string, name: string, value: string | null | undefined): string[] {
+  return value ? [`${indent}<${name}>${escapeXml(value)}</${name}>`] : []
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
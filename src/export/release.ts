@@ -0,0 +1,259 @@
+/**
+ * Release Package — the metadata a distributor asks for, built from an
+ * album's tracks.
+ *
+ * Pure functions: the export tool fetches tracks and artwork, these build
+ * the track sheet (CSV/JSON), the embedded-tag spec (ID3v2.4 frames) and
+ * the validation report. ISRC and UPC are never invented — they are
+ * assigned by the distributor or label, so the sheet carries empty
+ * placeholder columns for them.
+ */
+
+export interface ReleaseInfo {
+  title: string
+  artist: string | null
+  label: string | null
+  /** YYYY-MM-DD */
+  release_date: string | null
+  /** Release-level genre, used for tracks without their own */
+  genre: string | null
+}
+
+export interface ReleaseTrack {
+  id: string
+  title: string
+  status?: string | null
+  audio_url?: string | null
+  duration_sec?: number | null
+  artist?: string | null
+  composer?: string | null
+  copyright?: string | null
+  genre?: string | null
+}
+
+export interface TrackSheetRow {
+  track_number: number
+  disc_number: number
+  track_id: string
+  title: string
+  artist: string | null
+  album: string
+  album_artist: string | null
+  composer: string | null
+  genre: string | null
+  copyright: string | null
+  duration_sec: number | null
+  /** Placeholder — assigned by the distributor */
+  isrc: string | null
+  /** Audio file in the package, or null when not downloaded */
+  audio_file: string | null
+}
+
+export const TRACK_SHEET_COLUMNS: readonly (keyof TrackSheetRow)[] = [
+  'track_number', 'disc_number', 'track_id', 'title', 'artist', 'album', 'album_artist',
+  'composer', 'genre', 'copyright', 'duration_sec', 'isrc', 'audio_file',
+]
+
+/** Track fields distributors reject a release without */
+export const REQUIRED_TRACK_FIELDS = ['title', 'artist', 'composer', 'copyright', 'genre', 'audio'] as const
+
+export const REQUIRED_RELEASE_FIELDS = ['title', 'artist', 'release_date', 'artwork'] as const
+
+/** Common distributor artwork rules: square JPEG/PNG, RGB, 3000px recommended, 1400px minimum */
+export const ARTWORK_MIN_PX = 1400
+export const ARTWORK_RECOMMENDED_PX = 3000
+
+export interface ArtworkInfo {
+  format: 'jpeg' | 'png'
+  width: number
+  height: number
+  color: 'rgb' | 'grayscale' | 'cmyk' | 'unknown'
+}
+
+export interface ArtworkCheck {
+  file: string | null
+  info: ArtworkInfo | null
+  errors: string[]
+  warnings: string[]
+}
+
+/** Album tracks that didn't make it into the package; any of them blocks delivery */
+export interface ExcludedTracks {
+  /** On the album but not found */
+  missing: string[]
+  /** On the album but in the trash */
+  trashed: string[]
+  /** In the track sheet, but the audio download failed */
+  failed_downloads: Array<{ track_id: string; error: string }>
+}
+
+export interface ValidationReport {
+  ready: boolean
+  release: { missing: string[] }
+  artwork: ArtworkCheck
+  tracks: Array<{ track_number: number; track_id: string; title: string; missing: string[] }>
+  excluded: ExcludedTracks
+  /** Values someone still has to fill in even when `ready` */
+  placeholders: string[]
+}
+
+export function buildTrackSheet(
+  release: ReleaseInfo,
+  tracks: ReleaseTrack[],
+  audioFiles: Map<string, string> = new Map(),
+): TrackSheetRow[] {
+  return tracks.map((track, i) => ({
+    track_number: i + 1,
+    disc_number: 1,
+    track_id: track.id,
+    title: track.title,
+    artist: track.artist || release.artist,
+    album: release.title,
+    album_artist: release.artist,
+    composer: track.composer || null,
+    genre: track.genre || release.genre,
+    copyright: track.copyright || null,
+    duration_sec: track.duration_sec != null ? Math.round(track.duration_sec) : null,
+    isrc: null,
+    audio_file: audioFiles.get(track.id) ?? null,
+  }))
+}
+
+/** RFC 4180 CSV with a header row */
+export function renderTrackSheetCsv(rows: TrackSheetRow[]): string {
+  const lines = [TRACK_SHEET_COLUMNS.join(',')]
+  for (const row of rows) lines.push(TRACK_SHEET_COLUMNS.map((c) => csvCell(row[c])).join(','))
+  return lines.join('\r\n') + '\r\n'
+}
+
+/** ID3v2.4 frames to embed per audio file (TRCK as "n/total", APIC → the package cover) */
+export function buildTagSpec(rows: TrackSheetRow[], release: ReleaseInfo, coverFile: string | null) {
+  return {
+    format: 'ID3v2.4',
+    tracks: rows.map((row) => ({
+      track_id: row.track_id,
+      file: row.audio_file,
+      frames: compact({
+        TIT2: row.title,
+        TPE1: row.artist,
+        TPE2: row.album_artist,
+        TALB: row.album,
+        TCOM: row.composer,
+        TCON: row.genre,
+        TCOP: row.copyright,
+        TPUB: release.label,
+        TDRL: release.release_date,
+        TRCK: `${row.track_number}/${rows.length}`,
+        TPOS: `${row.disc_number}/1`,
+        TSRC: row.isrc,
+        APIC: coverFile ? { file: coverFile, type: 'Cover (front)' } : null,
+      }),
+    })),
+  }
+}
+
+/** Dimensions and color mode from a PNG or JPEG header; null for anything else */
+export function readImageInfo(bytes: Uint8Array): ArtworkInfo | null {
+  const buf = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  if (buf.length >= 26 && buf.readUInt32BE(0) === 0x89504e47 && buf.readUInt32BE(4) === 0x0d0a1a0a) {
+    const colorType = buf[25]
+    return {
+      format: 'png',
+      width: buf.readUInt32BE(16),
+      height: buf.readUInt32BE(20),
+      color: colorType === 2 || colorType === 3 || colorType === 6 ? 'rgb' : colorType === 0 || colorType === 4 ? 'grayscale' : 'unknown',
+    }
+  }
+  if (buf.length < 4 || buf[0] !== 0xff || buf[1] !== 0xd8) return null
+  let i = 2
+  while (i + 4 <= buf.length) {
+    if (buf[i] !== 0xff) return null
+    const marker = buf[i + 1]
+    // Fill bytes and markers without a length segment
+    if (marker === 0xff) { i += 1; continue }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd9)) { i += 2; continue }
+    const length = buf.readUInt16BE(i + 2)
+    // SOF0–SOF15 carry the frame size; C4/C8/CC are DHT/JPG/DAC
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      if (i + 10 > buf.length) return null
+      const components = buf[i + 9]
+      return {
+        format: 'jpeg',
+        height: buf.readUInt16BE(i + 5),
+        width: buf.readUInt16BE(i + 7),
+        color: components === 3 ? 'rgb' : components === 1 ? 'grayscale' : components === 4 ? 'cmyk' : 'unknown',
+      }
+    }
+    i += 2 + length
+  }
+  return null
+}
+
+/** Check downloaded artwork against the distributor rules */
+export function checkArtwork(file: string | null, info: ArtworkInfo | null, problem?: string): ArtworkCheck {
+  const check: ArtworkCheck = { file, info, errors: [], warnings: [] }
+  if (problem) {
+    check.errors.push(problem)
+    return check
+  }
+  if (!info) {
+    check.errors.push('Artwork is not a readable JPEG or PNG')
+    return check
+  }
+  if (info.width !== info.height) check.errors.push(`Artwork must be square (is ${info.width}x${info.height})`)
+  const side = Math.min(info.width, info.height)
+  if (side < ARTWORK_MIN_PX) {
+    check.errors.push(`Artwork is ${side}px; at least ${ARTWORK_MIN_PX}px required`)
+  } else if (side < ARTWORK_RECOMMENDED_PX) {
+    check.warnings.push(`Artwork is ${side}px; ${ARTWORK_RECOMMENDED_PX}x${ARTWORK_RECOMMENDED_PX} is recommended`)
+  }
+  if (info.color !== 'rgb') check.errors.push(`Artwork must be RGB (is ${info.color})`)
+  return check
+}
+
+/**
+ * Missing required fields per track and for the release; `ready` when
+ * nothing blocks delivery. A release without tracks is missing `tracks`,
+ * and missing, trashed or undownloaded album tracks block it too.
+ */
+export function validateRelease(
+  release: ReleaseInfo,
+  rows: TrackSheetRow[],
+  tracks: ReleaseTrack[],
+  artwork: ArtworkCheck,
+  excluded: ExcludedTracks = { missing: [], trashed: [], failed_downloads: [] },
+): ValidationReport {
+  const releaseMissing: string[] = REQUIRED_RELEASE_FIELDS.filter((field) =>
+    field === 'artwork' ? !artwork.file : !release[field])
+  if (rows.length === 0) releaseMissing.push('tracks')
+  const trackReports = rows.map((row, i) => {
+    const track = tracks[i]
+    const missing = REQUIRED_TRACK_FIELDS.filter((field) =>
+      field === 'audio' ? !(track.status === 'COMPLETE' && track.audio_url) : !row[field])
+    return { track_number: row.track_number, track_id: row.track_id, title: row.title, missing: [...missing] }
+  })
+  const excludedCount = excluded.missing.length + excluded.trashed.length + excluded.failed_downloads.length
+  return {
+    ready: releaseMissing.length === 0 && artwork.errors.length === 0 && excludedCount === 0 &&
+      trackReports.every((t) => t.missing.length === 0),
+    release: { missing: releaseMissing },
+    artwork,
+    tracks: trackReports,
+    excluded,
+    placeholders: ['upc', ...(rows.length ? ['isrc (every track)'] : [])],
+  }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────
+
+function csvCell(value: unknown): string {
+  if (value == null) return ''
+  let text = String(value)
+  // Spreadsheet apps evaluate cells starting with these as formulas
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function compact(frames: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(frames).filter(([, v]) => v != null && v !== ''))
+}
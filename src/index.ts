@@ -3,6 +3,7 @@
  *
  * Registers:
  * - Agent tools (typed, schema-validated) per enabled module
+ * - Background services (generation poller)
  * - Auto-reply commands (/cynaps3-status)
  *
  * Architecture:
@@ -15,6 +16,30 @@ import type { OpenClawPluginApi, CynapsConfig } from './core/types.js'
 import { parseConfig } from './core/config.js'
 import { registerAllTools } from './tools/_registry.js'
 import { createStatusCommand } from './commands/status.js'
+import { GenerationPoller } from './services/generation-poller.js'
+
+const TOOL_PATTERNS = { type: 'array', items: { type: 'string', pattern: '^[a-z0-9_*?]+$' } }
+
+const TOOL_POLICY_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  description: 'Per-tool filters on top of enabledModules. Globs over tool names (* and ?); deny wins over allow.',
+  properties: {
+    allow: { ...TOOL_PATTERNS, description: 'Only register matching tools (empty: all tools of the enabled modules)' },
+    deny: { ...TOOL_PATTERNS, description: 'Never register matching tools' },
+  },
+}
+
+const SPENDING_CAPS_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  description: 'Per-request generation limits, checked before anything is created',
+  properties: {
+    maxCreditsPerRequest: { type: 'integer', minimum: 1 },
+    maxTracksPerRequest: { type: 'integer', minimum: 1 },
+    refuseUnknownCost: { type: 'boolean', default: false },
+  },
+}
 
 export default {
   id: 'cynaps3',
@@ -32,6 +57,25 @@ export default {
       contentDomain: { type: 'string', description: 'Base URL for content links (default: https://content.7cycle.life)' },
       enabledModules: { type: 'array', items: { type: 'string' }, default: ['musicmation'] },
       agentId: { type: 'string', description: 'Optional static override for agent identity. Auto-detected from OpenClaw runtime context; only set this if auto-detection fails.' },
+      tools: TOOL_POLICY_SCHEMA,
+      defaultProjectId: { type: 'string', description: 'Project for new tracks when the agent passes no project_id' },
+      defaultProvider: { type: 'string', description: 'Generation provider when the agent passes none (default: suno)' },
+      spendingCaps: SPENDING_CAPS_SCHEMA,
+      agents: {
+        type: 'object',
+        description: 'Per-agent overrides keyed by runtime agent ID (e.g. "flow", "pete"). tools.allow replaces the global list; tools.deny adds to it.',
+        additionalProperties: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            enabledModules: { type: 'array', items: { type: 'string' } },
+            defaultProjectId: { type: 'string' },
+            defaultProvider: { type: 'string' },
+            spendingCaps: SPENDING_CAPS_SCHEMA,
+            tools: TOOL_POLICY_SCHEMA,
+          },
+        },
+      },
     },
   },
 
@@ -49,9 +93,24 @@ export default {
 
     const moduleList = config.enabledModules.join(', ')
     console.log(`[cynaps3] Initializing — modules: [${moduleList}]`)
+    if (config.agents) {
+      console.log(`[cynaps3] Agent profiles: [${Object.keys(config.agents).join(', ')}]`)
+    }
+
+    // --- Background Services ---
+    // Hosts without service support still get the tools; tracking is then a no-op.
+    // The poller only polls while a listener or a waiting tool needs it.
+    let poller: GenerationPoller | undefined
+    if (api.registerService) {
+      poller = new GenerationPoller(config)
+      api.registerService(poller.toService())
+      // No completion notifier: the plugin API can't post outside a tool call
+      // (see services/completion-notifier.ts), so agents wait with
+      // musicmation_wait_for_completion.
+    }
 
     // --- Agent Tools ---
-    registerAllTools(api, config)
+    registerAllTools(api, config, poller)
 
     // --- Auto-Reply Commands ---
     api.registerCommand(createStatusCommand(config))
@@ -67,4 +126,16 @@ export type { CynapsConfig } from './core/types.js'
 // who need programmatic access. The server enforces all security — this export
 // cannot bypass auth, ownership scoping, or tier limits.
 export { CynapsApiClient } from './core/api-client.js'
+export type { CynapsApiClientOptions } from './core/api-client.js'
+export { MemoryCache } from './core/cache.js'
+export type { ResponseCache, CacheStats } from './core/cache.js'
+export { CircuitBreakerRegistry } from './core/circuit-breaker.js'
+export { filter, FilterBuilder } from './core/filter.js'
+export type { FilterValue } from './core/filter.js'
+export type { CircuitSnapshot, CircuitState } from './core/circuit-breaker.js'
 export { CynapsApiError } from './core/errors.js'
+export { GenerationPoller } from './services/generation-poller.js'
+export { createCompletionNotifier, formatCompletion } from './services/completion-notifier.js'
+export type { CompletionMessage, DeliverMessage } from './services/completion-notifier.js'
+export { providers, ProviderRegistry, sunoProvider, sonautoProvider } from './providers/index.js'
+export type { GenerationProvider, ProviderCapability, ProviderPreflightSummary } from './providers/index.js'
@@ -0,0 +1,16 @@
+/**
+ * Process-wide provider registry, pre-loaded with Suno (default) and Sonauto.
+ * Register more with `providers.register(...)` before the plugin registers its tools.
+ */
+
+import { ProviderRegistry } from './registry.js'
+import { sunoProvider } from './suno.js'
+import { sonautoProvider } from './sonauto.js'
+
+export const providers = new ProviderRegistry('suno')
+providers.register(sunoProvider)
+providers.register(sonautoProvider)
+
+export { ProviderRegistry, describeOutput } from './registry.js'
+export type { GenerationProvider, ProviderCapability, ProviderPreflightSummary } from './registry.js'
+export { sunoProvider, sonautoProvider }
@@ -0,0 +1,132 @@
+/**
+ * Generation Providers — what the generation tools need to know about a
+ * music backend, declared in one place instead of `isSonauto ? … : …`.
+ *
+ * A provider declares its enqueue endpoint, its own tool parameters, how
+ * many songs one generation yields, what it costs, what it can do beyond
+ * plain generation, and where its key/credits/usage live in the preflight
+ * checks. The generation tools, create_item, the Suno transformation
+ * guard and the preflight summary all read from the shared registry, so
+ * adding a provider is a register() call — no tool file edits.
+ */
+
+import type { PreflightResult } from '../core/types.js'
+import { CynapsApiError } from '../core/errors.js'
+
+/** Features beyond plain generation */
+export type ProviderCapability = 'lyrics' | 'extend' | 'cover' | 'add_vocals' | 'personas' | 'lyrics_alignment'
+
+export interface GenerationProvider {
+  /** Stored as generation_source on sunoma_items */
+  id: string
+  label: string
+  /** One line for tool descriptions, e.g. "2 variations, more features" */
+  summary: string
+  /** Edge function that enqueues generation for existing track rows */
+  endpoint: string
+  /** Songs produced per generation request */
+  variations: number
+  /** Provider-specific tool parameters (JSON Schema properties), merged into the generate tools */
+  parameters: Record<string, Record<string, unknown>>
+  capabilities: readonly ProviderCapability[]
+  /** Credits one generation request costs with these params (null if the server decides) */
+  creditsPerGeneration(params: Record<string, unknown>): number | null
+  /** Enqueue request body for the endpoint */
+  buildEnqueueBody(trackIds: string[], params: Record<string, unknown>): Record<string, unknown>
+  /** Keys in PreflightResult.checks for this provider */
+  preflight: { apiKey: string; credits: string; dailyUsed: string }
+}
+
+export interface ProviderPreflightSummary {
+  id: string
+  label: string
+  configured: boolean
+  credits_available: number | null
+  daily_used: number
+  variations_per_generation: number
+  capabilities: readonly ProviderCapability[]
+}
+
+export class ProviderRegistry {
+  private readonly providers = new Map<string, GenerationProvider>()
+
+  constructor(private defaultId?: string) {}
+
+  /** Add a provider. Parameter names must not collide with another provider's. */
+  register(provider: GenerationProvider): void {
+    if (this.providers.has(provider.id)) {
+      throw new Error(`Generation provider already registered: ${provider.id}`)
+    }
+    for (const other of this.providers.values()) {
+      const clash = Object.keys(provider.parameters).find((name) => name in other.parameters)
+      if (clash) throw new Error(`Provider ${provider.id} parameter "${clash}" collides with ${other.id}`)
+    }
+    this.providers.set(provider.id, provider)
+    this.defaultId ??= provider.id
+  }
+
+  unregister(id: string): void {
+    this.providers.delete(id)
+    if (this.defaultId === id) this.defaultId = this.providers.keys().next().value
+  }
+
+  get(id: string): GenerationProvider | undefined {
+    return this.providers.get(id)
+  }
+
+  /** Resolve a provider id (default when omitted); unknown ids are a client error */
+  resolve(id?: string): GenerationProvider {
+    const provider = this.providers.get(id || this.defaultId || '')
+    if (!provider) {
+      throw new CynapsApiError(
+        `Unknown provider "${id}". Available: ${this.ids().join(', ')}`, 400, 'UNKNOWN_PROVIDER')
+    }
+    return provider
+  }
+
+  list(): GenerationProvider[] {
+    return [...this.providers.values()]
+  }
+
+  ids(): string[] {
+    return [...this.providers.keys()]
+  }
+
+  get defaultProvider(): string {
+    return this.defaultId ?? ''
+  }
+
+  /** JSON Schema for the `provider` tool parameter; `defaultId` overrides the advertised default */
+  providerParameter(defaultId?: string): Record<string, unknown> {
+    return {
+      type: 'string',
+      enum: this.ids(),
+      default: defaultId && this.providers.has(defaultId) ? defaultId : this.defaultProvider,
+      description: 'Music generation provider. ' + this.list().map((p) => `${p.label} = ${p.summary}`).join('. ') + '.',
+    }
+  }
+
+  /** Every provider's own parameters, for merging into a tool schema */
+  providerParameters(): Record<string, Record<string, unknown>> {
+    return Object.assign({}, ...this.list().map((p) => p.parameters))
+  }
+
+  /** Per-provider readiness derived from the preflight checks */
+  summarize(checks: PreflightResult['checks']): ProviderPreflightSummary[] {
+    const values = checks as unknown as Record<string, unknown>
+    return this.list().map((p) => ({
+      id: p.id,
+      label: p.label,
+      configured: values[p.preflight.apiKey] === true,
+      credits_available: (values[p.preflight.credits] as number | null | undefined) ?? null,
+      daily_used: (values[p.preflight.dailyUsed] as number | undefined) ?? 0,
+      variations_per_generation: p.variations,
+      capabilities: p.capabilities,
+    }))
+  }
+}
+
+/** "2 variations" / "1 song" */
+export function describeOutput(provider: GenerationProvider): string {
+  return provider.variations === 1 ? '1 song' : `${provider.variations} variations`
+}
@@ -0,0 +1,54 @@
+/**
+ * Sonauto — one song per generation at a fixed 100 credits. No lyrics API,
+ * extend, cover or vocals; optional timestamped lyrics alignment.
+ */
+
+import type { GenerationProvider } from './registry.js'
+
+const CREDITS_PER_SONG = 100
+
+export const sonautoProvider: GenerationProvider = {
+  id: 'sonauto',
+  label: 'Sonauto',
+  summary: `1 song, ${CREDITS_PER_SONG} credits/song`,
+  endpoint: 'sonauto-generation-enqueue',
+  variations: 1,
+  parameters: {
+    prompt_strength: {
+      type: 'number',
+      minimum: 0,
+      maximum: 5,
+      default: 2.0,
+      description: 'Sonauto only. How strongly tags/prompt influence output (0 = ignore, 5 = strict). Default 2.0.',
+    },
+    output_format: {
+      type: 'string',
+      enum: ['mp3', 'flac', 'wav', 'ogg', 'm4a'],
+      default: 'ogg',
+      description: 'Sonauto only. Audio output format. Default ogg.',
+    },
+    align_lyrics: {
+      type: 'boolean',
+      default: false,
+      description: 'Sonauto only. Request timestamped lyrics alignment.',
+    },
+  },
+  capabilities: ['lyrics_alignment'],
+
+  creditsPerGeneration() {
+    return CREDITS_PER_SONG
+  },
+
+  buildEnqueueBody(trackIds, params) {
+    return {
+      trackIds,
+      projectId: (params.project_id as string) || null,
+      generationsRequested: 1,
+      prompt_strength: params.prompt_strength ?? 2.0,
+      output_format: (params.output_format as string) || 'ogg',
+      align_lyrics: params.align_lyrics ?? false,
+    }
+  },
+
+  preflight: { apiKey: 'sonauto_api_key', credits: 'sonauto_credits_available', dailyUsed: 'daily_used_sonauto' },
+}
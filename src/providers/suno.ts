@@ -0,0 +1,57 @@
+/**
+ * Suno — default provider. Two variations per generation, plus lyrics,
+ * extend, cover, vocals and personas via suno-proxy.
+ */
+
+import type { GenerationProvider } from './registry.js'
+
+/** Suno credits per generation request (both variations) by model */
+const CREDITS_BY_MODEL: Record<string, number> = { V4: 10, V5: 12 }
+
+export const sunoProvider: GenerationProvider = {
+  id: 'suno',
+  label: 'Suno',
+  summary: '2 variations, more features',
+  endpoint: 'suno-generation-enqueue',
+  variations: 2,
+  parameters: {
+    model: {
+      type: 'string',
+      enum: ['V4', 'V5'],
+      default: 'V5',
+      description: 'Suno only. Model version. V5 = higher quality (default). V4 = faster.',
+    },
+    weirdness: {
+      type: 'number',
+      minimum: 0,
+      maximum: 1,
+      default: 0.5,
+      description: 'Suno only. Creativity/randomness (0 = conservative, 1 = experimental). Default 0.5.',
+    },
+    style_weight: {
+      type: 'number',
+      minimum: 0,
+      maximum: 1,
+      default: 0.83,
+      description: 'Suno only. How closely to follow the style prompt (0 = loose, 1 = strict). Default 0.83.',
+    },
+  },
+  capabilities: ['lyrics', 'extend', 'cover', 'add_vocals', 'personas'],
+
+  creditsPerGeneration(params) {
+    return CREDITS_BY_MODEL[(params.model as string) || 'V5'] ?? null
+  },
+
+  buildEnqueueBody(trackIds, params) {
+    return {
+      trackIds,
+      projectId: (params.project_id as string) || null,
+      generationsRequested: 1,
+      model: (params.model as string) || 'V5',
+      weirdness: params.weirdness ?? 0.5,
+      styleWeight: params.style_weight ?? 0.83,
+    }
+  },
+
+  preflight: { apiKey: 'suno_api_key', credits: 'credits_available', dailyUsed: 'daily_used_suno' },
+}
@@ -0,0 +1,93 @@
+/**
+ * Completion Notifier — Posts a message back to the channel that
+ * enqueued a track once the generation poller sees it settle.
+ *
+ * Only COMPLETE and FAILED are announced. Tracks the poller gave up on
+ * (EXPIRED, NOT_FOUND) stay silent — the agent can still poll them.
+ *
+ * UNSUPPORTED on OpenClaw hosts: the plugin API has no way to post a
+ * message outside a tool call, so register() never attaches this and the
+ * plugin sends no notifications. Agents use musicmation_wait_for_completion.
+ * The notifier is exported for embedders that run GenerationPoller with a
+ * delivery channel of their own.
+ */
+
+import type { CynapsConfig, Track } from '../core/types.js'
+import { CynapsApiClient } from '../core/api-client.js'
+import { filter } from '../core/filter.js'
+import { queryOptional } from '../core/optional-columns.js'
+import type { SettledListener, SettledTrack } from './generation-poller.js'
+
+/** A message for the conversation that enqueued a track */
+export interface CompletionMessage {
+  /** Channel from OpenClawPluginToolContext.messageChannel */
+  channel: string
+  /** Session to thread the message into, when known */
+  sessionKey?: string
+  text: string
+}
+
+/** Delivery supplied by the embedder — the OpenClaw plugin API has none */
+export type DeliverMessage = (msg: CompletionMessage) => Promise<void>
+
+/** Build a poller listener that hands completion messages to `deliver` */
+export function createCompletionNotifier(deliver: DeliverMessage, config: CynapsConfig): SettledListener {
+  const client = new CynapsApiClient(config)
+
+  return async (settled: SettledTrack) => {
+    const channel = settled.pending.origin?.messageChannel
+    if (!channel) return
+    if (settled.status !== 'COMPLETE' && settled.status !== 'FAILED') return
+
+    let variations: Track[] = []
+    if (settled.status === 'COMPLETE') {
+      variations = await queryOptional<Track[]>(client, 'sunoma_items', filter()
+        .eq('parent_id', settled.trackId)
+        .eq('item_type', 'variation')
+        .isNull('superseded_at')
+        .isNull('deleted_at')
+        .select('id', 'title', 'status', 'audio_url', 'image_url', 'duration_sec', 'variation_index')
+        .order('variation_index')
+        .build()) || []
+    }
+
+    await deliver({
+      channel,
+      sessionKey: settled.pending.origin?.sessionKey,
+      text: formatCompletion(settled, variations, config.contentDomain),
+    })
+  }
+}
+
+/** Format a settled track as a chat message (markdown, like /cynaps3-status) */
+export function formatCompletion(settled: SettledTrack, variations: Track[], contentDomain: string): string {
+  const title = settled.track?.title || settled.trackId
+
+  if (settled.status === 'FAILED') {
+    return [
+      `**Generation failed:** "${title}"`,
+      '',
+      `Track ID: ${settled.trackId}`,
+      'Ask me to try again, or adjust the style or lyrics first.',
+    ].join('\n')
+  }
+
+  const lines: string[] = [
+    `**Track ready:** "${title}"`,
+    '',
+    `Listen: ${contentDomain}/details/${settled.trackId}`,
+  ]
+  variations.forEach((v, i) => {
+    lines.push(`Variation ${i + 1}: ${contentDomain}/details/${v.id}`)
+  })
+
+  const duration = settled.track?.duration_sec
+  if (duration) {
+    // Round first so 119.6s reads 2:00, not 1:60
+    const seconds = Math.round(duration)
+    lines.push('')
+    lines.push(`Duration: ${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`)
+  }
+
+  return lines.join('\n')
+}
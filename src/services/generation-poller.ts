@@ -0,0 +1,297 @@
+/**
+ * Generation Poller — Background service that watches enqueued tracks.
+ *
+ * Generation tools hand every enqueued track ID to the poller. On each tick
+ * the poller reads `sunoma_items` for the pending set in server-sized batches
+ * and evicts tracks that reached a terminal status (set-based eviction).
+ *
+ * It only polls for someone: tracks are kept while a settle listener is
+ * registered or a tool is waiting on them (waitFor), and the timer runs only
+ * while tracks are pending. Concurrent musicmation_wait_for_completion calls
+ * share its one loop, and the status tools answer from its last pass for
+ * tracks it read within the current interval.
+ *
+ * Read-only by design: the poller never writes. Generation state is owned
+ * by the edge functions; this service only observes it.
+ */
+
+import type { CynapsConfig, ServiceDefinition, Track } from '../core/types.js'
+import { CynapsApiClient } from '../core/api-client.js'
+import { wrapError } from '../core/errors.js'
+import { filter } from '../core/filter.js'
+import { queryOptional } from '../core/optional-columns.js'
+
+const DEFAULT_INTERVAL_MS = 15_000
+const DEFAULT_BATCH_SIZE = 20
+/** Tracks that never settle (lost webhook, deleted row) stop being polled after this. */
+const DEFAULT_MAX_AGE_MS = 30 * 60_000
+
+/** Server statuses after which a track will not change again */
+export const TERMINAL_STATUSES = new Set(['COMPLETE', 'FAILED'])
+
+/** Where a generation was requested from, so completions can be routed back */
+export interface TrackOrigin {
+  messageChannel?: string
+  sessionKey?: string
+}
+
+export interface PendingTrack {
+  trackId: string
+  enqueuedAt: number
+  lastStatus: string | null
+  /** Row from the last pass that read this track, and when */
+  lastTrack?: Track | null
+  checkedAt?: number
+  /** Tracked for the settle listeners (not only for a waiter) */
+  watched: boolean
+  origin?: TrackOrigin
+}
+
+export interface SettledTrack {
+  trackId: string
+  /** Final server status (COMPLETE, FAILED), or EXPIRED / NOT_FOUND when the poller gave up */
+  status: string
+  track: Track | null
+  pending: PendingTrack
+}
+
+export type SettledListener = (settled: SettledTrack) => void | Promise<void>
+
+interface Waiter {
+  ids: Set<string>
+  done: () => void
+}
+
+export interface GenerationPollerOptions {
+  intervalMs?: number
+  batchSize?: number
+  maxAgeMs?: number
+}
+
+export class GenerationPoller {
+  readonly id = 'cynaps3-generation-poller'
+
+  private readonly client: CynapsApiClient
+  private readonly intervalMs: number
+  private readonly batchSize: number
+  private readonly maxAgeMs: number
+  private readonly pending = new Map<string, PendingTrack>()
+  private readonly listeners: SettledListener[] = []
+  private readonly waiters = new Set<Waiter>()
+  private timer: ReturnType<typeof setInterval> | null = null
+  private started = false
+  private inFlight = false
+
+  constructor(config: CynapsConfig, options?: GenerationPollerOptions) {
+    this.client = new CynapsApiClient(config)
+    this.intervalMs = options?.intervalMs ?? DEFAULT_INTERVAL_MS
+    this.batchSize = options?.batchSize ?? DEFAULT_BATCH_SIZE
+    this.maxAgeMs = options?.maxAgeMs ?? DEFAULT_MAX_AGE_MS
+  }
+
+  /** True between the host's start() and stop() */
+  get running(): boolean {
+    return this.started
+  }
+
+  /** IDs currently being watched, in enqueue order */
+  get pendingIds(): string[] {
+    return [...this.pending.keys()]
+  }
+
+  /**
+   * Start watching track IDs for the settle listeners. Re-tracking an ID
+   * that is already pending is a no-op, so tools can call this without
+   * checking first. Without listeners nothing would read the result, so
+   * the IDs are not tracked at all.
+   *
+   * @param origin - Channel/session that enqueued the tracks (from the tool context)
+   */
+  track(trackIds: string[], origin?: TrackOrigin): void {
+    if (!this.listeners.length) return
+    for (const entry of this.add(trackIds)) {
+      entry.watched = true
+      entry.origin ??= origin
+    }
+  }
+
+  /** Stop watching track IDs without emitting a settle event */
+  untrack(trackIds: string[]): void {
+    for (const trackId of trackIds) this.pending.delete(trackId)
+    this.idle()
+  }
+
+  /**
+   * Resolve once every ID has settled, `timeoutMs` passes or `signal`
+   * aborts, polling them in the shared loop meanwhile. Resolves at once
+   * when the service isn't running, since nothing would poll.
+   */
+  async waitFor(trackIds: string[], timeoutMs: number, signal?: AbortSignal): Promise<void> {
+    const ids = new Set(trackIds)
+    if (!this.started || !ids.size || timeoutMs <= 0 || signal?.aborted) return
+    this.add([...ids])
+    await new Promise<void>((resolve) => {
+      const waiter: Waiter = {
+        ids,
+        done: () => {
+          clearTimeout(timer)
+          signal?.removeEventListener('abort', waiter.done)
+          if (!this.waiters.delete(waiter)) return
+          this.release(ids)
+          resolve()
+        },
+      }
+      const timer = setTimeout(waiter.done, timeoutMs)
+      signal?.addEventListener('abort', waiter.done, { once: true })
+      this.waiters.add(waiter)
+    })
+  }
+
+  /**
+   * The row the last pass read for a still-pending track, if that pass was
+   * within the current interval. Settled tracks are evicted, so this is
+   * never COMPLETE or FAILED.
+   */
+  current(trackId: string): Track | undefined {
+    const entry = this.pending.get(trackId)
+    if (!entry?.lastTrack || entry.checkedAt === undefined) return undefined
+    return Date.now() - entry.checkedAt <= this.intervalMs ? entry.lastTrack : undefined
+  }
+
+  /** Register a callback fired once per track when it leaves the pending set */
+  onSettled(listener: SettledListener): void {
+    this.listeners.push(listener)
+  }
+
+  start(): void {
+    this.started = true
+    this.schedule()
+  }
+
+  stop(): void {
+    this.started = false
+    if (!this.timer) return
+    clearInterval(this.timer)
+    this.timer = null
+  }
+
+  /** ServiceDefinition for api.registerService() */
+  toService(): ServiceDefinition {
+    return {
+      id: this.id,
+      start: () => this.start(),
+      stop: () => this.stop(),
+    }
+  }
+
+  /**
+   * Poll every pending track once and evict the ones that settled.
+   * Returns the tracks evicted during this pass.
+   */
+  async pollOnce(): Promise<SettledTrack[]> {
+    const settled: SettledTrack[] = []
+    const ids = this.pendingIds
+
+    for (let i = 0; i < ids.length; i += this.batchSize) {
+      const batch = ids.slice(i, i + this.batchSize)
+      const tracks = await queryOptional<Track[]>(this.client, 'sunoma_items', filter()
+        .in('id', batch)
+        .isNull('deleted_at')
+        .select('id', 'title', 'status', 'audio_url', 'image_url', 'duration_sec', 'generation_source')
+        .build())
+      const trackMap = new Map((tracks || []).map(t => [t.id, t]))
+
+      for (const trackId of batch) {
+        const entry = this.pending.get(trackId)
+        if (!entry) continue
+
+        const track = trackMap.get(trackId) ?? null
+        const status = track?.status ?? null
+        entry.lastStatus = status
+        entry.lastTrack = track
+        entry.checkedAt = Date.now()
+
+        if (status && TERMINAL_STATUSES.has(status)) {
+          settled.push({ trackId, status, track, pending: entry })
+        } else if (Date.now() - entry.enqueuedAt > this.maxAgeMs) {
+          settled.push({ trackId, status: track ? 'EXPIRED' : 'NOT_FOUND', track, pending: entry })
+        }
+      }
+    }
+
+    for (const s of settled) this.pending.delete(s.trackId)
+    for (const s of settled) await this.emit(s)
+    this.idle()
+
+    return settled
+  }
+
+  // ─── Private ────────────────────────────────────────────────────
+
+  /** Pending entries for `trackIds`, created as needed */
+  private add(trackIds: string[]): PendingTrack[] {
+    const now = Date.now()
+    const entries = trackIds.map((trackId) => {
+      let entry = this.pending.get(trackId)
+      if (!entry) {
+        entry = { trackId, enqueuedAt: now, lastStatus: null, watched: false }
+        this.pending.set(trackId, entry)
+      }
+      return entry
+    })
+    this.schedule()
+    return entries
+  }
+
+  /** Drop a finished waiter's tracks that nobody else polls for */
+  private release(ids: Set<string>): void {
+    for (const trackId of ids) {
+      if (this.pending.get(trackId)?.watched) continue
+      if ([...this.waiters].some((w) => w.ids.has(trackId))) continue
+      this.pending.delete(trackId)
+    }
+    this.idle()
+  }
+
+  /** Arm the timer once the host started the service and something is pending */
+  private schedule(): void {
+    if (this.timer || !this.started || this.pending.size === 0) return
+    this.timer = setInterval(() => { void this.tick() }, this.intervalMs)
+    // Never keep the host process alive just for polling
+    this.timer.unref?.()
+  }
+
+  /** Disarm the timer when nothing is left to poll */
+  private idle(): void {
+    if (!this.timer || this.pending.size > 0) return
+    clearInterval(this.timer)
+    this.timer = null
+  }
+
+  private async tick(): Promise<void> {
+    // Skip idle ticks and never overlap a slow pass with the next one
+    if (this.inFlight || this.pending.size === 0) return
+    this.inFlight = true
+    try {
+      await this.pollOnce()
+    } catch (err) {
+      console.warn(`[cynaps3] Generation poller error: ${wrapError(err).message}`)
+    } finally {
+      this.inFlight = false
+    }
+  }
+
+  private async emit(settled: SettledTrack): Promise<void> {
+    for (const waiter of [...this.waiters]) {
+      waiter.ids.delete(settled.trackId)
+      if (!waiter.ids.size) waiter.done()
+    }
+    for (const listener of this.listeners) {
+      try {
+        await listener(settled)
+      } catch (err) {
+        console.warn(`[cynaps3] Poller listener failed for ${settled.trackId}: ${wrapError(err).message}`)
+      }
+    }
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Skill Validation — check a SKILL.md draft against the conventions the
+ * bundled playbooks (skills/<name>/SKILL.md) follow.
+ *
+ * Errors break the skill for agents or renderers (no title, broken tables,
+ * an unclosed code fence) and block publishing. Warnings are style: the
+ * bundled skills open with a one-line blockquote, list their tools in a
+ * `| Tool | Purpose |` table and keep heading levels in order, but a skill
+ * that doesn't is still usable.
+ */
+
+export const MAX_SKILL_CHARS = 100_000
+export const MAX_DESCRIPTION_CHARS = 300
+export const SKILL_NAME_RE = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+const MAX_NAME_LENGTH = 64
+
+/** Tool name prefixes this plugin registers */
+const TOOL_NAMESPACES = new Set(['cynaps3', 'musicmation', 'storymation', 'skillmation', 'contentmation'])
+
+export interface SkillIssue {
+  code: string
+  message: string
+  /** 1-based line in the content, when the issue has one */
+  line?: number
+}
+
+export interface SkillValidation {
+  valid: boolean
+  errors: SkillIssue[]
+  warnings: SkillIssue[]
+  /** Text of the H1, if there is one */
+  title: string | null
+  sections: string[]
+  /** Tool names listed in tool tables */
+  tools: string[]
+}
+
+export interface SkillDraftInput {
+  content: string
+  /** Checked when given */
+  name?: string
+  description?: string
+}
+
+export function validateSkill(input: SkillDraftInput): SkillValidation {
+  const errors: SkillIssue[] = []
+  const warnings: SkillIssue[] = []
+  const sections: string[] = []
+  const tools: string[] = []
+  let title: string | null = null
+
+  if (input.name !== undefined && (!SKILL_NAME_RE.test(input.name) || input.name.length > MAX_NAME_LENGTH)) {
+    errors.push({ code: 'INVALID_NAME', message: `Name must be lowercase kebab-case, at most ${MAX_NAME_LENGTH} characters (e.g. "release-planning")` })
+  }
+  if (input.description !== undefined) {
+    if (!input.description.trim()) {
+      errors.push({ code: 'MISSING_DESCRIPTION', message: 'Description is empty' })
+    } else if (input.description.length > MAX_DESCRIPTION_CHARS) {
+      errors.push({ code: 'DESCRIPTION_TOO_LONG', message: `Description is over ${MAX_DESCRIPTION_CHARS} characters` })
+    }
+  }
+
+  const content = input.content ?? ''
+  if (!content.trim()) {
+    errors.push({ code: 'EMPTY', message: 'SKILL.md content is empty' })
+    return { valid: false, errors, warnings, title, sections, tools }
+  }
+  if (content.length > MAX_SKILL_CHARS) {
+    errors.push({ code: 'TOO_LONG', message: `SKILL.md is ${content.length} characters; the limit is ${MAX_SKILL_CHARS}` })
+  }
+
+  const lines = content.split(/\r?\n/)
+  let fenceLine: number | null = null
+  let previousLevel = 0
+  let table: { line: number; columns: number; isToolTable: boolean } | null = null
+  let hasToolTable = false
+  const firstContent = lines.findIndex((l) => l.trim() !== '')
+
+  lines.forEach((raw, index) => {
+    const lineNo = index + 1
+    const line = raw.trimEnd()
+
+    if (/^\s*(```|~~~)/.test(line)) {
+      fenceLine = fenceLine === null ? lineNo : null
+      return
+    }
+    if (fenceLine !== null) return
+
+    const heading = /^(#{1,6})\s+(.+?)\s*#*$/.exec(line)
+    if (heading) {
+      const level = heading[1].length
+      const text = heading[2].trim()
+      if (level === 1) {
+        if (title !== null) {
+          errors.push({ code: 'MULTIPLE_TITLES', message: 'Only one "# " title is allowed', line: lineNo })
+        } else {
+          title = text
+          if (index !== firstContent) errors.push({ code: 'TITLE_NOT_FIRST', message: 'The "# " title must be the first line', line: lineNo })
+        }
+      } else {
+        if (level === 2) {
+          if (sections.includes(text)) warnings.push({ code: 'DUPLICATE_SECTION', message: `Section "${text}" appears twice`, line: lineNo })
+          sections.push(text)
+        }
+        if (previousLevel > 0 && level > previousLevel + 1) {
+          warnings.push({ code: 'HEADING_SKIP', message: `Heading jumps from level ${previousLevel} to ${level}`, line: lineNo })
+        }
+      }
+      previousLevel = level
+    }
+
+    if (/^\s*\|/.test(line)) {
+      const cells = splitRow(line)
+      if (!table) {
+        table = { line: lineNo, columns: cells.length, isToolTable: /^tool$/i.test(cells[0] ?? '') }
+        hasToolTable ||= table.isToolTable
+      } else if (cells.length !== table.columns) {
+        errors.push({
+          code: 'TABLE_COLUMNS',
+          message: `Table row has ${cells.length} cells; the header (line ${table.line}) has ${table.columns}`,
+          line: lineNo,
+        })
+      } else if (table.isToolTable && !/^:?-+:?$/.test(cells[0])) {
+        const name = /^`([a-z0-9_]+)`$/.exec(cells[0])?.[1]
+        if (name) {
+          tools.push(name)
+          if (!TOOL_NAMESPACES.has(name.split('_')[0])) {
+            warnings.push({ code: 'UNKNOWN_TOOL', message: `"${name}" is not a tool name this plugin provides`, line: lineNo })
+          }
+        }
+      }
+    } else {
+      table = null
+    }
+  })
+
+  if (fenceLine !== null) errors.push({ code: 'UNCLOSED_FENCE', message: 'Code fence is never closed', line: fenceLine })
+  if (title === null) errors.push({ code: 'MISSING_TITLE', message: 'SKILL.md must start with a "# " title' })
+  if (sections.length === 0) errors.push({ code: 'NO_SECTIONS', message: 'Add at least one "## " section' })
+
+  const afterTitle = lines.slice(firstContent + 1).find((l) => l.trim() !== '')
+  if (title !== null && !afterTitle?.trimStart().startsWith('>')) {
+    warnings.push({ code: 'NO_SUMMARY', message: 'Follow the title with a one-line "> " summary of when the skill applies' })
+  }
+  if (!hasToolTable) {
+    warnings.push({ code: 'NO_TOOL_TABLE', message: 'List the tools the skill uses in a "| Tool | Purpose |" table' })
+  }
+
+  return { valid: errors.length === 0, errors, warnings, title, sections, tools }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────
+
+/** Cells of a Markdown table row, honouring escaped pipes */
+function splitRow(line: string): string[] {
+  const inner = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '')
+  return inner.split(/(?<!\\)\|/).map((c) => c.trim())
+}
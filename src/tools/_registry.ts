@@ -3,35 +3,46 @@
  *
  * Core tools (preflight, search) always register.
  * Module tools register only when their module is in enabledModules.
+ * The tools.allow / tools.deny policy then filters individual tools,
+ * core tools included. Both are resolved per agent (see core/agents.ts).
  */
 
 import type { OpenClawPluginApi, CynapsConfig, CynapsModule } from '../core/types.js'
+import type { GenerationPoller } from '../services/generation-poller.js'
+import { resolveAgentConfig } from '../core/agents.js'
+import { filterTools, isToolAllowed } from '../core/tool-policy.js'
 import { registerPreflightTool } from './cynaps3-preflight.js'
 import { registerMusicmationGenerateTool } from './musicmation-generate.js'
 import { registerMusicmationLibraryTools } from './musicmation-library.js'
 import { registerMusicmationWriteTools } from './musicmation-write.js'
 import { registerMusicmationProjectTools } from './musicmation-projects.js'
 import { registerMusicmationContentTools } from './musicmation-content.js'
+import { registerMusicmationExportTools } from './musicmation-export.js'
+import { registerStorymationTools } from './storymation-stories.js'
+import { registerSkillmationTools } from './skillmation-skills.js'
+import { registerContentmationTools } from './contentmation-posts.js'
 
-type ModuleRegistrar = (api: OpenClawPluginApi, config: CynapsConfig) => void
+type ModuleRegistrar = (api: OpenClawPluginApi, config: CynapsConfig, poller?: GenerationPoller) => void
 
 /** Maps module names to their tool registrars */
 const MODULE_TOOLS: Record<CynapsModule, ModuleRegistrar[]> = {
   musicmation: [
     registerMusicmationGenerateTool,
+    // musicmation-suno.ts stays out until suno-proxy confirms its method names
     registerMusicmationLibraryTools,
     registerMusicmationWriteTools,
     registerMusicmationProjectTools,
     registerMusicmationContentTools,
+    registerMusicmationExportTools,
   ],
   storymation: [
-    // registerStorymationTools — Phase 2
+    registerStorymationTools,
   ],
   skillmation: [
-    // registerSkillmationTools — Phase 3
+    registerSkillmationTools,
   ],
   contentmation: [
-    // registerContentmationTools — Phase 4
+    registerContentmationTools,
   ],
 }
 
@@ -39,18 +50,39 @@ const MODULE_TOOLS: Record<CynapsModule, ModuleRegistrar[]> = {
  * Register all tools for the configured modules.
  * Core tools register unconditionally.
  * Module tools register based on enabledModules config.
+ * The poller (when given) is handed to every registrar so generation
+ * tools can report the tracks they enqueue and status tools can wait on
+ * or read its shared poll loop.
+ *
+ * A module is registered when the global config or any agent profile
+ * enables it. Each factory call then resolves the calling agent's profile
+ * and drops tools whose module that agent hasn't enabled or whose name its
+ * tools policy filters out — before the runtime sees them.
  */
-export function registerAllTools(api: OpenClawPluginApi, config: CynapsConfig): void {
+export function registerAllTools(
+  host: OpenClawPluginApi,
+  config: CynapsConfig,
+  poller?: GenerationPoller,
+): void {
+  const scoped = (module?: CynapsModule) => filterTools(host, (name, ctx) => {
+    const agent = resolveAgentConfig(config, ctx.agentId)
+    return (!module || agent.enabledModules.includes(module)) && isToolAllowed(agent.tools, name)
+  })
+
   // Core tools — always available
-  registerPreflightTool(api, config)
+  registerPreflightTool(scoped(), config)
 
   // Module-specific tools
-  const enabled = new Set(config.enabledModules)
+  const enabled = new Set([
+    ...config.enabledModules,
+    ...Object.values(config.agents ?? {}).flatMap((profile) => profile.enabledModules ?? []),
+  ])
 
   for (const [module, registrars] of Object.entries(MODULE_TOOLS)) {
     if (enabled.has(module as CynapsModule)) {
+      const api = scoped(module as CynapsModule)
       for (const registrar of registrars) {
-        registrar(api, config)
+        registrar(api, config, poller)
       }
     }
   }
@@ -0,0 +1,349 @@
+/**
+ * Contentmation Post Tools
+ *
+ * Social and blog posts about finished Musicmation tracks and albums:
+ * - contentmation_draft_post — compose a post with listen link and artwork
+ * - contentmation_schedule_post
+ * - contentmation_list_posts (paginated; drafts and scheduled by default)
+ * - contentmation_mark_published
+ *
+ * Source material is read from sunoma_items (and fetchAlbum() for
+ * albums); posts live in the skill-api table contentmation_posts. The
+ * plugin does not post anywhere itself — the user (or their scheduler)
+ * publishes, and the agent records it with contentmation_mark_published.
+ */
+
+import type {
+  OpenClawPluginApi, CynapsConfig, AgentTool, ContentPost, Track,
+} from '../core/types.js'
+import { fetchAlbum } from '../core/albums.js'
+import { CynapsApiClient } from '../core/api-client.js'
+import { CynapsApiError, wrapError } from '../core/errors.js'
+import { filter } from '../core/filter.js'
+import { newId } from '../core/ids.js'
+import { queryOptional } from '../core/optional-columns.js'
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, fetchPage } from '../core/pagination.js'
+import { jsonResult } from '../core/result.js'
+import { POST_CHANNELS, composePost, type PostChannel } from '../contentmation/compose.js'
+
+const POSTS_TABLE = 'contentmation_posts'
+
+const MAX_POST_TEXT = 20_000
+const SOURCE_COLUMNS = ['id', 'title', 'status', 'audio_url', 'image_url', 'project_id', 'deleted_at'] as const
+const UNPUBLISHED = ['draft', 'scheduled']
+
+type SourceTrack = Pick<Track, 'id' | 'title' | 'status' | 'audio_url' | 'image_url'> & {
+  project_id: string | null
+  deleted_at?: string | null
+}
+
+interface PostSource {
+  source_type: ContentPost['source_type']
+  source_id: string
+  project_id: string | null
+  title: string
+  listen_url: string
+  image_url: string | null
+}
+
+export function registerContentmationTools(api: OpenClawPluginApi, config: CynapsConfig): void {
+  api.registerTool((ctx) => {
+    const client = CynapsApiClient.fromContext(config, ctx)
+
+    return [
+      // --- Draft Post ---
+      {
+        name: 'contentmation_draft_post',
+        label: 'Draft Post',
+        description:
+          'Draft a post for one channel about a finished track or album. Write the copy yourself; the tool adds the ' +
+          'listen link and hashtags (or, for the blog, a Markdown article with the artwork), checks the channel\'s ' +
+          'length limit and saves it as a draft. Albums link to their first finished track. One call per channel.',
+
+        parameters: {
+          type: 'object',
+          properties: {
+            track_id: { type: 'string', description: 'Track the post is about' },
+            album_id: { type: 'string', description: 'Album the post is about (instead of track_id)' },
+            channel: { type: 'string', enum: POST_CHANNELS, description: 'Where the post goes' },
+            text: { type: 'string', description: 'Post copy, without the link or hashtags', maxLength: MAX_POST_TEXT },
+            title: { type: 'string', description: 'Article heading for blog posts (default: track/album title)', maxLength: 200 },
+            hashtags: {
+              type: 'array',
+              items: { type: 'string', maxLength: 100 },
+              maxItems: 50,
+              description: 'Hashtags, with or without "#"',
+            },
+          },
+          required: ['channel', 'text'],
+          additionalProperties: false,
+        },
+
+        async execute(_id: string, params: Record<string, unknown>) {
+          try {
+            if (Boolean(params.track_id) === Boolean(params.album_id)) {
+              throw new CynapsApiError('Pass either track_id or album_id', 400, 'INVALID_INPUT')
+            }
+            const channel = params.channel as PostChannel
+            const source = params.track_id
+              ? await resolveTrack(client, config, params.track_id as string)
+              : await resolveAlbum(client, config, params.album_id as string)
+
+            const title = (params.title as string | undefined) ?? source.title
+            const composed = composePost({
+              channel,
+              text: params.text as string,
+              title,
+              hashtags: params.hashtags as string[] | undefined,
+              listen_url: source.listen_url,
+              image_url: source.image_url,
+            })
+            if (composed.limit !== null && composed.length > composed.limit) {
+              throw new CynapsApiError(
+                `Post is ${composed.length} characters with link and hashtags; ${channel} allows ${composed.limit}. ` +
+                `Shorten the text by at least ${composed.length - composed.limit}.`,
+                400,
+                'TEXT_TOO_LONG',
+              )
+            }
+
+            const post = (await client.query<ContentPost[]>(POSTS_TABLE, undefined, {
+              method: 'POST',
+              body: {
+                id: newId('post'),
+                channel,
+                status: 'draft',
+                ...source,
+                title: channel === 'blog' ? title : null,
+                text: params.text as string,
+                body: composed.body,
+                hashtags: composed.hashtags,
+                scheduled_at: null,
+                published_at: null,
+                published_url: null,
+              },
+            }))?.[0]
+            if (!post) throw new CynapsApiError('Failed to save post — no row returned', 500, 'CREATE_FAILED')
+
+            return jsonResult({
+              post,
+              length: composed.length,
+              limit: composed.limit,
+              warnings: composed.warnings,
+              message: `Drafted a ${channel} post about "${source.title}". Show it to the user before scheduling.`,
+            })
+          } catch (err) { throw wrapError(err) }
+        },
+      },
+
+      // --- Schedule Post ---
+      {
+        name: 'contentmation_schedule_post',
+        label: 'Schedule Post',
+        description:
+          'Set when a draft should go out. Scheduling again moves the date. Published posts cannot be rescheduled.',
+
+        parameters: {
+          type: 'object',
+          properties: {
+            post_id: { type: 'string' },
+            scheduled_at: { type: 'string', description: 'ISO 8601 date-time with timezone, in the future' },
+          },
+          required: ['post_id', 'scheduled_at'],
+          additionalProperties: false,
+        },
+
+        async execute(_id: string, params: Record<string, unknown>) {
+          try {
+            const when = new Date(params.scheduled_at as string)
+            if (Number.isNaN(when.getTime())) {
+              throw new CynapsApiError('scheduled_at is not a valid date-time', 400, 'INVALID_DATE')
+            }
+            if (when.getTime() <= Date.now()) {
+              throw new CynapsApiError('scheduled_at is in the past', 400, 'SCHEDULE_IN_PAST')
+            }
+
+            const post = await fetchPost(client, params.post_id as string)
+            if (post.status === 'published') {
+              throw new CynapsApiError('Post is already published', 409, 'ALREADY_PUBLISHED')
+            }
+
+            const scheduledAt = when.toISOString()
+            await client.query(POSTS_TABLE, filter().eq('id', post.id).build(), {
+              method: 'PATCH',
+              body: { status: 'scheduled', scheduled_at: scheduledAt },
+            })
+            return jsonResult({
+              post_id: post.id,
+              channel: post.channel,
+              status: 'scheduled',
+              scheduled_at: scheduledAt,
+              previous: post.scheduled_at,
+              message: post.scheduled_at
+                ? `Moved the ${post.channel} post from ${post.scheduled_at} to ${scheduledAt}.`
+                : `Scheduled the ${post.channel} post for ${scheduledAt}.`,
+            })
+          } catch (err) { throw wrapError(err) }
+        },
+      },
+
+      // --- List Posts ---
+      {
+        name: 'contentmation_list_posts',
+        label: 'List Posts',
+        description:
+          'List posts — by default drafts and scheduled posts, newest first. Filter by status, channel, track or album. ' +
+          'Scheduled posts are listed in the order they go out. ' +
+          `Paginated: up to \`limit\` posts (default ${DEFAULT_PAGE_SIZE}) with \`total\`; pass \`next_cursor\` back as \`cursor\`.`,
+
+        parameters: {
+          type: 'object',
+          properties: {
+            status: { type: 'string', enum: ['draft', 'scheduled', 'published'], description: 'Only posts with this status' },
+            channel: { type: 'string', enum: POST_CHANNELS },
+            track_id: { type: 'string', description: 'Only posts about this track' },
+            album_id: { type: 'string', description: 'Only posts about this album (instead of track_id)' },
+            limit: { type: 'integer', description: `Posts per page (default ${DEFAULT_PAGE_SIZE})`, minimum: 1, maximum: MAX_PAGE_SIZE },
+            cursor: { type: 'string', description: 'next_cursor from the previous page' },
+          },
+          additionalProperties: false,
+        },
+
+        async execute(_id: string, params: Record<string, unknown>) {
+          try {
+            if (params.track_id && params.album_id) {
+              throw new CynapsApiError('Pass track_id or album_id, not both', 400, 'INVALID_INPUT')
+            }
+            const status = params.status as string | undefined
+            const sourceId = (params.track_id ?? params.album_id) as string | undefined
+            const query = filter()
+            if (status) query.eq('status', status)
+            else query.in('status', UNPUBLISHED)
+            if (params.channel) query.eq('channel', params.channel as string)
+            if (sourceId) query.eq('source_id', sourceId)
+            if (status === 'scheduled') query.order('scheduled_at')
+            else query.order('created_at', 'desc')
+            query.order('id')
+
+            const page = await fetchPage<ContentPost>(client, POSTS_TABLE, query, {
+              limit: params.limit as number | undefined,
+              cursor: params.cursor as string | undefined,
+              scope: { status, channel: params.channel, source_id: sourceId },
+            })
+            return jsonResult({
+              posts: page.items,
+              count: page.items.length,
+              total: page.total,
+              has_more: page.has_more,
+              next_cursor: page.next_cursor,
+            })
+          } catch (err) { throw wrapError(err) }
+        },
+      },
+
+      // --- Mark Published ---
+      {
+        name: 'contentmation_mark_published',
+        label: 'Mark Post Published',
+        description:
+          'Record that a post went live, with the URL of the live post when the user has it. ' +
+          'Call only after the user confirms it was posted — this tool does not post anything itself.',
+
+        parameters: {
+          type: 'object',
+          properties: {
+            post_id: { type: 'string' },
+            url: { type: 'string', description: 'Link to the live post' },
+            published_at: { type: 'string', description: 'ISO 8601 date-time it went live (default: now)' },
+          },
+          required: ['post_id'],
+          additionalProperties: false,
+        },
+
+        async execute(_id: string, params: Record<string, unknown>) {
+          try {
+            const publishedAt = params.published_at ? new Date(params.published_at as string) : new Date()
+            if (Number.isNaN(publishedAt.getTime())) {
+              throw new CynapsApiError('published_at is not a valid date-time', 400, 'INVALID_DATE')
+            }
+
+            const post = await fetchPost(client, params.post_id as string)
+            if (post.status === 'published') {
+              return jsonResult({
+                post_id: post.id,
+                status: 'published',
+                published_at: post.published_at,
+                published_url: post.published_url,
+                message: `Already marked published on ${post.published_at}.`,
+              })
+            }
+
+            const body = {
+              status: 'published',
+              published_at: publishedAt.toISOString(),
+              published_url: (params.url as string | undefined) ?? null,
+            }
+            await client.query(POSTS_TABLE, filter().eq('id', post.id).build(), { method: 'PATCH', body })
+            return jsonResult({
+              post_id: post.id,
+              channel: post.channel,
+              ...body,
+              message: `Marked the ${post.channel} post as published.`,
+            })
+          } catch (err) { throw wrapError(err) }
+        },
+      },
+    ] as AgentTool[]
+  })
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────
+
+async function resolveTrack(client: CynapsApiClient, config: CynapsConfig, trackId: string): Promise<PostSource> {
+  const track = (await queryOptional<SourceTrack[]>(client, 'sunoma_items', filter()
+    .eq('id', trackId)
+    .select(...SOURCE_COLUMNS)
+    .build()))?.[0]
+  if (!track || track.deleted_at) throw new CynapsApiError('Track not found', 404, 'TRACK_NOT_FOUND')
+  if (!isReady(track)) {
+    throw new CynapsApiError(`"${track.title}" has no finished audio yet (status ${track.status})`, 409, 'TRACK_NOT_READY')
+  }
+  return {
+    source_type: 'track',
+    source_id: track.id,
+    project_id: track.project_id ?? null,
+    title: track.title,
+    listen_url: `${config.contentDomain}/details/${track.id}`,
+    image_url: track.image_url,
+  }
+}
+
+async function resolveAlbum(client: CynapsApiClient, config: CynapsConfig, albumId: string): Promise<PostSource> {
+  const { album, trackIds: ids } = await fetchAlbum(client, albumId)
+  const rows = ids.length ? await queryOptional<SourceTrack[]>(client, 'sunoma_items', filter()
+    .in('id', ids)
+    .select(...SOURCE_COLUMNS)
+    .build()) || [] : []
+  const byId = new Map(rows.map((t) => [t.id, t]))
+  const lead = ids.map((id) => byId.get(id)).find((t) => t && isReady(t))
+  if (!lead) throw new CynapsApiError(`Album "${album.title}" has no finished tracks yet`, 409, 'ALBUM_NOT_READY')
+
+  return {
+    source_type: 'album',
+    source_id: album.id,
+    project_id: album.project_id ?? lead.project_id ?? null,
+    title: album.title,
+    listen_url: `${config.contentDomain}/details/${lead.id}`,
+    image_url: album.image_url ?? lead.image_url,
+  }
+}
+
+function isReady(track: SourceTrack): boolean {
+  return track.status === 'COMPLETE' && Boolean(track.audio_url)
+}
+
+async function fetchPost(client: CynapsApiClient, postId: string): Promise<ContentPost> {
+  const post = (await client.query<ContentPost[]>(POSTS_TABLE, filter().eq('id', postId).build()))?.[0]
+  if (!post) throw new CynapsApiError('Post not found', 404, 'POST_NOT_FOUND')
+  return post
+}
@@ -4,23 +4,32 @@
  * Verifies: authentication, API key presence, credit balance,
  * tier limits, daily usage, and autonomy settings.
  * Must be called before any generation operation.
+ *
+ * Adds a per-provider summary (configured, credits, daily usage,
+ * capabilities) for every registered generation provider, and — when the
+ * calling agent has a profile — the settings it resolves to.
  */
 
 import type { OpenClawPluginApi, CynapsConfig, PreflightResult } from '../core/types.js'
+import { agentProfile, resolveAgentConfig } from '../core/agents.js'
 import { CynapsApiClient } from '../core/api-client.js'
 import { wrapError } from '../core/errors.js'
 import { jsonResult } from '../core/result.js'
+import { providers } from '../providers/index.js'
 
 export function registerPreflightTool(api: OpenClawPluginApi, config: CynapsConfig): void {
   api.registerTool((ctx) => {
     const client = CynapsApiClient.fromContext(config, ctx)
+    const agentId = ctx.agentId ?? config.agentId
+    const agent = agentProfile(config, ctx.agentId) ? resolveAgentConfig(config, ctx.agentId) : null
 
     return {
       name: 'cynaps3_preflight',
       label: 'Preflight Check',
       description:
         'Check readiness before any generation. Returns API key status, credit balance, ' +
-        'tier info, daily usage, and autonomy settings. Always call this first.',
+        'tier info, daily usage, and autonomy settings, plus a `providers` summary of every ' +
+        'generation provider (configured, credits, variations, capabilities). Always call this first.',
 
       parameters: {
         type: 'object',
@@ -30,7 +39,20 @@ export function registerPreflightTool(api: OpenClawPluginApi, config: CynapsConf
 
       async execute(_id: string, _params: Record<string, unknown>) {
         try {
-          return jsonResult(await client.rpc<PreflightResult>('preflight'))
+          const result = await client.rpc<PreflightResult>('preflight')
+          return jsonResult({
+            ...result,
+            providers: providers.summarize(result.checks ?? {}),
+            ...(agent ? {
+              agent_profile: {
+                agent_id: agentId,
+                enabled_modules: agent.enabledModules,
+                default_project_id: agent.defaultProjectId ?? null,
+                default_provider: agent.defaultProvider ?? providers.defaultProvider,
+                spending_caps: agent.spendingCaps ?? null,
+              },
+            } : {}),
+          })
         } catch (err) {
           throw wrapError(err)
         }
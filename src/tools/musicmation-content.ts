@@ -2,20 +2,103 @@
  * Musicmation Content Management Tools
  *
  * CRUD operations for content items (tracks, rows in the content screen):
+ * - musicmation_list_items (paginated)
  * - musicmation_create_item
  * - musicmation_update_item
+ * - musicmation_delete_item (soft delete — moves to trash)
+ * - musicmation_restore_item
+ * - musicmation_purge_trash (permanent, user types back the item count)
  */
 
 import type { OpenClawPluginApi, CynapsConfig, AgentTool } from '../core/types.js'
+import { resolveAgentConfig } from '../core/agents.js'
 import { CynapsApiClient } from '../core/api-client.js'
 import { CynapsApiError, wrapError } from '../core/errors.js'
+import { filter } from '../core/filter.js'
+import { newId } from '../core/ids.js'
+import { missingColumn } from '../core/optional-columns.js'
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, fetchPage } from '../core/pagination.js'
 import { jsonResult } from '../core/result.js'
+import { providers } from '../providers/index.js'
+
+const LIST_COLUMNS = [
+  'id', 'title', 'status', 'item_type', 'project_id', 'genre', 'mood', 'rating',
+  'audio_url', 'image_url', 'duration_sec', 'generation_source', 'created_at', 'deleted_at',
+] as const
+
+const DEFAULT_PURGE_AFTER_DAYS = 30
+const MAX_ITEMS_PER_CALL = 50
+const PURGE_PREVIEW_SIZE = 20
 
 export function registerMusicmationContentTools(api: OpenClawPluginApi, config: CynapsConfig): void {
   api.registerTool((ctx) => {
     const client = CynapsApiClient.fromContext(config, ctx)
+    const { defaultProjectId } = resolveAgentConfig(config, ctx.agentId)
 
     return [
+      // --- List Items ---
+      {
+        name: 'musicmation_list_items',
+        label: 'List Content Items',
+        description:
+          'List content items (tracks) with optional filters. Returns summary columns only — ' +
+          'use musicmation_poll_status for variations and full detail. ' +
+          `Paginated: returns up to \`limit\` items (default ${DEFAULT_PAGE_SIZE}) with \`total\`; ` +
+          'pass `next_cursor` back as `cursor` for the next page, keeping the other filters unchanged. ' +
+          'Auto-scoped to owner by the server.',
+
+        parameters: {
+          type: 'object',
+          properties: {
+            project_id: { type: 'string', description: 'Only items in this project' },
+            status: { type: 'string', description: 'Only items with this status (e.g. "COMPLETE", "draft")' },
+            item_type: { type: 'string', description: 'Item type (default: "track" — variations are excluded)', default: 'track' },
+            trashed: { type: 'boolean', default: false, description: 'List the trash instead of live items' },
+            search: { type: 'string', description: 'Case-insensitive substring match on title', maxLength: 200 },
+            order_by: { type: 'string', enum: ['created_at', 'title', 'rating'], default: 'created_at', description: 'Sort column' },
+            direction: { type: 'string', enum: ['asc', 'desc'], default: 'desc', description: 'Sort direction' },
+            limit: { type: 'integer', description: `Items per page (default ${DEFAULT_PAGE_SIZE})`, minimum: 1, maximum: MAX_PAGE_SIZE },
+            cursor: { type: 'string', description: 'next_cursor from the previous page' },
+          },
+          additionalProperties: false,
+        },
+
+        async execute(_id: string, params: Record<string, unknown>) {
+          try {
+            const itemType = (params.item_type as string) || 'track'
+            const orderBy = (params.order_by as 'created_at' | 'title' | 'rating') || 'created_at'
+            const direction = (params.direction as 'asc' | 'desc') || 'desc'
+
+            const trashed = params.trashed === true
+
+            const query = filter().eq('item_type', itemType).select(...LIST_COLUMNS)
+            if (trashed) query.notNull('deleted_at')
+            else query.isNull('deleted_at')
+            if (params.project_id) query.eq('project_id', params.project_id as string)
+            if (params.status) query.eq('status', params.status as string)
+            if (params.search) query.ilike('title', `*${params.search as string}*`)
+            // Tie-break on id so rows with equal sort keys never straddle pages inconsistently
+            query.order(orderBy, direction).order('id')
+
+            const page = await fetchPage<Record<string, unknown>>(client, 'sunoma_items', query, {
+              limit: params.limit as number | undefined,
+              cursor: params.cursor as string | undefined,
+              scope: {
+                project_id: params.project_id, status: params.status, item_type: itemType,
+                trashed, search: params.search, order_by: orderBy, direction,
+              },
+            })
+            return jsonResult({
+              items: page.items,
+              count: page.items.length,
+              total: page.total,
+              has_more: page.has_more,
+              next_cursor: page.next_cursor,
+            })
+          } catch (err) { throw wrapError(err) }
+        },
+      },
+
       // --- Create Item ---
       {
         name: 'musicmation_create_item',
@@ -29,7 +112,12 @@ export function registerMusicmationContentTools(api: OpenClawPluginApi, config:
           type: 'object',
           properties: {
             title: { type: 'string', description: 'Item title', maxLength: 200 },
-            project_id: { type: 'string', description: 'Project ID to add the item to' },
+            project_id: {
+              type: 'string',
+              description: defaultProjectId
+                ? `Project ID to add the item to (default: ${defaultProjectId})`
+                : 'Project ID to add the item to',
+            },
             item_type: { type: 'string', description: 'Item type (default: "track")', default: 'track' },
             status: { type: 'string', description: 'Item status (default: "draft")', default: 'draft' },
             transcript: { type: 'string', description: 'Lyrics or transcript text', maxLength: 5000 },
@@ -54,25 +142,22 @@ export function registerMusicmationContentTools(api: OpenClawPluginApi, config:
             audio_url: { type: 'string', description: 'Audio file URL' },
             generation_source: {
               type: 'string',
-              enum: ['suno', 'sonauto'],
+              enum: providers.ids(),
               description: 'Generation provider. Set this when creating items for bulk generation.',
             },
           },
-          required: ['title', 'project_id'],
+          required: defaultProjectId ? ['title'] : ['title', 'project_id'],
           additionalProperties: false,
         },
 
         async execute(_id: string, params: Record<string, unknown>) {
           try {
-            const timestamp = Math.floor(Date.now() / 1000)
-            const hex = Array.from(crypto.getRandomValues(new Uint8Array(4)))
-              .map(b => b.toString(16).padStart(2, '0')).join('')
-            const generatedId = `item_${timestamp}_${hex}`
+            const generatedId = newId('item')
 
             const body: Record<string, unknown> = {
               id: generatedId,
               title: params.title as string,
-              project_id: params.project_id as string,
+              project_id: (params.project_id as string | undefined) ?? defaultProjectId,
               item_type: (params.item_type as string) || 'track',
               status: (params.status as string) || 'draft',
             }
@@ -172,9 +257,7 @@ export function registerMusicmationContentTools(api: OpenClawPluginApi, config:
               return jsonResult({ message: 'No fields to update.' })
             }
 
-            const items = await client.query<Record<string, unknown>[]>('sunoma_items', {
-              id: `eq.${itemId}`,
-            }, {
+            const items = await client.query<Record<string, unknown>[]>('sunoma_items', filter().eq('id', itemId).build(), {
               method: 'PATCH',
               body,
             })
@@ -187,6 +270,230 @@ export function registerMusicmationContentTools(api: OpenClawPluginApi, config:
           } catch (err) { throw wrapError(err) }
         },
       },
+
+      // --- Delete Item (soft) ---
+      {
+        name: 'musicmation_delete_item',
+        label: 'Delete Content Item',
+        description:
+          'Move items to the trash (soft delete). Generated variations go with their parent track. ' +
+          'Trashed items disappear from musicmation_list_items but can be brought back with ' +
+          `musicmation_restore_item until purged (musicmation_purge_trash, default after ${DEFAULT_PURGE_AFTER_DAYS} days). ` +
+          'Use this — not musicmation_delete_project — to clean up bad generations.',
+
+        parameters: {
+          type: 'object',
+          properties: {
+            item_ids: {
+              type: 'array',
+              items: { type: 'string' },
+              minItems: 1,
+              maxItems: MAX_ITEMS_PER_CALL,
+              description: 'Item IDs to move to the trash',
+            },
+          },
+          required: ['item_ids'],
+          additionalProperties: false,
+        },
+
+        async execute(_id: string, params: Record<string, unknown>) {
+          try {
+            const itemIds = params.item_ids as string[]
+            const result = await setTrashed(client, itemIds, new Date().toISOString())
+            return jsonResult({
+              trashed: result.updated,
+              skipped: result.skipped,
+              variations_trashed: result.variations,
+              message: result.updated.length > 0
+                ? `${result.updated.length} item(s) moved to the trash. Restore with musicmation_restore_item.`
+                : 'No items trashed — they were not found or are already in the trash.',
+            })
+          } catch (err) {
+            if (missingColumn(err) === 'deleted_at') return trashUnsupported()
+            throw wrapError(err)
+          }
+        },
+      },
+
+      // --- Restore Item ---
+      {
+        name: 'musicmation_restore_item',
+        label: 'Restore Content Item',
+        description:
+          'Restore trashed items (and their variations) back to their project. ' +
+          'Find trashed items with musicmation_list_items { trashed: true }.',
+
+        parameters: {
+          type: 'object',
+          properties: {
+            item_ids: {
+              type: 'array',
+              items: { type: 'string' },
+              minItems: 1,
+              maxItems: MAX_ITEMS_PER_CALL,
+              description: 'Trashed item IDs to restore',
+            },
+          },
+          required: ['item_ids'],
+          additionalProperties: false,
+        },
+
+        async execute(_id: string, params: Record<string, unknown>) {
+          try {
+            const itemIds = params.item_ids as string[]
+            const result = await setTrashed(client, itemIds, null)
+            return jsonResult({
+              restored: result.updated,
+              skipped: result.skipped,
+              variations_restored: result.variations,
+              message: result.updated.length > 0
+                ? `${result.updated.length} item(s) restored.`
+                : 'No items restored — they were not found or are not in the trash.',
+            })
+          } catch (err) {
+            if (missingColumn(err) === 'deleted_at') return trashUnsupported()
+            throw wrapError(err)
+          }
+        },
+      },
+
+      // --- Purge Trash (typed confirmation) ---
+      {
+        name: 'musicmation_purge_trash',
+        label: 'Purge Trash',
+        description:
+          'DESTRUCTIVE: Permanently delete items that have been in the trash longer than older_than_days ' +
+          `(default ${DEFAULT_PURGE_AFTER_DAYS}). Call WITHOUT confirm_count first — it returns how many items ` +
+          'would be purged and a sample. Show that to the user and ask them to type the number back. ' +
+          'Pass what the user typed as confirm_count; the call is rejected unless it matches the current count.',
+
+        parameters: {
+          type: 'object',
+          properties: {
+            older_than_days: {
+              type: 'integer',
+              minimum: 0,
+              default: DEFAULT_PURGE_AFTER_DAYS,
+              description: 'Only purge items trashed at least this many days ago (0 = everything in the trash)',
+            },
+            project_id: { type: 'string', description: 'Only purge trash from this project' },
+            confirm_count: {
+              type: 'integer',
+              minimum: 1,
+              description: 'The item count the user typed back to confirm — never fill this in yourself',
+            },
+          },
+          additionalProperties: false,
+        },
+
+        async execute(_id: string, params: Record<string, unknown>) {
+          try {
+            const days = (params.older_than_days as number | undefined) ?? DEFAULT_PURGE_AFTER_DAYS
+            const cutoff = new Date(Date.now() - days * 86_400_000).toISOString()
+
+            const purgeable = () => {
+              const f = filter().lt('deleted_at', cutoff)
+              if (params.project_id) f.eq('project_id', params.project_id as string)
+              return f
+            }
+
+            const preview = await client.queryPage<Record<string, unknown>>('sunoma_items', purgeable()
+              .select('id', 'title', 'item_type', 'deleted_at')
+              .order('deleted_at')
+              .limit(PURGE_PREVIEW_SIZE)
+              .build())
+
+            // Without Content-Range a full preview page may be a fraction of what the
+            // DELETE would remove, so the count the user confirms could understate it
+            if (preview.total === null && preview.rows.length >= PURGE_PREVIEW_SIZE) {
+              return jsonResult({
+                error: 'PURGE_COUNT_UNKNOWN',
+                purged: 0,
+                message: `The backend did not report how many trashed items match (at least ${preview.rows.length}). ` +
+                  'Nothing was deleted. Narrow the purge with project_id or a larger older_than_days and try again.',
+              })
+            }
+            const total = preview.total ?? preview.rows.length
+
+            if (total === 0) {
+              return jsonResult({ purged: 0, message: `Nothing in the trash older than ${days} day(s).` })
+            }
+
+            const confirmCount = params.confirm_count as number | undefined
+            if (confirmCount === undefined) {
+              return jsonResult({
+                confirmation_required: true,
+                would_purge: total,
+                sample: preview.rows,
+                cutoff,
+                instruction: `Tell the user ${total} trashed item(s) will be PERMANENTLY deleted and ask them to ` +
+                  'type that number to confirm. Call again with confirm_count set to what they typed.',
+              })
+            }
+
+            // Typed-confirmation gate: the count must match what would be deleted now
+            if (confirmCount !== total) {
+              return jsonResult({
+                error: `Confirmation count ${confirmCount} does not match the ${total} item(s) in the trash. Purge aborted.`,
+                purged: 0,
+                would_purge: total,
+                hint: 'Show the user the current count and ask them to type it back to confirm.',
+              })
+            }
+
+            const deleted = await client.query<Array<{ id: string }>>('sunoma_items',
+              purgeable().select('id').build(), { method: 'DELETE' }) || []
+
+            return jsonResult({
+              purged: deleted.length,
+              cutoff,
+              message: `${deleted.length} item(s) permanently deleted from the trash.`,
+            })
+          } catch (err) {
+            if (missingColumn(err) === 'deleted_at') return trashUnsupported()
+            throw wrapError(err)
+          }
+        },
+      },
     ] as AgentTool[]
   })
 }
+
+// ─── Helpers ──────────────────────────────────────────────────────
+
+/** Refusal for backends without the sunoma_items.deleted_at column the trash is built on */
+function trashUnsupported() {
+  return jsonResult({
+    error: 'TRASH_UNSUPPORTED',
+    message: 'The trash needs the deleted_at column on sunoma_items, which this backend does not have yet. ' +
+      'Nothing was changed.',
+  })
+}
+
+/**
+ * Trash (deletedAt = timestamp) or restore (deletedAt = null) items, then
+ * apply the same change to their variations so a track and its takes move together.
+ */
+async function setTrashed(client: CynapsApiClient, itemIds: string[], deletedAt: string | null) {
+  const eligible = (column: string, ids: string[]) => {
+    const f = filter().in(column, ids)
+    return deletedAt ? f.isNull('deleted_at') : f.notNull('deleted_at')
+  }
+
+  const updated = await client.query<Array<{ id: string }>>('sunoma_items',
+    eligible('id', itemIds).build(), { method: 'PATCH', body: { deleted_at: deletedAt } }) || []
+  const updatedIds = updated.map((r) => r.id)
+
+  let variations: Array<{ id: string }> = []
+  if (updatedIds.length > 0) {
+    variations = await client.query<Array<{ id: string }>>('sunoma_items',
+      eligible('parent_id', updatedIds).build(), { method: 'PATCH', body: { deleted_at: deletedAt } }) || []
+  }
+
+  const updatedSet = new Set(updatedIds)
+  return {
+    updated: updatedIds,
+    skipped: itemIds.filter((id) => !updatedSet.has(id)),
+    variations: variations.length,
+  }
+}
@@ -0,0 +1,634 @@
+/**
+ * Musicmation Export Tools
+ *
+ * Tools that turn library content into local files in the agent workspace:
+ * - musicmation_download_tracks — Audio + cover images + JSON manifest
+ * - musicmation_export_playlist — M3U8 / XSPF / JSPF playlist
+ * - musicmation_export_lyrics — Time-synced lyrics as LRC / WebVTT (one track)
+ * - musicmation_export_release — Distributor package for an album
+ *
+ * Downloads and playlists take the same selection: track_ids, a project, or an album (in its
+ * dramaturgy order). Files land under ctx.workspaceDir (see core/workspace.ts for name
+ * sanitizing and path containment), so downstream agents and tools can
+ * work on local copies instead of CDN URLs.
+ */
+
+import path from 'node:path'
+import type { OpenClawPluginApi, CynapsConfig, AgentTool, Track, Project, AlbumDetail } from '../core/types.js'
+import { fetchAlbum } from '../core/albums.js'
+import { CynapsApiClient } from '../core/api-client.js'
+import { BULK_CONCURRENCY, SERVER_BATCH_SIZE, mapChunks } from '../core/batch.js'
+import { CynapsApiError, wrapError } from '../core/errors.js'
+import { filter } from '../core/filter.js'
+import { queryOptional } from '../core/optional-columns.js'
+import { jsonResult } from '../core/result.js'
+import {
+  NameAllocator, configuredHosts, downloadToFile, extensionFor, fetchPublicFile, requireWorkspace, resolveInside,
+  sanitizeFileName, writeWorkspaceFile,
+} from '../core/workspace.js'
+import { PLAYLIST_FORMATS, renderPlaylist } from '../export/playlist.js'
+import type { PlaylistFormat } from '../export/playlist.js'
+import { cuesFromAlignment, estimateCues, parseTranscript, renderLrc, renderVtt } from '../export/lyrics.js'
+import type { AlignedSegment } from '../export/lyrics.js'
+import {
+  buildTagSpec, buildTrackSheet, checkArtwork, readImageInfo, renderTrackSheetCsv, validateRelease,
+} from '../export/release.js'
+import type { ArtworkCheck, ReleaseInfo } from '../export/release.js'
+
+/** Tracks one export call resolves */
+const MAX_EXPORT_TRACKS = 100
+const DOWNLOAD_CONCURRENCY = 3
+const EXPORT_ROOT = 'musicmation'
+const MANIFEST_NAME = 'manifest.json'
+const TRACK_COLUMNS = ['id', 'title', 'status', 'audio_url', 'image_url', 'duration_sec', 'project_id', 'artist', 'album']
+const RELEASE_COLUMNS = [...TRACK_COLUMNS, 'composer', 'copyright', 'genre', 'tags_genre']
+
+/** Selection parameters shared by every export tool */
+const SELECTION_PARAMETERS = {
+  track_ids: {
+    type: 'array',
+    items: { type: 'string' },
+    minItems: 1,
+    maxItems: MAX_EXPORT_TRACKS,
+    description: 'Tracks to export, in order',
+  },
+  project_id: { type: 'string', description: 'Export every track in this project (creation order)' },
+  album_id: { type: 'string', description: 'Export an album (dramaturgy order)' },
+}
+
+const LYRICS_FORMATS = ['lrc', 'vtt'] as const
+type LyricsFormat = typeof LYRICS_FORMATS[number]
+
+type ExportTrack = Track & {
+  artist?: string | null
+  album?: string | null
+  composer?: string | null
+  copyright?: string | null
+  genre?: string | null
+}
+
+type LyricsTrack = ExportTrack & {
+  transcript?: string | null
+  deleted_at?: string | null
+  /** Written by Sonauto generations with align_lyrics */
+  lyrics_alignment?: AlignedSegment[] | null
+}
+
+/** What a selection resolved to */
+interface Selection {
+  /** Album or project name; null for a plain track list */
+  title: string | null
+  artist: string | null
+  image_url: string | null
+  source: Record<string, unknown>
+  tracks: ExportTrack[]
+  /** Requested IDs that don't exist (or belong to someone else) */
+  missing: string[]
+  /** Album tracks that are in the trash, left out of `tracks` */
+  trashed: string[]
+  /** The project or album has more than MAX_EXPORT_TRACKS tracks; only the first ones are in `tracks` */
+  truncated: boolean
+}
+
+/** One audio/cover file to fetch */
+interface DownloadJob {
+  itemId: string
+  kind: 'audio' | 'cover'
+  url: string
+  file: string
+}
+
+interface ManifestFile {
+  file: string
+  url: string
+  bytes: number
+}
+
+export function registerMusicmationExportTools(api: OpenClawPluginApi, config: CynapsConfig): void {
+  // Our own backend may be local (dev stub); every other host must resolve to a public address
+  const download = { trustedHosts: configuredHosts(config) }
+
+  api.registerTool((ctx) => {
+    const client = CynapsApiClient.fromContext(config, ctx)
+
+    return [
+      // --- Download Tracks ---
+      {
+        name: 'musicmation_download_tracks',
+        label: 'Download Tracks',
+        description:
+          'Download finished tracks (audio, plus cover images by default) into the agent workspace, with a ' +
+          'manifest.json describing every file. Pass track_ids, project_id or album_id ' +
+          `(completed tracks only, up to ${MAX_EXPORT_TRACKS}). Files are named ` +
+          '"NN - Title - vK.ext" (K = take number). Returns the folder and manifest path relative to the workspace.',
+
+        parameters: {
+          type: 'object',
+          properties: {
+            ...SELECTION_PARAMETERS,
+            include_variations: { type: 'boolean', default: true, description: 'Also download the other takes (Suno variations)' },
+            include_covers: { type: 'boolean', default: true, description: 'Also download cover images' },
+            folder: {
+              type: 'string',
+              maxLength: 80,
+              description: `Folder name under ${EXPORT_ROOT}/ (default: album or project name, or "tracks-<date>")`,
+            },
+          },
+          additionalProperties: false,
+        },
+
+        async execute(_id: string, params: Record<string, unknown>) {
+          try {
+            const root = requireWorkspace(ctx.workspaceDir)
+            const selection = await resolveSelection(client, params)
+            const tracks = selection.tracks
+            const ready = tracks.filter((t) => t.status === 'COMPLETE' && t.audio_url)
+            const skipped = [
+              ...selection.missing.map((id) => ({ track_id: id, reason: 'not_found' })),
+              ...selection.trashed.map((id) => ({ track_id: id, reason: 'in_trash' })),
+              ...tracks.filter((t) => !ready.includes(t))
+                .map((t) => ({ track_id: t.id, reason: `status ${t.status || 'unknown'}` })),
+            ]
+            if (ready.length === 0) {
+              return jsonResult({ files_written: 0, skipped, message: 'No completed tracks to download.' })
+            }
+
+            const variations = params.include_variations === false ? [] : await queryChunked(ready.map((t) => t.id),
+              (parents) => queryOptional<Track[]>(client, 'sunoma_items', filter()
+                .in('parent_id', parents)
+                .eq('item_type', 'variation')
+                .isNull('superseded_at')
+                .isNull('deleted_at')
+                .select('id', 'title', 'audio_url', 'image_url', 'duration_sec', 'variation_index', 'parent_id')
+                .order('variation_index')
+                .build()))
+
+            const folder = sanitizeFileName((params.folder as string) || selection.title ||
+              `tracks-${new Date().toISOString().slice(0, 10)}`)
+            const directory = path.posix.join(EXPORT_ROOT, folder)
+            const dirPath = resolveInside(root, directory)
+
+            // Plan every file first so names are stable and covers shared between takes download once
+            const names = new NameAllocator()
+            names.allocate('manifest', 'json')
+            const jobs: DownloadJob[] = []
+            const coverFileByUrl = new Map<string, string>()
+            const pad = Math.max(2, String(ready.length).length)
+            const manifestTracks = ready.map((track, i) => {
+              const stem = `${String(i + 1).padStart(pad, '0')} - ${sanitizeFileName(track.title)}`
+              const takes = [track, ...variations.filter((v) => v.parent_id === track.id)]
+              return {
+                track_id: track.id,
+                title: track.title,
+                position: i + 1,
+                takes: takes.filter((take) => take.audio_url).map((take, k) => {
+                  const takeStem = `${stem} - v${k + 1}`
+                  const audioFile = names.allocate(takeStem, extensionFor(take.audio_url!, null, 'mp3'))
+                  jobs.push({ itemId: take.id, kind: 'audio', url: take.audio_url!, file: audioFile })
+
+                  let coverFile: string | null = null
+                  if (params.include_covers !== false && take.image_url) {
+                    coverFile = coverFileByUrl.get(take.image_url) ?? null
+                    if (!coverFile) {
+                      coverFile = names.allocate(takeStem, extensionFor(take.image_url, null, 'jpg'))
+                      coverFileByUrl.set(take.image_url, coverFile)
+                      jobs.push({ itemId: take.id, kind: 'cover', url: take.image_url, file: coverFile })
+                    }
+                  }
+                  return {
+                    item_id: take.id,
+                    take: k + 1,
+                    duration_sec: take.duration_sec ?? null,
+                    audio: audioFile,
+                    cover: coverFile,
+                  }
+                }),
+              }
+            })
+
+            const outcomes = await mapChunks(jobs, 1, DOWNLOAD_CONCURRENCY, async ([job]) =>
+              downloadToFile(job.url, path.join(dirPath, job.file), download))
+            const written = new Map<string, ManifestFile>()
+            const failed = outcomes.flatMap((o) => {
+              const job = o.items[0]
+              if (o.ok) {
+                written.set(job.file, { file: job.file, url: job.url, bytes: o.value.bytes })
+                return []
+              }
+              return [{ item_id: job.itemId, kind: job.kind, url: job.url, error: o.error.userMessage }]
+            })
+
+            const manifest = {
+              generated_at: new Date().toISOString(),
+              source: selection.source,
+              directory,
+              tracks: manifestTracks.map((t) => ({
+                ...t,
+                takes: t.takes.map((take) => ({
+                  ...take,
+                  audio: written.get(take.audio) ?? null,
+                  cover: take.cover ? written.get(take.cover) ?? null : null,
+                })),
+              })),
+              skipped,
+              failed,
+            }
+            const manifestPath = path.posix.join(directory, MANIFEST_NAME)
+            await writeWorkspaceFile(root, manifestPath, JSON.stringify(manifest, null, 2) + '\n')
+
+            const bytes = [...written.values()].reduce((n, f) => n + f.bytes, 0)
+            return jsonResult({
+              directory,
+              manifest: manifestPath,
+              tracks: ready.length,
+              files_written: written.size,
+              bytes,
+              skipped,
+              failed,
+              ...truncation(selection),
+              message: `Downloaded ${written.size} file(s) for ${ready.length} track(s) into ${directory}/` +
+                (failed.length ? ` — ${failed.length} download(s) failed (see failed).` : '.'),
+            })
+          } catch (err) { throw wrapError(err) }
+        },
+      },
+
+      // --- Export Playlist ---
+      {
+        name: 'musicmation_export_playlist',
+        label: 'Export Playlist',
+        description:
+          'Render tracks as a playlist: M3U8 (players), XSPF (XML) or JSPF (JSON). Pass album_id (uses the ' +
+          'dramaturgy order from musicmation_set_dramaturgy), project_id or an ordered track_ids list. ' +
+          'Each entry carries title, duration, artwork and the listen/detail link. ' +
+          `Written to the workspace under ${EXPORT_ROOT}/playlists/ by default, or returned inline.`,
+
+        parameters: {
+          type: 'object',
+          properties: {
+            ...SELECTION_PARAMETERS,
+            format: { type: 'string', enum: PLAYLIST_FORMATS, default: 'm3u8', description: 'Playlist format' },
+            title: { type: 'string', maxLength: 200, description: 'Playlist title (default: album or project name)' },
+            destination: {
+              type: 'string',
+              enum: ['workspace', 'inline'],
+              description: 'workspace = write a file (default when a workspace exists); inline = return the content',
+            },
+          },
+          additionalProperties: false,
+        },
+
+        async execute(_id: string, params: Record<string, unknown>) {
+          try {
+            const format = (params.format as PlaylistFormat | undefined) ?? 'm3u8'
+            const destination = (params.destination as string | undefined) ?? (ctx.workspaceDir ? 'workspace' : 'inline')
+            const root = destination === 'workspace' ? requireWorkspace(ctx.workspaceDir) : null
+
+            const selection = await resolveSelection(client, params)
+            const playable = selection.tracks.filter((t) => t.audio_url)
+            const skipped = [
+              ...selection.missing.map((id) => ({ track_id: id, reason: 'not_found' })),
+              ...selection.trashed.map((id) => ({ track_id: id, reason: 'in_trash' })),
+              ...selection.tracks.filter((t) => !t.audio_url)
+                .map((t) => ({ track_id: t.id, reason: `no audio (status ${t.status || 'unknown'})` })),
+            ]
+            if (playable.length === 0) {
+              return jsonResult({ tracks: 0, skipped, message: 'None of the selected tracks have audio yet.' })
+            }
+
+            const title = (params.title as string) || selection.title || 'Musicmation Playlist'
+            const content = renderPlaylist({
+              title,
+              creator: selection.artist,
+              image_url: selection.image_url,
+              entries: playable.map((t) => ({
+                title: t.title,
+                location: t.audio_url!,
+                duration_sec: t.duration_sec,
+                artist: t.artist ?? selection.artist,
+                album: t.album ?? (selection.source.album_id ? selection.title : null),
+                image_url: t.image_url,
+                info_url: `${config.contentDomain}/details/${t.id}`,
+              })),
+            }, format)
+
+            const base = { format, title, tracks: playable.length, skipped, ...truncation(selection) }
+            if (!root) return jsonResult({ ...base, content })
+
+            const file = path.posix.join(EXPORT_ROOT, 'playlists', `${sanitizeFileName(title)}.${format}`)
+            await writeWorkspaceFile(root, file, content)
+            return jsonResult({
+              ...base,
+              path: file,
+              message: `Wrote ${playable.length}-track ${format.toUpperCase()} playlist to ${file}.`,
+            })
+          } catch (err) { throw wrapError(err) }
+        },
+      },
+      // --- Export Lyrics ---
+      {
+        name: 'musicmation_export_lyrics',
+        label: 'Export Lyrics',
+        description:
+          'Export a track\'s lyrics with timestamps as LRC (karaoke displays, music players) and/or WebVTT ' +
+          '(video subtitles). Uses word/line alignment when the track has it (Sonauto with align_lyrics: true); ' +
+          'otherwise timings are estimated by splitting the duration evenly across the [Verse]/[Chorus] sections ' +
+          '— check timing in the result ("aligned" or "estimated"). ' +
+          `Written to ${EXPORT_ROOT}/lyrics/ in the workspace by default, or returned inline.`,
+
+        parameters: {
+          type: 'object',
+          properties: {
+            track_id: { type: 'string', description: 'Track whose lyrics to export' },
+            formats: {
+              type: 'array',
+              items: { type: 'string', enum: LYRICS_FORMATS },
+              minItems: 1,
+              uniqueItems: true,
+              description: 'Formats to produce (default: both)',
+            },
+            destination: {
+              type: 'string',
+              enum: ['workspace', 'inline'],
+              description: 'workspace = write files (default when a workspace exists); inline = return the content',
+            },
+          },
+          required: ['track_id'],
+          additionalProperties: false,
+        },
+
+        async execute(_id: string, params: Record<string, unknown>) {
+          try {
+            const formats = (params.formats as LyricsFormat[] | undefined) ?? [...LYRICS_FORMATS]
+            const destination = (params.destination as string | undefined) ?? (ctx.workspaceDir ? 'workspace' : 'inline')
+            const root = destination === 'workspace' ? requireWorkspace(ctx.workspaceDir) : null
+
+            const track = (await queryOptional<LyricsTrack[]>(client, 'sunoma_items', filter()
+              .eq('id', params.track_id as string)
+              .select('id', 'title', 'artist', 'album', 'duration_sec', 'transcript', 'lyrics_alignment', 'deleted_at')
+              .build()))?.[0]
+            if (!track || track.deleted_at) throw new CynapsApiError('Track not found', 404, 'TRACK_NOT_FOUND')
+
+            const sections = parseTranscript(track.transcript ?? '')
+            if (!sections.some((s) => s.lines.length > 0)) {
+              throw new CynapsApiError('Track has no lyrics (instrumental or not written yet)', 422, 'NO_LYRICS')
+            }
+            const alignment = Array.isArray(track.lyrics_alignment) ? track.lyrics_alignment : []
+            const timing = alignment.length > 0 ? 'aligned' : 'estimated'
+            if (timing === 'estimated' && !track.duration_sec) {
+              throw new CynapsApiError(
+                'Track has no alignment data and no duration yet — wait for generation to finish',
+                409,
+                'NO_DURATION',
+              )
+            }
+            const cues = timing === 'aligned'
+              ? cuesFromAlignment(sections, alignment)
+              : estimateCues(sections, track.duration_sec!)
+
+            const content: Partial<Record<LyricsFormat, string>> = {}
+            for (const format of formats) {
+              content[format] = format === 'lrc' ? renderLrc(cues, track) : renderVtt(cues)
+            }
+
+            const base = { track_id: track.id, title: track.title, timing, lines: cues.length }
+            if (!root) return jsonResult({ ...base, content })
+
+            const stem = sanitizeFileName(track.title)
+            const files: string[] = []
+            for (const format of formats) {
+              const file = path.posix.join(EXPORT_ROOT, 'lyrics', `${stem}.${format}`)
+              await writeWorkspaceFile(root, file, content[format]!)
+              files.push(file)
+            }
+            return jsonResult({
+              ...base,
+              files,
+              message: `Wrote ${cues.length} ${timing} lyric line(s) to ${files.join(', ')}.` +
+                (timing === 'estimated' ? ' Timings are an even split per section, not aligned to the vocals.' : ''),
+            })
+          } catch (err) { throw wrapError(err) }
+        },
+      },
+      // --- Export Release ---
+      {
+        name: 'musicmation_export_release',
+        label: 'Export Release',
+        description:
+          'Assemble an album into a release package for a distributor, under ' +
+          `${EXPORT_ROOT}/releases/<album>/ in the workspace: tracks.csv + tracks.json (track sheet with empty ISRC ` +
+          'placeholders), tags.json (ID3v2.4 frames to embed per file), the cover (checked: square, RGB, ' +
+          'JPEG/PNG, ≥1400px, 3000px recommended), the audio, and validation.json listing missing required ' +
+          'fields per track (artist, composer, copyright, genre, audio). Fill gaps with musicmation_update_item and re-run until ready is true.',
+
+        parameters: {
+          type: 'object',
+          properties: {
+            album_id: { type: 'string', description: 'Album to package (dramaturgy order)' },
+            release_date: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'Planned release date (YYYY-MM-DD)' },
+            label: { type: 'string', maxLength: 200, description: 'Label name (default: none — self-released)' },
+            genre: { type: 'string', maxLength: 100, description: 'Release genre, used for tracks without their own' },
+            include_audio: { type: 'boolean', default: true, description: 'Download the audio files into the package' },
+          },
+          required: ['album_id'],
+          additionalProperties: false,
+        },
+
+        async execute(_id: string, params: Record<string, unknown>) {
+          try {
+            const root = requireWorkspace(ctx.workspaceDir)
+            const selection = await resolveSelection(client, { album_id: params.album_id }, RELEASE_COLUMNS)
+            const tracks = selection.tracks.map((t) => ({ ...t, genre: t.genre || t.tags_genre?.[0] || null }))
+            const release: ReleaseInfo = {
+              title: selection.title ?? 'Untitled Release',
+              artist: selection.artist,
+              label: (params.label as string) || null,
+              release_date: (params.release_date as string) || null,
+              genre: (params.genre as string) || null,
+            }
+            const directory = path.posix.join(EXPORT_ROOT, 'releases', sanitizeFileName(release.title))
+            const dirPath = resolveInside(root, directory)
+
+            let artwork: ArtworkCheck
+            if (!selection.image_url) {
+              artwork = checkArtwork(null, null, 'Album has no artwork')
+            } else {
+              try {
+                const cover = await fetchPublicFile(selection.image_url, download)
+                const file = `cover.${extensionFor(selection.image_url, cover.contentType, 'jpg')}`
+                await writeWorkspaceFile(root, path.posix.join(directory, file), cover.body)
+                artwork = checkArtwork(file, readImageInfo(cover.body))
+              } catch (err) {
+                artwork = checkArtwork(null, null, `Artwork download failed: ${wrapError(err).userMessage}`)
+              }
+            }
+
+            const audioFiles = new Map<string, string>()
+            const failed: Array<{ track_id: string; error: string }> = []
+            if (params.include_audio !== false) {
+              const names = new NameAllocator()
+              const pad = Math.max(2, String(tracks.length).length)
+              const jobs = tracks.flatMap((track, i) => track.status === 'COMPLETE' && track.audio_url
+                ? [{
+                  track,
+                  file: names.allocate(
+                    `${String(i + 1).padStart(pad, '0')} - ${sanitizeFileName(track.title)}`,
+                    extensionFor(track.audio_url, null, 'mp3'),
+                  ),
+                }]
+                : [])
+              const outcomes = await mapChunks(jobs, 1, DOWNLOAD_CONCURRENCY, async ([job]) =>
+                downloadToFile(job.track.audio_url!, path.join(dirPath, job.file), download))
+              for (const o of outcomes) {
+                const job = o.items[0]
+                if (o.ok) audioFiles.set(job.track.id, job.file)
+                else failed.push({ track_id: job.track.id, error: o.error.userMessage })
+              }
+            }
+
+            const rows = buildTrackSheet(release, tracks, audioFiles)
+            const report = validateRelease(release, rows, tracks, artwork, {
+              missing: selection.missing,
+              trashed: selection.trashed,
+              failed_downloads: failed,
+            })
+            const files = {
+              'tracks.csv': renderTrackSheetCsv(rows),
+              'tracks.json': JSON.stringify({ release: { ...release, upc: null }, tracks: rows }, null, 2) + '\n',
+              'tags.json': JSON.stringify(buildTagSpec(rows, release, artwork.file), null, 2) + '\n',
+              'validation.json': JSON.stringify(report, null, 2) + '\n',
+            }
+            for (const [name, content] of Object.entries(files)) {
+              await writeWorkspaceFile(root, path.posix.join(directory, name), content)
+            }
+
+            const incomplete = report.tracks.filter((t) => t.missing.length > 0)
+            return jsonResult({
+              directory,
+              ready: report.ready,
+              tracks: rows.length,
+              audio_files: audioFiles.size,
+              release_missing: report.release.missing,
+              artwork: { file: artwork.file, errors: artwork.errors, warnings: artwork.warnings },
+              incomplete_tracks: incomplete,
+              missing_tracks: selection.missing,
+              trashed_tracks: selection.trashed,
+              failed,
+              ...truncation(selection),
+              placeholders: report.placeholders,
+              message: report.ready
+                ? `Release package for "${release.title}" is complete in ${directory}/ — assign ISRCs and a UPC before delivery.`
+                : `Release package written to ${directory}/ but not ready: ` + [
+                  report.release.missing.length ? `release is missing ${report.release.missing.join(', ')}` : '',
+                  artwork.errors.length ? `${artwork.errors.length} artwork problem(s)` : '',
+                  incomplete.length ? `${incomplete.length} track(s) missing required fields` : '',
+                  selection.missing.length ? `${selection.missing.length} album track(s) not found` : '',
+                  selection.trashed.length ? `${selection.trashed.length} album track(s) in the trash` : '',
+                  failed.length ? `${failed.length} audio download(s) failed` : '',
+                ].filter(Boolean).join('; ') + '. See validation.json.',
+            })
+          } catch (err) { throw wrapError(err) }
+        },
+      },
+    ] as AgentTool[]
+  })
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────
+
+/**
+ * Resolve exactly one of track_ids / project_id / album_id to track rows,
+ * in export order. Albums come from fetchAlbum() (dramaturgy order); their
+ * trashed tracks are listed in `trashed` rather than `missing`.
+ */
+async function resolveSelection(
+  client: CynapsApiClient,
+  params: Record<string, unknown>,
+  columns: string[] = TRACK_COLUMNS,
+): Promise<Selection> {
+  const trackIds = (params.track_ids as string[] | undefined) ?? []
+  const projectId = params.project_id as string | undefined
+  const albumId = params.album_id as string | undefined
+  if ([trackIds.length > 0, Boolean(projectId), Boolean(albumId)].filter(Boolean).length !== 1) {
+    throw new CynapsApiError('Pass exactly one of track_ids, project_id or album_id', 400, 'INVALID_SELECTION')
+  }
+
+  if (projectId) {
+    const project = (await client.query<Project[]>('sunoma_projects', filter()
+      .eq('id', projectId)
+      .select('id', 'name', 'artwork_url')
+      .build()))?.[0]
+    if (!project) throw new CynapsApiError('Project not found', 404, 'PROJECT_NOT_FOUND')
+    const tracks = await queryOptional<ExportTrack[]>(client, 'sunoma_items', filter()
+      .eq('project_id', projectId)
+      .eq('item_type', 'track')
+      .isNull('deleted_at')
+      .select(...columns)
+      .order('created_at')
+      .order('id')
+      .limit(MAX_EXPORT_TRACKS + 1)
+      .build()) || []
+    return {
+      title: project.name,
+      artist: null,
+      image_url: project.artwork_url ?? null,
+      source: { project_id: project.id, project_name: project.name },
+      tracks: tracks.slice(0, MAX_EXPORT_TRACKS),
+      missing: [],
+      trashed: [],
+      truncated: tracks.length > MAX_EXPORT_TRACKS,
+    }
+  }
+
+  let album: AlbumDetail | undefined
+  let ids = trackIds
+  let trashed: string[] = []
+  let truncated = false
+  if (albumId) {
+    const resolved = await fetchAlbum(client, albumId)
+    album = resolved.album
+    ids = resolved.trackIds.slice(0, MAX_EXPORT_TRACKS)
+    trashed = resolved.trashed
+    truncated = resolved.trackIds.length > MAX_EXPORT_TRACKS
+  }
+
+  const rows = await queryChunked(ids, (chunk) => queryOptional<ExportTrack[]>(client, 'sunoma_items', filter()
+    .in('id', chunk)
+    .isNull('deleted_at')
+    .select(...columns)
+    .build()))
+  const byId = new Map(rows.map((t) => [t.id, t]))
+  return {
+    title: album?.title ?? null,
+    artist: album?.artist ?? null,
+    image_url: album?.image_url ?? null,
+    source: album ? { album_id: album.id, album_title: album.title } : { track_ids: trackIds },
+    tracks: ids.flatMap((id) => byId.get(id) ?? []),
+    missing: ids.filter((id) => !byId.has(id)),
+    trashed,
+    truncated,
+  }
+}
+
+/** Result fields flagging a selection cut off at MAX_EXPORT_TRACKS */
+function truncation(selection: Selection) {
+  return selection.truncated
+    ? {
+      truncated: true,
+      note: `Only the first ${MAX_EXPORT_TRACKS} tracks were exported — pass the rest as track_ids in another call.`,
+    }
+    : {}
+}
+
+/**
+ * Run an in() read over `ids` in SERVER_BATCH_SIZE chunks and concatenate
+ * the rows. Any failed chunk fails the whole read — an export must not
+ * silently lose tracks.
+ */
+async function queryChunked<T>(ids: string[], read: (chunk: string[]) => Promise<T[] | null>): Promise<T[]> {
+  const outcomes = await mapChunks(ids, SERVER_BATCH_SIZE, BULK_CONCURRENCY, read)
+  return outcomes.flatMap((o) => {
+    if (!o.ok) throw o.error
+    return o.value ?? []
+  })
+}
@@ -2,8 +2,19 @@
  * Musicmation Generation Tools
  *
  * - musicmation_generate — Create a single track item and enqueue generation
+ * - musicmation_regenerate — Re-enqueue an existing item, archiving earlier takes as history
+ * - musicmation_cancel_generation — Reset QUEUED tracks to draft (status only; no provider-side cancel)
  * - musicmation_bulk_generate — Enqueue multiple existing items for generation
  * - musicmation_bulk_poll_status — Poll status for multiple tracks at once
+ * - musicmation_wait_for_completion — Block until tracks settle (backoff + deadline)
+ * - musicmation_estimate_cost — Credit cost vs. balance and daily limit (read-only)
+ *
+ * generate and bulk_generate accept dry_run: they return the same estimate
+ * and write nothing.
+ *
+ * Default provider, default project and spending caps come from the calling
+ * agent's profile (core/agents.ts). Caps are checked before anything is
+ * created or enqueued.
  *
  * NOTE: musicmation_generate explicitly constructs the POST body rather than
  * using pick(), because it renames fields (lyrics → transcript),
@@ -11,14 +22,51 @@
  * This is intentional and more secure for CREATE operations.
  */
 
-import type { OpenClawPluginApi, CynapsConfig, AgentTool, Track, EnqueueResult } from '../core/types.js'
+import type {
+  OpenClawPluginApi, CynapsConfig, AgentTool, Track, EnqueueResult, PreflightResult, SpendingCaps,
+} from '../core/types.js'
+import { assertSpendingCap, resolveAgentConfig, spendingCapIssue, spendingCapWarning } from '../core/agents.js'
 import { CynapsApiClient } from '../core/api-client.js'
+import { BULK_CONCURRENCY, SERVER_BATCH_SIZE, mapChunks, describeFailedChunks } from '../core/batch.js'
 import { CynapsApiError, wrapError } from '../core/errors.js'
+import { filter } from '../core/filter.js'
+import { newId } from '../core/ids.js'
+import { isColumnMissing, missingColumn, queryOptional } from '../core/optional-columns.js'
 import { jsonResult } from '../core/result.js'
+import { findTrashed } from '../core/trash.js'
+import { providers, describeOutput } from '../providers/index.js'
+import type { GenerationProvider } from '../providers/index.js'
+import type { GenerationPoller } from '../services/generation-poller.js'
+
+const WAIT_DEFAULT_SEC = 180
+/** One call holds the agent's turn this long at most; longer waits are repeated calls */
+const WAIT_MAX_SEC = 300
+const WAIT_INITIAL_DELAY_MS = 5_000
+const WAIT_MAX_DELAY_MS = 30_000
+
+/** Largest list the bulk tools accept; split into SERVER_BATCH_SIZE chunks */
+const BULK_MAX_TRACKS = 200
+
+/** Server statuses a regenerate must not interrupt */
+const IN_FLIGHT_STATUSES = new Set(['QUEUED', 'GENERATING'])
+
+/** Lowercased statuses a cancel came too late for */
+const STARTED_STATUSES = new Set(['generating', 'complete', 'failed'])
+
+/** Lowercased statuses after which waiting on a track is pointless */
+const SETTLED_STATUSES = new Set(['complete', 'failed', 'not_found'])
 
-export function registerMusicmationGenerateTool(api: OpenClawPluginApi, config: CynapsConfig): void {
+export function registerMusicmationGenerateTool(
+  api: OpenClawPluginApi,
+  config: CynapsConfig,
+  poller?: GenerationPoller,
+): void {
   api.registerTool((ctx) => {
     const client = CynapsApiClient.fromContext(config, ctx)
+    const agent = resolveAgentConfig(config, ctx.agentId)
+    const caps = agent.spendingCaps
+    // Remembered per enqueued track for embedders whose settle listeners report back to the conversation
+    const origin = { messageChannel: ctx.messageChannel, sessionKey: ctx.sessionKey }
 
     return [
       // --- Single Generate ---
@@ -26,9 +74,9 @@ export function registerMusicmationGenerateTool(api: OpenClawPluginApi, config:
       name: 'musicmation_generate',
       label: 'Generate Track',
       description:
-        'Generate a music track. Supports two providers: Suno (default, 2 variations) and ' +
-        'Sonauto (1 song, different style controls). Creates the track record and enqueues generation. ' +
-        'Poll for status after calling.',
+        `Generate a music track. Providers: ${providerSummary()}. ` +
+        'Creates the track record and enqueues generation. ' +
+        'Call musicmation_wait_for_completion after calling.',
 
       parameters: {
         type: 'object',
@@ -50,7 +98,9 @@ export function registerMusicmationGenerateTool(api: OpenClawPluginApi, config:
           },
           project_id: {
             type: 'string',
-            description: 'Project UUID to add the track to',
+            description: agent.defaultProjectId
+              ? `Project UUID to add the track to (default: ${agent.defaultProjectId})`
+              : 'Project UUID to add the track to',
           },
           mood: {
             type: 'string',
@@ -60,67 +110,35 @@ export function registerMusicmationGenerateTool(api: OpenClawPluginApi, config:
             type: 'string',
             description: 'Track genre (electronic, hip-hop, jazz, etc.)',
           },
-          provider: {
-            type: 'string',
-            enum: ['suno', 'sonauto'],
-            default: 'suno',
-            description: 'Music generation provider. Suno = 2 variations, more features. Sonauto = 1 song, 100 credits/song.',
-          },
-          // --- Suno-specific params ---
-          model: {
-            type: 'string',
-            enum: ['V4', 'V5'],
-            default: 'V5',
-            description: 'Suno only. Model version. V5 = higher quality (default). V4 = faster.',
-          },
-          weirdness: {
-            type: 'number',
-            minimum: 0,
-            maximum: 1,
-            default: 0.5,
-            description: 'Suno only. Creativity/randomness (0 = conservative, 1 = experimental). Default 0.5.',
-          },
-          style_weight: {
-            type: 'number',
-            minimum: 0,
-            maximum: 1,
-            default: 0.83,
-            description: 'Suno only. How closely to follow the style prompt (0 = loose, 1 = strict). Default 0.83.',
-          },
-          // --- Sonauto-specific params ---
-          prompt_strength: {
-            type: 'number',
-            minimum: 0,
-            maximum: 5,
-            default: 2.0,
-            description: 'Sonauto only. How strongly tags/prompt influence output (0 = ignore, 5 = strict). Default 2.0.',
-          },
-          output_format: {
-            type: 'string',
-            enum: ['mp3', 'flac', 'wav', 'ogg', 'm4a'],
-            default: 'ogg',
-            description: 'Sonauto only. Audio output format. Default ogg.',
-          },
-          align_lyrics: {
+          dry_run: {
             type: 'boolean',
             default: false,
-            description: 'Sonauto only. Request timestamped lyrics alignment.',
+            description: 'Only estimate credits and check limits — create and enqueue nothing',
           },
+          provider: providers.providerParameter(agent.defaultProvider),
+          // Provider-specific params (each described as "<Provider> only.")
+          ...providers.providerParameters(),
         },
         required: ['title'],
         additionalProperties: false,
       },
 
       async execute(_id: string, params: Record<string, unknown>) {
-        const provider = (params.provider as string) || 'suno'
-        const isSonauto = provider === 'sonauto'
+        const provider = providers.resolve((params.provider as string | undefined) ?? agent.defaultProvider)
+
+        if (params.dry_run === true) {
+          try {
+            const estimate = await estimateCost(client, provider, 1, params, caps)
+            return jsonResult({ dry_run: true, title: params.title, provider: provider.id, estimate, message: estimate.message })
+          } catch (err) { throw wrapError(err) }
+        }
+        try {
+          assertSpendingCap(caps, 1, provider.creditsPerGeneration(params))
+        } catch (err) { throw wrapError(err) }
 
-        // Generate track ID — DB requires explicit TEXT PRIMARY KEY, no auto-generation.
-        // Format: track_{unix_epoch}_{random_hex} (matches existing convention)
-        const timestamp = Math.floor(Date.now() / 1000)
-        const hex = Array.from(crypto.getRandomValues(new Uint8Array(4)))
-          .map(b => b.toString(16).padStart(2, '0')).join('')
-        const generatedId = `track_${timestamp}_${hex}`
+        // Generate track ID — DB requires explicit TEXT PRIMARY KEY, no auto-generation
+        const generatedId = newId('track')
+        const projectId = (params.project_id as string) || agent.defaultProjectId || null
 
         // Step 1: Create the track item
         // Explicit body construction — renames fields, applies defaults (not a pick() use case)
@@ -131,12 +149,12 @@ export function registerMusicmationGenerateTool(api: OpenClawPluginApi, config:
             title: params.title as string,
             transcript: (params.lyrics as string) || '',
             style_tags: (params.style_tags as string) || '',
-            project_id: (params.project_id as string) || null,
+            project_id: projectId,
             item_type: 'track',
             mood: (params.mood as string) || null,
             genre: (params.genre as string) || null,
             status: 'draft',
-            generation_source: isSonauto ? 'sonauto' : 'suno',
+            generation_source: provider.id,
           },
         })
 
@@ -147,35 +165,17 @@ export function registerMusicmationGenerateTool(api: OpenClawPluginApi, config:
 
         // Step 2: Enqueue generation — route by provider
         try {
-          const endpoint = isSonauto ? 'sonauto-generation-enqueue' : 'suno-generation-enqueue'
-          const enqueueBody = isSonauto
-            ? {
-                trackIds: [trackId],
-                projectId: (params.project_id as string) || null,
-                generationsRequested: 1,
-                prompt_strength: params.prompt_strength ?? 2.0,
-                output_format: (params.output_format as string) || 'ogg',
-                align_lyrics: params.align_lyrics ?? false,
-              }
-            : {
-                trackIds: [trackId],
-                projectId: (params.project_id as string) || null,
-                generationsRequested: 1,
-                model: (params.model as string) || 'V5',
-                weirdness: params.weirdness ?? 0.5,
-                styleWeight: params.style_weight ?? 0.83,
-              }
-
-          const result = await client.call<EnqueueResult>(endpoint, enqueueBody)
-
-          const variationMsg = isSonauto ? '1 song' : '2 variations'
+          const result = await client.call<EnqueueResult>(provider.endpoint,
+            provider.buildEnqueueBody([trackId], { ...params, project_id: projectId }))
+          if (result.enqueued > 0) poller?.track([trackId], origin)
+
           return jsonResult({
             track_id: trackId,
-            provider,
+            provider: provider.id,
             enqueued: result.enqueued > 0,
             tier: result.tier,
             message: result.enqueued > 0
-              ? `Track "${params.title}" enqueued via ${provider}. Generating ${variationMsg} — takes 30-90 seconds.`
+              ? `Track "${params.title}" enqueued via ${provider.id}. Generating ${describeOutput(provider)} — takes 30-90 seconds.`
               : `Track created but generation failed. ${result.skipped} skipped.`,
           })
         } catch (err) {
@@ -183,24 +183,198 @@ export function registerMusicmationGenerateTool(api: OpenClawPluginApi, config:
           const wrapped = wrapError(err)
           return jsonResult({
             track_id: trackId,
-            provider,
+            provider: provider.id,
             enqueued: false,
             tier: 'unknown',
-            message: `Track created (${trackId}) but ${provider} generation failed: ${wrapped.userMessage}`,
+            message: `Track created (${trackId}) but ${provider.id} generation failed: ${wrapped.userMessage}`,
           })
         }
       },
       },
 
+      // --- Regenerate ---
+      {
+        name: 'musicmation_regenerate',
+        label: 'Regenerate Track',
+        description:
+          'Re-run generation for an existing track — after a failure, or when the user dislikes every take. ' +
+          'Optionally change style_tags, lyrics or provider settings (weirdness, prompt_strength, …). ' +
+          'The current takes are kept as history variations under the same track (superseded_at set), ' +
+          'so earlier attempts stay listenable. Uses the track\'s original provider. ' +
+          'Call musicmation_wait_for_completion on the track_id afterwards.',
+
+        parameters: {
+          type: 'object',
+          properties: {
+            track_id: { type: 'string', description: 'Track to regenerate (the parent track, not a variation)' },
+            style_tags: { type: 'string', description: 'New style prompt (default: keep the current one)', maxLength: 2000 },
+            lyrics: { type: 'string', description: 'New lyrics (default: keep the current ones)', maxLength: 5000 },
+            // Provider-specific params (each described as "<Provider> only.")
+            ...providers.providerParameters(),
+          },
+          required: ['track_id'],
+          additionalProperties: false,
+        },
+
+        async execute(_id: string, params: Record<string, unknown>) {
+          try {
+            const trackId = params.track_id as string
+            const items = await queryOptional<RegenerateSource[]>(client, 'sunoma_items', filter()
+              .eq('id', trackId)
+              .select('id', 'title', 'status', 'item_type', 'parent_id', 'project_id', 'generation_source',
+                'audio_url', 'image_url', 'duration_sec', 'generation_attempt', 'deleted_at')
+              .build())
+            const item = items?.[0]
+
+            if (!item) {
+              return jsonResult({ error: 'TRACK_NOT_FOUND', track_id: trackId, message: 'Track not found.' })
+            }
+            if (item.item_type === 'variation') {
+              return jsonResult({
+                error: 'NOT_A_TRACK',
+                track_id: trackId,
+                parent_id: item.parent_id,
+                message: 'This is a variation. Regenerate its parent track instead.',
+              })
+            }
+            if (item.deleted_at) {
+              return jsonResult({ error: 'ITEM_TRASHED', track_id: trackId, message: 'Track is in the trash. Restore it first.' })
+            }
+            if (IN_FLIGHT_STATUSES.has(item.status)) {
+              return jsonResult({
+                error: 'ALREADY_GENERATING',
+                track_id: trackId,
+                status: item.status,
+                message: 'Track is still generating. Wait for it to finish before regenerating.',
+              })
+            }
+
+            // Rows predating generation_source were all Suno
+            const provider = providers.resolve(item.generation_source ?? undefined)
+            assertSpendingCap(caps, 1, provider.creditsPerGeneration(params))
+            if (isColumnMissing(client, 'generation_attempt')) return historyUnsupported(trackId)
+            const attempt = item.generation_attempt ?? 1
+            let history: number
+            try {
+              history = await archiveTakes(client, item, attempt)
+            } catch (err) {
+              // The archive PATCH fails first, before anything is changed
+              if (missingColumn(err)) return historyUnsupported(trackId)
+              throw err
+            }
+
+            // Back to draft so the enqueue endpoint accepts it again
+            await client.query('sunoma_items', filter().eq('id', trackId).build(), {
+              method: 'PATCH',
+              body: {
+                status: 'draft',
+                audio_url: null,
+                image_url: null,
+                duration_sec: null,
+                generation_attempt: attempt + 1,
+                ...(params.style_tags !== undefined ? { style_tags: params.style_tags } : {}),
+                ...(params.lyrics !== undefined ? { transcript: params.lyrics } : {}),
+              },
+            })
+
+            const base = { track_id: trackId, provider: provider.id, attempt: attempt + 1, archived_takes: history }
+            try {
+              const result = await client.call<EnqueueResult>(provider.endpoint,
+                provider.buildEnqueueBody([trackId], { ...params, project_id: item.project_id }))
+              if (result.enqueued > 0) poller?.track([trackId], origin)
+
+              return jsonResult({
+                ...base,
+                enqueued: result.enqueued > 0,
+                tier: result.tier,
+                message: result.enqueued > 0
+                  ? `"${item.title}" re-enqueued via ${provider.id} (attempt ${attempt + 1}). ` +
+                    `${history} earlier take(s) kept as history. Generating ${describeOutput(provider)} — takes 30-90 seconds.`
+                  : `Track reset but generation was skipped (check tier limits). Call musicmation_regenerate again to retry.`,
+              })
+            } catch (err) {
+              // Takes are archived and the track is a draft — a retry picks up from here
+              return jsonResult({
+                ...base,
+                enqueued: false,
+                message: `Earlier takes archived but ${provider.id} generation failed: ${wrapError(err).userMessage}. ` +
+                  'Call musicmation_regenerate again to retry.',
+              })
+            }
+          } catch (err) { throw wrapError(err) }
+        },
+      },
+
+      // --- Cancel Generation ---
+      {
+        name: 'musicmation_cancel_generation',
+        label: 'Cancel Generation',
+        description:
+          'Set tracks that are still QUEUED back to draft (e.g. the user spotted wrong lyrics right after enqueuing). ' +
+          'Only the track status changes: the job already in the provider queue is not cancelled and credits charged ' +
+          'at enqueue are not refunded. Fix reset tracks with musicmation_update_item and enqueue again with ' +
+          'musicmation_bulk_generate. Tracks that already started generating are left alone and listed in already_started.',
+
+        parameters: {
+          type: 'object',
+          properties: {
+            track_ids: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Track IDs to reset to draft',
+              minItems: 1,
+              maxItems: BULK_MAX_TRACKS,
+            },
+          },
+          required: ['track_ids'],
+          additionalProperties: false,
+        },
+
+        async execute(_id: string, params: Record<string, unknown>) {
+          try {
+            const trackIds = [...new Set(params.track_ids as string[])]
+            if (!trackIds.length) {
+              return jsonResult({ error: 'track_ids array is empty', reset_to_draft: [] })
+            }
+
+            const outcomes = await mapChunks(trackIds, SERVER_BATCH_SIZE, BULK_CONCURRENCY,
+              (ids) => resetQueuedToDraft(client, ids))
+            const first = outcomes[0]
+            if (outcomes.every((o) => !o.ok) && !first.ok) throw first.error
+
+            const reset = outcomes.flatMap((o) => o.ok ? o.value.reset : [])
+            const others = outcomes.flatMap((o) => o.ok ? o.value.others : [])
+            const alreadyStarted = others.filter((t) => STARTED_STATUSES.has(t.status))
+            const notQueued = others.filter((t) => !STARTED_STATUSES.has(t.status))
+            const failedChunks = describeFailedChunks(outcomes)
+            // Nothing left to report on for these — don't emit a completion later
+            poller?.untrack(reset)
+
+            return jsonResult({
+              reset_to_draft: reset,
+              already_started: alreadyStarted,
+              not_queued: notQueued,
+              ...(failedChunks.length ? { failed_chunks: failedChunks } : {}),
+              message: `${reset.length} of ${trackIds.length} track(s) set back to draft.` +
+                (alreadyStarted.length ? ` ${alreadyStarted.length} had already started and will finish.` : '') +
+                (notQueued.length ? ` ${notQueued.length} weren't queued.` : '') +
+                (reset.length ? ' Their provider queue jobs were not cancelled and credits were not refunded.' : ''),
+            })
+          } catch (err) { throw wrapError(err) }
+        },
+      },
+
       // --- Bulk Generate ---
       {
         name: 'musicmation_bulk_generate',
         label: 'Bulk Generate Tracks',
         description:
           'Enqueue multiple existing track items for generation in one batch. ' +
-          'Supports Suno (default, 2 variations each) and Sonauto (1 song each). ' +
-          'Items must already exist (created via musicmation_create_item). Max 20 per batch. ' +
-          'Use musicmation_bulk_poll_status to check progress.',
+          `Providers: ${providerSummary()}. ` +
+          'Items must already exist (created via musicmation_create_item). ' +
+          `Up to ${BULK_MAX_TRACKS} IDs — larger lists are split into batches of ${SERVER_BATCH_SIZE}; ` +
+          'a failed batch is listed in failed_chunks while the rest still enqueue. ' +
+          'Use musicmation_wait_for_completion (or musicmation_bulk_poll_status) to check progress.',
 
         parameters: {
           type: 'object',
@@ -209,58 +383,20 @@ export function registerMusicmationGenerateTool(api: OpenClawPluginApi, config:
               type: 'array',
               items: { type: 'string' },
               description: 'Array of track/item IDs to enqueue for generation',
-              maxItems: 20,
+              maxItems: BULK_MAX_TRACKS,
             },
             project_id: {
               type: 'string',
               description: 'Project ID (used for style resolution)',
             },
-            provider: {
-              type: 'string',
-              enum: ['suno', 'sonauto'],
-              default: 'suno',
-              description: 'Music generation provider. Suno = 2 variations. Sonauto = 1 song, 100 credits/song.',
-            },
-            // --- Suno-specific params ---
-            model: {
-              type: 'string',
-              enum: ['V4', 'V5'],
-              default: 'V5',
-              description: 'Suno only. Model version. V5 = higher quality (default). V4 = faster.',
-            },
-            weirdness: {
-              type: 'number',
-              minimum: 0,
-              maximum: 1,
-              default: 0.5,
-              description: 'Suno only. Creativity/randomness (0 = conservative, 1 = experimental). Default 0.5.',
-            },
-            style_weight: {
-              type: 'number',
-              minimum: 0,
-              maximum: 1,
-              default: 0.83,
-              description: 'Suno only. How closely to follow the style prompt (0 = loose, 1 = strict). Default 0.83.',
-            },
-            // --- Sonauto-specific params ---
-            prompt_strength: {
-              type: 'number',
-              minimum: 0,
-              maximum: 5,
-              default: 2.0,
-              description: 'Sonauto only. How strongly tags/prompt influence output (0 = ignore, 5 = strict). Default 2.0.',
-            },
-            output_format: {
-              type: 'string',
-              enum: ['mp3', 'flac', 'wav', 'ogg', 'm4a'],
-              default: 'ogg',
-              description: 'Sonauto only. Audio output format. Default ogg.',
-            },
-            align_lyrics: {
+            dry_run: {
               type: 'boolean',
               default: false,
-              description: 'Sonauto only. Request timestamped lyrics alignment.',
+              description: 'Only estimate credits and check limits — create and enqueue nothing',
             },
+            provider: providers.providerParameter(agent.defaultProvider),
+            // Provider-specific params (each described as "<Provider> only.")
+            ...providers.providerParameters(),
           },
           required: ['track_ids'],
           additionalProperties: false,
@@ -268,52 +404,111 @@ export function registerMusicmationGenerateTool(api: OpenClawPluginApi, config:
 
         async execute(_id: string, params: Record<string, unknown>) {
           try {
-            const trackIds = params.track_ids as string[]
+            const trackIds = [...new Set(params.track_ids as string[])]
             if (!trackIds.length) {
               return jsonResult({ error: 'track_ids array is empty', enqueued: 0 })
             }
 
-            const provider = (params.provider as string) || 'suno'
-            const isSonauto = provider === 'sonauto'
-            const endpoint = isSonauto ? 'sonauto-generation-enqueue' : 'suno-generation-enqueue'
-            const enqueueBody = isSonauto
-              ? {
-                  trackIds,
-                  projectId: (params.project_id as string) || null,
-                  generationsRequested: 1,
-                  prompt_strength: params.prompt_strength ?? 2.0,
-                  output_format: (params.output_format as string) || 'ogg',
-                  align_lyrics: params.align_lyrics ?? false,
-                }
-              : {
-                  trackIds,
-                  projectId: (params.project_id as string) || null,
-                  generationsRequested: 1,
-                  model: (params.model as string) || 'V5',
-                  weirdness: params.weirdness ?? 0.5,
-                  styleWeight: params.style_weight ?? 0.83,
-                }
-
-            const result = await client.call<EnqueueResult>(endpoint, enqueueBody)
-
-            const variationMsg = isSonauto
-              ? `Each produces 1 song (100 credits each)`
-              : `Each produces 2 variations`
+            const provider = providers.resolve((params.provider as string | undefined) ?? agent.defaultProvider)
+            if (params.dry_run === true) {
+              const estimate = await estimateCost(client, provider, trackIds.length, params, caps)
+              return jsonResult({ dry_run: true, provider: provider.id, total: trackIds.length, estimate, message: estimate.message })
+            }
+            const perGeneration = provider.creditsPerGeneration(params)
+            assertSpendingCap(caps, trackIds.length, perGeneration !== null ? perGeneration * trackIds.length : null)
+
+            const outcomes = await mapChunks(trackIds, SERVER_BATCH_SIZE, BULK_CONCURRENCY, async (ids) => {
+              // The enqueue endpoint doesn't know about the trash — keep trashed items out
+              const trashed = await findTrashed(client, ids)
+              const live = ids.filter((id) => !trashed.has(id))
+              if (live.length === 0) return { enqueued: 0, skipped: 0, tier: undefined, trashed: [...trashed] }
+
+              const result = await client.call<EnqueueResult>(provider.endpoint,
+                provider.buildEnqueueBody(live, params))
+              // The enqueue response only carries counts, so watch the whole chunk —
+              // skipped IDs never reach a generating state and age out of the poller.
+              if (result.enqueued > 0) poller?.track(live, origin)
+              return { ...result, trashed: [...trashed] }
+            })
+            // Nothing reached the server — surface the error as before chunking
+            const first = outcomes[0]
+            if (outcomes.every((o) => !o.ok) && !first.ok) throw first.error
+
+            let enqueued = 0
+            let skipped = 0
+            let tier: string | undefined
+            const trashed: string[] = []
+            for (const o of outcomes) {
+              if (!o.ok) continue
+              enqueued += o.value.enqueued
+              skipped += o.value.skipped
+              tier ??= o.value.tier
+              trashed.push(...o.value.trashed)
+            }
+            const failedChunks = describeFailedChunks(outcomes)
+            const notAttempted = failedChunks.reduce((n, c) => n + c.ids.length, 0)
+
+            const credits = provider.creditsPerGeneration(params)
+            const variationMsg = `Each produces ${describeOutput(provider)}` +
+              (credits !== null ? ` (~${credits} credits each)` : '')
+            const failureMsg = failedChunks.length
+              ? ` ${failedChunks.length} of ${outcomes.length} batches failed (${notAttempted} tracks not enqueued) — ` +
+                'retry those IDs from failed_chunks.'
+              : ''
 
             return jsonResult({
-              provider,
-              enqueued: result.enqueued,
-              skipped: result.skipped,
+              provider: provider.id,
+              enqueued,
+              skipped,
               total: trackIds.length,
-              tier: result.tier,
-              message: result.enqueued > 0
-                ? `${result.enqueued} track(s) enqueued via ${provider}. ${variationMsg} — takes 30-90 seconds per track.`
-                : `No tracks enqueued. ${result.skipped} skipped (check tier limits or track status).`,
+              tier,
+              ...(trashed.length ? { trashed } : {}),
+              ...(outcomes.length > 1 ? { chunks: outcomes.length } : {}),
+              ...(failedChunks.length ? { failed_chunks: failedChunks } : {}),
+              message: (enqueued > 0
+                ? `${enqueued} track(s) enqueued via ${provider.id}. ${variationMsg} — takes 30-90 seconds per track.`
+                : `No tracks enqueued. ${skipped} skipped (check tier limits or track status).`) +
+                (trashed.length ? ` ${trashed.length} in the trash were left out — restore them first.` : '') +
+                failureMsg,
             })
           } catch (err) { throw wrapError(err) }
         },
       },
 
+      // --- Estimate Cost ---
+      {
+        name: 'musicmation_estimate_cost',
+        label: 'Estimate Generation Cost',
+        description:
+          'Estimate the credits a generation batch will cost and check it against the current credit ' +
+          'balance and daily limit. Read-only — nothing is created or enqueued. ' +
+          'Call before large bulk generations and tell the user the cost.',
+
+        parameters: {
+          type: 'object',
+          properties: {
+            count: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 500,
+              default: 1,
+              description: 'Number of tracks (generation requests) to estimate',
+            },
+            provider: providers.providerParameter(agent.defaultProvider),
+            ...providers.providerParameters(),
+          },
+          additionalProperties: false,
+        },
+
+        async execute(_id: string, params: Record<string, unknown>) {
+          try {
+            const provider = providers.resolve((params.provider as string | undefined) ?? agent.defaultProvider)
+            const count = (params.count as number | undefined) ?? 1
+            return jsonResult(await estimateCost(client, provider, count, params, caps))
+          } catch (err) { throw wrapError(err) }
+        },
+      },
+
       // --- Bulk Poll Status ---
       {
         name: 'musicmation_bulk_poll_status',
@@ -329,7 +524,7 @@ export function registerMusicmationGenerateTool(api: OpenClawPluginApi, config:
               type: 'array',
               items: { type: 'string' },
               description: 'Array of track IDs to poll',
-              maxItems: 20,
+              maxItems: BULK_MAX_TRACKS,
             },
           },
           required: ['track_ids'],
@@ -343,78 +538,74 @@ export function registerMusicmationGenerateTool(api: OpenClawPluginApi, config:
               return jsonResult({ error: 'track_ids array is empty' })
             }
 
-            // Fetch all tracks in one query
-            const tracks = await client.query<Track[]>('sunoma_items', {
-              'id': `in.(${trackIds.join(',')})`,
-              'select': 'id,title,status,audio_url,image_url,duration_sec,generation_source',
-            })
+            return jsonResult(await fetchBulkStatus(client, config, trackIds, poller))
+          } catch (err) { throw wrapError(err) }
+        },
+      },
 
-            const trackMap = new Map((tracks || []).map(t => [t.id, t]))
+      // --- Wait For Completion ---
+      {
+        name: 'musicmation_wait_for_completion',
+        label: 'Wait For Completion',
+        description:
+          'Block until the given tracks finish generating (complete or failed) or max_wait_sec passes. ' +
+          'Polls internally with exponential backoff, so one call replaces repeated poll_status calls. ' +
+          'Returns the same shape as musicmation_bulk_poll_status plus timed_out and waited_sec; ' +
+          'if it timed out, call it again.',
 
-            // Fetch all variations for completed tracks
-            const completedIds = (tracks || [])
-              .filter(t => t.status === 'COMPLETE')
-              .map(t => t.id)
+        parameters: {
+          type: 'object',
+          properties: {
+            track_ids: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Track IDs to wait for',
+              minItems: 1,
+              maxItems: BULK_MAX_TRACKS,
+            },
+            max_wait_sec: {
+              type: 'number',
+              minimum: 10,
+              maximum: WAIT_MAX_SEC,
+              default: WAIT_DEFAULT_SEC,
+              description: `Give up after this many seconds and return current progress. Default ${WAIT_DEFAULT_SEC}.`,
+            },
+          },
+          required: ['track_ids'],
+          additionalProperties: false,
+        },
 
-            let variationMap = new Map<string, Track[]>()
-            if (completedIds.length > 0) {
-              const variations = await client.query<Track[]>('sunoma_items', {
-                'parent_id': `in.(${completedIds.join(',')})`,
-                'item_type': 'eq.variation',
-                'select': 'id,title,status,audio_url,image_url,duration_sec,variation_index,parent_id',
-                'order': 'variation_index.asc',
-              })
-              for (const v of (variations || [])) {
-                const parentId = (v as unknown as Record<string, unknown>).parent_id as string
-                if (!variationMap.has(parentId)) variationMap.set(parentId, [])
-                variationMap.get(parentId)!.push(v)
-              }
+        async execute(_id: string, params: Record<string, unknown>, signal?: AbortSignal) {
+          try {
+            const trackIds = params.track_ids as string[]
+            if (!trackIds.length) {
+              return jsonResult({ error: 'track_ids array is empty' })
             }
 
-            // Build per-track results
-            const results = trackIds.map(id => {
-              const track = trackMap.get(id)
-              if (!track) return { track_id: id, status: 'not_found' }
-
-              const status = (track.status || 'unknown').toLowerCase()
-              const variations = variationMap.get(id) || []
-
-              return {
-                track_id: id,
-                title: track.title,
-                status,
-                ...(status === 'complete' ? {
-                  audio_url: track.audio_url,
-                  image_url: track.image_url,
-                  duration_sec: track.duration_sec,
-                  variations: variations.map(v => ({
-                    id: v.id,
-                    title: v.title,
-                    audio_url: v.audio_url,
-                    image_url: v.image_url,
-                    listen_url: `${config.contentDomain}/details/${v.id}`,
-                  })),
-                  listen_url: `${config.contentDomain}/details/${id}`,
-                } : {}),
-              }
-            })
+            const maxWaitSec = Math.min((params.max_wait_sec as number) || WAIT_DEFAULT_SEC, WAIT_MAX_SEC)
+            const startedAt = Date.now()
+            const deadline = startedAt + maxWaitSec * 1_000
+            let delay = WAIT_INITIAL_DELAY_MS
 
-            const completed = results.filter(r => r.status === 'complete').length
-            const generating = results.filter(r => r.status === 'generating').length
-            const queued = results.filter(r => r.status === 'queued').length
+            let status = await fetchBulkStatus(client, config, trackIds, poller)
+            if (!status.summary.all_settled && poller?.running) {
+              // One shared poll loop for every waiting call instead of a loop per call
+              const open = status.tracks.filter((t) => !SETTLED_STATUSES.has(t.status)).map((t) => t.track_id)
+              await poller.waitFor(open, deadline - Date.now(), signal)
+              if (!signal?.aborted) status = await fetchBulkStatus(client, config, trackIds, poller)
+            }
+            while (!status.summary.all_settled && Date.now() < deadline && !signal?.aborted) {
+              await sleep(Math.min(delay, deadline - Date.now()), signal)
+              delay = Math.min(delay * 2, WAIT_MAX_DELAY_MS)
+              if (!signal?.aborted) status = await fetchBulkStatus(client, config, trackIds, poller)
+            }
 
+            // A cancelled run stops waiting at once and reports the last progress seen
             return jsonResult({
-              summary: {
-                total: trackIds.length,
-                completed,
-                generating,
-                queued,
-                all_done: completed === trackIds.length,
-              },
-              tracks: results,
-              message: completed === trackIds.length
-                ? `All ${completed} tracks complete!`
-                : `${completed}/${trackIds.length} done, ${generating} generating, ${queued} queued...`,
+              ...status,
+              timed_out: !status.summary.all_settled && !signal?.aborted,
+              ...(signal?.aborted ? { cancelled: true } : {}),
+              waited_sec: Math.round((Date.now() - startedAt) / 1_000),
             })
           } catch (err) { throw wrapError(err) }
         },
@@ -422,3 +613,296 @@ export function registerMusicmationGenerateTool(api: OpenClawPluginApi, config:
     ] as AgentTool[]
   })
 }
+
+// ─── Helpers ──────────────────────────────────────────────────────
+
+/**
+ * Fetch status for tracks plus variations for completed ones, in
+ * SERVER_BATCH_SIZE chunks. Tracks the poller read within its current
+ * interval and that are still in progress are answered from there without
+ * a query. A failed chunk marks its tracks `unavailable` (not settled, so
+ * waiting keeps retrying them); if every chunk fails the first error is
+ * thrown. Shared by musicmation_bulk_poll_status and
+ * musicmation_wait_for_completion.
+ */
+async function fetchBulkStatus(
+  client: CynapsApiClient,
+  config: CynapsConfig,
+  trackIds: string[],
+  poller?: GenerationPoller,
+) {
+  const known = new Map<string, Track>()
+  for (const id of trackIds) {
+    const track = poller?.current(id)
+    if (track) known.set(id, track)
+  }
+
+  const outcomes = await mapChunks(trackIds.filter((id) => !known.has(id)), SERVER_BATCH_SIZE, BULK_CONCURRENCY,
+    (ids) => fetchChunkStatus(client, config, ids))
+  const first = outcomes[0]
+  if (first && outcomes.every((o) => !o.ok) && !first.ok) throw first.error
+
+  const fetched = new Map(outcomes.flatMap((o) => o.ok
+    ? o.value
+    : o.items.map((id) => ({ track_id: id, status: 'unavailable', error: o.error.userMessage })))
+    .map((r): [string, TrackStatus] => [r.track_id, r]))
+  const results = trackIds.map((id): TrackStatus => {
+    const track = known.get(id)
+    return track
+      ? { track_id: id, title: track.title, status: (track.status || 'unknown').toLowerCase() }
+      : fetched.get(id)!
+  })
+  const failedChunks = describeFailedChunks(outcomes)
+
+  const completed = results.filter(r => r.status === 'complete').length
+  const failed = results.filter(r => r.status === 'failed').length
+  const generating = results.filter(r => r.status === 'generating').length
+  const queued = results.filter(r => r.status === 'queued').length
+  const settled = results.filter(r => SETTLED_STATUSES.has(r.status)).length
+  const unavailable = results.filter(r => r.status === 'unavailable').length
+
+  return {
+    summary: {
+      total: trackIds.length,
+      completed,
+      failed,
+      generating,
+      queued,
+      all_done: completed === trackIds.length,
+      all_settled: settled === trackIds.length,
+    },
+    tracks: results,
+    ...(failedChunks.length ? { failed_chunks: failedChunks } : {}),
+    message: completed === trackIds.length
+      ? `All ${completed} tracks complete!`
+      : `${completed}/${trackIds.length} done, ${generating} generating, ${queued} queued` +
+        (failed > 0 ? `, ${failed} failed` : '') +
+        (unavailable > 0 ? `, ${unavailable} couldn't be checked (see failed_chunks)...` : '...'),
+  }
+}
+
+/** One entry of fetchBulkStatus().tracks */
+type TrackStatus = Awaited<ReturnType<typeof fetchChunkStatus>>[number] | { track_id: string; status: string; error: string }
+
+/** One chunk of fetchBulkStatus: at most SERVER_BATCH_SIZE ids */
+async function fetchChunkStatus(client: CynapsApiClient, config: CynapsConfig, trackIds: string[]) {
+  // Fetch the chunk's tracks in one query
+  const tracks = await queryOptional<Track[]>(client, 'sunoma_items', filter()
+    .in('id', trackIds)
+    .isNull('deleted_at')
+    .select('id', 'title', 'status', 'audio_url', 'image_url', 'duration_sec', 'generation_source')
+    .build())
+
+  const trackMap = new Map((tracks || []).map(t => [t.id, t]))
+
+  // Fetch all variations for completed tracks
+  const completedIds = (tracks || [])
+    .filter(t => t.status === 'COMPLETE')
+    .map(t => t.id)
+
+  let variationMap = new Map<string, Track[]>()
+  if (completedIds.length > 0) {
+    const variations = await queryOptional<Track[]>(client, 'sunoma_items', filter()
+      .in('parent_id', completedIds)
+      .eq('item_type', 'variation')
+      .isNull('superseded_at')
+      .isNull('deleted_at')
+      .select('id', 'title', 'status', 'audio_url', 'image_url', 'duration_sec', 'variation_index', 'parent_id')
+      .order('variation_index')
+      .build())
+    for (const v of (variations || [])) {
+      const parentId = (v as unknown as Record<string, unknown>).parent_id as string
+      if (!variationMap.has(parentId)) variationMap.set(parentId, [])
+      variationMap.get(parentId)!.push(v)
+    }
+  }
+
+  // Build per-track results
+  return trackIds.map(id => {
+    const track = trackMap.get(id)
+    if (!track) return { track_id: id, status: 'not_found' }
+
+    const status = (track.status || 'unknown').toLowerCase()
+    const variations = variationMap.get(id) || []
+
+    return {
+      track_id: id,
+      title: track.title,
+      status,
+      ...(status === 'complete' ? {
+        audio_url: track.audio_url,
+        image_url: track.image_url,
+        duration_sec: track.duration_sec,
+        variations: variations.map(v => ({
+          id: v.id,
+          title: v.title,
+          audio_url: v.audio_url,
+          image_url: v.image_url,
+          listen_url: `${config.contentDomain}/details/${v.id}`,
+        })),
+        listen_url: `${config.contentDomain}/details/${id}`,
+      } : {}),
+    }
+  })
+}
+
+/** Refusal for backends without the item history columns regenerate writes */
+function historyUnsupported(trackId: string) {
+  return jsonResult({
+    error: 'HISTORY_UNSUPPORTED',
+    track_id: trackId,
+    message: 'Regenerate needs the superseded_at and generation_attempt columns on sunoma_items, ' +
+      'which this backend does not have yet. Generate a new track instead.',
+  })
+}
+
+/** Row shape musicmation_regenerate reads */
+type RegenerateSource = Track & {
+  generation_attempt?: number | null
+  deleted_at?: string | null
+}
+
+/**
+ * Move a track's current takes into history before it is regenerated.
+ * Existing current variations are marked superseded; the parent row's own
+ * take (its audio lives on the parent) is copied into a new superseded
+ * variation, since the reset will clear it. Returns the number archived.
+ */
+async function archiveTakes(client: CynapsApiClient, item: RegenerateSource, attempt: number): Promise<number> {
+  const supersededAt = new Date().toISOString()
+
+  const archived = await client.query<Array<{ id: string }>>('sunoma_items', filter()
+    .eq('parent_id', item.id)
+    .eq('item_type', 'variation')
+    .isNull('superseded_at')
+    .build(), { method: 'PATCH', body: { superseded_at: supersededAt, generation_attempt: attempt } }) || []
+
+  if (!item.audio_url) return archived.length
+
+  await client.query('sunoma_items', undefined, {
+    method: 'POST',
+    body: {
+      id: newId('track'),
+      title: `${item.title} (take ${attempt})`,
+      parent_id: item.id,
+      project_id: item.project_id ?? null,
+      item_type: 'variation',
+      variation_index: 0,
+      status: 'COMPLETE',
+      audio_url: item.audio_url,
+      image_url: item.image_url,
+      duration_sec: item.duration_sec ?? null,
+      generation_source: item.generation_source ?? null,
+      generation_attempt: attempt,
+      superseded_at: supersededAt,
+    },
+  })
+  return archived.length + 1
+}
+
+/**
+ * Reset one chunk to draft. The status check and the reset are one
+ * conditional PATCH (status=eq.QUEUED), so a track the worker claims in the
+ * meantime is left alone and reported with its new status instead. There is
+ * no cancel endpoint: the provider queue job and its credit charge stay.
+ */
+async function resetQueuedToDraft(client: CynapsApiClient, trackIds: string[]) {
+  const reset = await client.query<Array<{ id: string }>>('sunoma_items', filter()
+    .in('id', trackIds)
+    .eq('status', 'QUEUED')
+    .select('id')
+    .build(), { method: 'PATCH', body: { status: 'draft' } }) || []
+  const resetIds = new Set(reset.map((r) => r.id))
+
+  const rest = trackIds.filter((id) => !resetIds.has(id))
+  let statusById = new Map<string, string>()
+  if (rest.length > 0) {
+    const rows = await client.query<Track[]>('sunoma_items', filter()
+      .in('id', rest)
+      .select('id', 'status')
+      .build()) || []
+    statusById = new Map(rows.map((r) => [r.id, (r.status || 'unknown').toLowerCase()]))
+  }
+
+  return {
+    reset: trackIds.filter((id) => resetIds.has(id)),
+    others: rest.map((id) => ({ track_id: id, status: statusById.get(id) ?? 'not_found' })),
+  }
+}
+
+/**
+ * Combine the provider's cost model with live preflight numbers.
+ * Daily limits count generation requests across all providers; credits
+ * are per provider (Suno and Sonauto have separate balances). The agent's
+ * spending caps, when set, are one more way not to fit.
+ */
+async function estimateCost(
+  client: CynapsApiClient,
+  provider: GenerationProvider,
+  count: number,
+  params: Record<string, unknown>,
+  caps?: SpendingCaps,
+) {
+  const preflight = await client.rpc<PreflightResult>('preflight')
+  const summary = providers.summarize(preflight.checks).find((p) => p.id === provider.id)
+  const perGeneration = provider.creditsPerGeneration(params)
+  const totalCredits = perGeneration !== null ? perGeneration * count : null
+  const creditsAvailable = summary?.credits_available ?? null
+  const dailyLimit = preflight.checks.daily_limit
+  const dailyUsed = preflight.checks.daily_used
+  const dailyRemaining = Math.max(0, dailyLimit - dailyUsed)
+
+  const issues: string[] = []
+  if (!summary?.configured) issues.push(`${provider.label} API key is not configured`)
+  const fitsCredits = totalCredits === null || creditsAvailable === null ? null : totalCredits <= creditsAvailable
+  if (fitsCredits === false) issues.push(`Needs ${totalCredits} credits but only ${creditsAvailable} available`)
+  const fitsDailyLimit = count <= dailyRemaining
+  if (!fitsDailyLimit) issues.push(`Daily limit allows ${dailyRemaining} more generation(s) today (${dailyUsed}/${dailyLimit} used)`)
+  const capIssue = spendingCapIssue(caps, count, totalCredits)
+  if (capIssue) issues.push(capIssue)
+  const capWarning = spendingCapWarning(caps, totalCredits)
+
+  const fits = issues.length === 0
+  const cost = totalCredits !== null ? `~${totalCredits} credits` : 'an unknown number of credits'
+  return {
+    provider: provider.id,
+    tracks: count,
+    songs: count * provider.variations,
+    credits_per_generation: perGeneration,
+    total_credits: totalCredits,
+    credits_available: creditsAvailable,
+    credits_after: totalCredits !== null && creditsAvailable !== null ? creditsAvailable - totalCredits : null,
+    daily_used: dailyUsed,
+    daily_limit: dailyLimit,
+    daily_remaining: dailyRemaining,
+    fits_credits: fitsCredits,
+    fits_daily_limit: fitsDailyLimit,
+    ...(caps ? { fits_spending_cap: capIssue === null } : {}),
+    fits,
+    issues,
+    ...(capWarning ? { warnings: [capWarning] } : {}),
+    message: `${count} track(s) via ${provider.label} (${describeOutput(provider)} each) would cost ${cost}. ` +
+      (fits ? 'Fits within credits and daily limit.' : `Won't fit: ${issues.join('; ')}.`) +
+      (capWarning ? ` ${capWarning}.` : ''),
+  }
+}
+
+/** Resolves after `ms`, or as soon as `signal` aborts */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms)
+    signal?.addEventListener('abort', done, { once: true })
+    function done() {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', done)
+      resolve()
+    }
+  })
+}
+
+/** "Suno (default, 2 variations, more features), Sonauto (1 song, 100 credits/song)" */
+function providerSummary(): string {
+  return providers.list()
+    .map((p) => `${p.label} (${p.id === providers.defaultProvider ? 'default, ' : ''}${p.summary})`)
+    .join(', ')
+}
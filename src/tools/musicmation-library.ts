@@ -20,10 +20,18 @@ import type {
 } from '../core/types.js'
 import { CynapsApiClient } from '../core/api-client.js'
 import { wrapError } from '../core/errors.js'
+import { filter } from '../core/filter.js'
+import { queryOptional } from '../core/optional-columns.js'
 import { pick } from '../core/pick.js'
 import { jsonResult } from '../core/result.js'
-
-export function registerMusicmationLibraryTools(api: OpenClawPluginApi, config: CynapsConfig): void {
+import { findTrashed } from '../core/trash.js'
+import type { GenerationPoller } from '../services/generation-poller.js'
+
+export function registerMusicmationLibraryTools(
+  api: OpenClawPluginApi,
+  config: CynapsConfig,
+  poller?: GenerationPoller,
+): void {
   api.registerTool((ctx) => {
     const client = CynapsApiClient.fromContext(config, ctx)
 
@@ -32,7 +40,7 @@ export function registerMusicmationLibraryTools(api: OpenClawPluginApi, config:
       {
         name: 'musicmation_search_tracks',
         label: 'Search Tracks',
-        description: 'Search the user\'s track library by mood, genre, energy, BPM, key, or text.',
+        description: 'Search the user\'s track library by mood, genre, energy, BPM, key, or text. Trashed tracks are left out.',
 
         parameters: {
           type: 'object',
@@ -50,8 +58,16 @@ export function registerMusicmationLibraryTools(api: OpenClawPluginApi, config:
 
         async execute(_id: string, params: Record<string, unknown>) {
           try {
-            return jsonResult(await client.rpc<SearchResult>('search-tracks',
-              pick(params, ['mood', 'genre', 'energy_level', 'bpm_range', 'key', 'text', 'limit'])))
+            const result = await client.rpc<SearchResult>('search-tracks',
+              pick(params, ['mood', 'genre', 'energy_level', 'bpm_range', 'key', 'text', 'limit']))
+
+            const trashed = await findTrashed(client, (result?.tracks ?? []).map((t) => t.id))
+            if (trashed.size === 0) return jsonResult(result)
+            return jsonResult({
+              ...result,
+              tracks: result.tracks.filter((t) => !trashed.has(t.id)),
+              count: Math.max(0, result.count - trashed.size),
+            })
           } catch (err) { throw wrapError(err) }
         },
       },
@@ -217,7 +233,8 @@ export function registerMusicmationLibraryTools(api: OpenClawPluginApi, config:
         label: 'Poll Generation Status',
         description:
           'Poll a track\'s generation status. Returns the track with audio_url when complete. ' +
-          'Also fetches child variations. Call every 15 seconds until status is COMPLETE.',
+          'Also fetches child variations. For a one-off check — to block until done, ' +
+          'use musicmation_wait_for_completion instead of polling in a loop.',
 
         parameters: {
           type: 'object',
@@ -232,25 +249,29 @@ export function registerMusicmationLibraryTools(api: OpenClawPluginApi, config:
           try {
             const trackId = params.track_id as string
 
-            // Fetch the original track
-            const tracks = await client.query<Track[]>('sunoma_items', {
-              'id': `eq.${trackId}`,
-              'select': 'id,title,status,audio_url,image_url,duration_sec,generation_source',
-            })
+            // Fetch the original track, unless the poller read it this interval and it's still in progress
+            const known = poller?.current(trackId)
+            const tracks = known ? [known] : await queryOptional<Track[]>(client, 'sunoma_items', filter()
+              .eq('id', trackId)
+              .isNull('deleted_at')
+              .select('id', 'title', 'status', 'audio_url', 'image_url', 'duration_sec', 'generation_source')
+              .build())
 
             const track = tracks?.[0]
             if (!track) {
-              return jsonResult({ status: 'not_found', track_id: trackId, message: 'Track not found' })
+              return jsonResult({ status: 'not_found', track_id: trackId, message: 'Track not found (or in the trash)' })
             }
 
             // Server returns uppercase statuses: COMPLETE, QUEUED, GENERATING
             if (track.status === 'COMPLETE') {
-              const variations = await client.query<Track[]>('sunoma_items', {
-                'parent_id': `eq.${trackId}`,
-                'item_type': 'eq.variation',
-                'select': 'id,title,status,audio_url,image_url,duration_sec,variation_index',
-                'order': 'variation_index.asc',
-              })
+              const variations = await queryOptional<Track[]>(client, 'sunoma_items', filter()
+                .eq('parent_id', trackId)
+                .eq('item_type', 'variation')
+                .isNull('superseded_at')
+                .isNull('deleted_at')
+                .select('id', 'title', 'status', 'audio_url', 'image_url', 'duration_sec', 'variation_index')
+                .order('variation_index')
+                .build())
 
               return jsonResult({
                 status: 'complete',
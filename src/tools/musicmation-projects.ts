@@ -13,6 +13,9 @@
 import type { OpenClawPluginApi, CynapsConfig, AgentTool, Project, ProjectContext } from '../core/types.js'
 import { CynapsApiClient } from '../core/api-client.js'
 import { CynapsApiError, wrapError } from '../core/errors.js'
+import { filter } from '../core/filter.js'
+import { newId } from '../core/ids.js'
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, fetchPage } from '../core/pagination.js'
 import { pick } from '../core/pick.js'
 import { jsonResult } from '../core/result.js'
 
@@ -47,18 +50,36 @@ export function registerMusicmationProjectTools(api: OpenClawPluginApi, config:
         name: 'musicmation_list_projects',
         label: 'List Projects',
         description:
-          'List the user\'s projects. Returns id, name, content_type, description, created_at. ' +
-          'Auto-scoped to owner by the server.',
+          'List the user\'s projects, newest first. Returns id, name, content_type, description, created_at. ' +
+          `Paginated: returns up to \`limit\` projects (default ${DEFAULT_PAGE_SIZE}) with \`total\`; ` +
+          'pass `next_cursor` back as `cursor` for the next page. Auto-scoped to owner by the server.',
 
-        parameters: { type: 'object', properties: {}, additionalProperties: false },
+        parameters: {
+          type: 'object',
+          properties: {
+            limit: { type: 'integer', description: `Projects per page (default ${DEFAULT_PAGE_SIZE})`, minimum: 1, maximum: MAX_PAGE_SIZE },
+            cursor: { type: 'string', description: 'next_cursor from the previous page' },
+          },
+          additionalProperties: false,
+        },
 
-        async execute(_id: string, _params: Record<string, unknown>) {
+        async execute(_id: string, params: Record<string, unknown>) {
           try {
-            const projects = await client.query<Project[]>('sunoma_projects', {
-              'select': 'id,name,content_type,description,created_at',
-              'order': 'created_at.desc',
+            const page = await fetchPage<Project>(client, 'sunoma_projects', filter()
+              .select('id', 'name', 'content_type', 'description', 'created_at')
+              .order('created_at', 'desc')
+              .order('id'), {
+              limit: params.limit as number | undefined,
+              cursor: params.cursor as string | undefined,
+              scope: { order: 'created_at.desc' },
+            })
+            return jsonResult({
+              projects: page.items,
+              count: page.items.length,
+              total: page.total,
+              has_more: page.has_more,
+              next_cursor: page.next_cursor,
             })
-            return jsonResult({ projects: projects || [], count: (projects || []).length })
           } catch (err) { throw wrapError(err) }
         },
       },
@@ -85,10 +106,7 @@ export function registerMusicmationProjectTools(api: OpenClawPluginApi, config:
 
         async execute(_id: string, params: Record<string, unknown>) {
           try {
-            const timestamp = Math.floor(Date.now() / 1000)
-            const hex = Array.from(crypto.getRandomValues(new Uint8Array(4)))
-              .map(b => b.toString(16).padStart(2, '0')).join('')
-            const generatedId = `proj_${timestamp}_${hex}`
+            const generatedId = newId('proj')
 
             const contentType = params.content_type as string
             const gradient = (params.header_gradient as string) ||
@@ -163,9 +181,7 @@ export function registerMusicmationProjectTools(api: OpenClawPluginApi, config:
               body.header_gradient = GRADIENT_BY_TYPE[body.content_type as string] || FALLBACK_GRADIENT
             }
 
-            const projects = await client.query<Project[]>('sunoma_projects', {
-              id: `eq.${projectId}`,
-            }, {
+            const projects = await client.query<Project[]>('sunoma_projects', filter().eq('id', projectId).build(), {
               method: 'PATCH',
               body,
             })
@@ -268,10 +284,10 @@ export function registerMusicmationProjectTools(api: OpenClawPluginApi, config:
             const confirmName = params.confirm_name as string
 
             // Fetch project to verify name match
-            const projects = await client.query<Project[]>('sunoma_projects', {
-              id: `eq.${projectId}`,
-              select: 'id,name',
-            })
+            const projects = await client.query<Project[]>('sunoma_projects', filter()
+              .eq('id', projectId)
+              .select('id', 'name')
+              .build())
             const project = projects?.[0]
             if (!project) {
               return jsonResult({ error: 'Project not found.', deleted: false })
@@ -287,9 +303,7 @@ export function registerMusicmationProjectTools(api: OpenClawPluginApi, config:
             }
 
             // Perform the delete — CASCADE will remove all items
-            await client.query('sunoma_projects', {
-              id: `eq.${projectId}`,
-            }, { method: 'DELETE' })
+            await client.query('sunoma_projects', filter().eq('id', projectId).build(), { method: 'DELETE' })
 
             return jsonResult({
               deleted: true,
@@ -0,0 +1,261 @@
+/**
+ * Musicmation Suno Transformation Tools
+ *
+ * Suno-only operations on an existing, completed track:
+ * - musicmation_extend_track — Continue a track from a timestamp
+ * - musicmation_cover_track — Re-render a track in a new style
+ * - musicmation_add_vocals — Sing new lyrics over an instrumental
+ *
+ * Each creates a new track row derived from the source and asks suno-proxy
+ * to fill it. The source's generation_source is checked against the provider
+ * registry first: providers without the capability (Sonauto has no
+ * extend/cover/vocals) are refused with a structured error instead of
+ * sending a request that can only fail (or worse, bill). Each counts as one
+ * generation against the calling agent's spending caps.
+ *
+ * NOT REGISTERED: the suno-proxy method names in OPERATIONS are unconfirmed,
+ * so tools/_registry.ts leaves these tools out. Add
+ * registerMusicmationSunoTools back to the musicmation registrars once
+ * suno-proxy confirms them.
+ */
+
+import type { OpenClawPluginApi, CynapsConfig, AgentTool, Track } from '../core/types.js'
+import { assertSpendingCap, resolveAgentConfig } from '../core/agents.js'
+import { CynapsApiClient } from '../core/api-client.js'
+import { CynapsApiError, wrapError } from '../core/errors.js'
+import { filter } from '../core/filter.js'
+import { newId } from '../core/ids.js'
+import { insertOptional, queryOptional } from '../core/optional-columns.js'
+import { jsonResult } from '../core/result.js'
+import { providers, sunoProvider } from '../providers/index.js'
+import type { ProviderCapability } from '../providers/index.js'
+import type { GenerationPoller } from '../services/generation-poller.js'
+
+type SunoOperation = Extract<ProviderCapability, 'extend' | 'cover' | 'add_vocals'>
+
+/**
+ * suno-proxy method and default title suffix per operation. The method names
+ * follow the proxy's camelCase convention (generateLyrics) but have not been
+ * confirmed against suno-proxy. An unknown method comes back as a proxy
+ * error, which transform() reports.
+ */
+const OPERATIONS: Record<SunoOperation, { method: string; suffix: string; label: string }> = {
+  extend: { method: 'extendTrack', suffix: 'Extended', label: 'extend' },
+  cover: { method: 'coverTrack', suffix: 'Cover', label: 'cover' },
+  add_vocals: { method: 'addVocals', suffix: 'Vocal', label: 'add vocals to' },
+}
+
+export function registerMusicmationSunoTools(
+  api: OpenClawPluginApi,
+  config: CynapsConfig,
+  poller?: GenerationPoller,
+): void {
+  api.registerTool((ctx) => {
+    const client = CynapsApiClient.fromContext(config, ctx)
+    const caps = resolveAgentConfig(config, ctx.agentId).spendingCaps
+    const origin = { messageChannel: ctx.messageChannel, sessionKey: ctx.sessionKey }
+
+    /**
+     * Guard the source, create the derived row, enqueue via suno-proxy.
+     * Guard failures are returned (not thrown) so the agent gets the reason
+     * and a suggested alternative in one structured result.
+     */
+    async function transform(
+      operation: SunoOperation,
+      params: Record<string, unknown>,
+      proxyParams: Record<string, unknown>,
+    ) {
+      const op = OPERATIONS[operation]
+      const sourceId = params.track_id as string
+
+      const sources = await queryOptional<Track[]>(client, 'sunoma_items', filter()
+        .eq('id', sourceId)
+        .isNull('deleted_at')
+        .select('id', 'title', 'status', 'project_id', 'generation_source', 'audio_url', 'duration_sec')
+        .build())
+      const source = sources?.[0]
+
+      if (!source) {
+        return jsonResult({ error: 'TRACK_NOT_FOUND', track_id: sourceId, message: 'Track not found.' })
+      }
+      // Rows predating generation_source were all Suno
+      const sourceProvider = providers.get(source.generation_source ?? sunoProvider.id)
+      if (!sourceProvider?.capabilities.includes(operation)) {
+        const capable = providers.list().filter((p) => p.capabilities.includes(operation)).map((p) => p.label)
+        return jsonResult({
+          error: 'UNSUPPORTED_BY_PROVIDER',
+          operation,
+          track_id: sourceId,
+          provider: source.generation_source,
+          message: `${sourceProvider?.label ?? source.generation_source} tracks can't be used to ${op.label} — ` +
+            `only ${capable.join(', ') || 'no provider'} supports this.`,
+          suggestion: 'Offer to regenerate the track with modified tags, lyrics or prompt instead.',
+        })
+      }
+      if (source.status !== 'COMPLETE' || !source.audio_url) {
+        return jsonResult({
+          error: 'SOURCE_NOT_READY',
+          operation,
+          track_id: sourceId,
+          status: source.status,
+          message: `Track must be COMPLETE with audio before you can ${op.label} it (current status: ${source.status}).`,
+        })
+      }
+
+      assertSpendingCap(caps, 1, sunoProvider.creditsPerGeneration(params))
+
+      const generatedId = newId('track')
+      const title = (params.title as string) || `${source.title} (${op.suffix})`
+
+      // Older backends have no source_item_id — the track is still created, just unlinked
+      const items = await insertOptional<Track[]>(client, {
+        id: generatedId,
+        title,
+        transcript: (params.lyrics as string) || '',
+        style_tags: (params.style_tags as string) || '',
+        project_id: source.project_id ?? null,
+        item_type: 'track',
+        status: 'draft',
+        generation_source: sunoProvider.id,
+        source_item_id: sourceId,
+      }, ['source_item_id'])
+      const trackId = items?.[0]?.id
+      if (!trackId) {
+        throw new CynapsApiError('Failed to create track item — no ID returned', 500, 'CREATE_FAILED')
+      }
+
+      try {
+        await client.call('suno-proxy', {
+          method: op.method,
+          params: { trackId, sourceTrackId: sourceId, ...proxyParams },
+        })
+      } catch (err) {
+        // The draft row only exists to be filled by this request — remove it,
+        // and if that fails too, hand its ID back so it isn't lost
+        const wrapped = wrapError(err)
+        const removed = await client.query('sunoma_items', filter().eq('id', trackId).eq('status', 'draft').build(),
+          { method: 'DELETE' }).then(() => true, () => false)
+        return jsonResult({
+          ...(removed ? {} : { track_id: trackId }),
+          source_track_id: sourceId,
+          operation,
+          enqueued: false,
+          error: wrapped.code ?? 'ENQUEUE_FAILED',
+          message: `Suno couldn't ${op.label} "${source.title}": ${wrapped.userMessage}` +
+            (removed ? '' : ` The draft track ${trackId} was left behind — delete it with musicmation_delete_item.`),
+        })
+      }
+      poller?.track([trackId], origin)
+
+      return jsonResult({
+        track_id: trackId,
+        source_track_id: sourceId,
+        operation,
+        title,
+        enqueued: true,
+        message: `"${title}" enqueued via Suno. Call musicmation_wait_for_completion with this track_id.`,
+      })
+    }
+
+    return [
+      // --- Extend Track ---
+      {
+        name: 'musicmation_extend_track',
+        label: 'Extend Track',
+        description:
+          'Suno only. Continue an existing COMPLETE track from a timestamp, creating a new track. ' +
+          'Sonauto tracks are refused (error: UNSUPPORTED_BY_PROVIDER). ' +
+          'Call musicmation_wait_for_completion on the returned track_id.',
+
+        parameters: {
+          type: 'object',
+          properties: {
+            track_id: { type: 'string', description: 'Source track ID' },
+            continue_at: {
+              type: 'number',
+              minimum: 0,
+              description: 'Second to continue from (default: end of the source track)',
+            },
+            lyrics: { type: 'string', description: 'Lyrics for the extension', maxLength: 5000 },
+            style_tags: { type: 'string', description: 'Style prompt for the extension (default: keep the source style)', maxLength: 2000 },
+            title: { type: 'string', description: 'Title for the new track (default: "<source> (Extended)")', maxLength: 200 },
+          },
+          required: ['track_id'],
+          additionalProperties: false,
+        },
+
+        async execute(_id: string, params: Record<string, unknown>) {
+          try {
+            return await transform('extend', params, {
+              continueAt: params.continue_at ?? null,
+              lyrics: (params.lyrics as string) || '',
+              style: (params.style_tags as string) || null,
+            })
+          } catch (err) { throw wrapError(err) }
+        },
+      },
+
+      // --- Cover Track ---
+      {
+        name: 'musicmation_cover_track',
+        label: 'Cover Track',
+        description:
+          'Suno only. Re-render an existing COMPLETE track in a new style (same melody), creating a new track. ' +
+          'Sonauto tracks are refused (error: UNSUPPORTED_BY_PROVIDER). ' +
+          'Call musicmation_wait_for_completion on the returned track_id.',
+
+        parameters: {
+          type: 'object',
+          properties: {
+            track_id: { type: 'string', description: 'Source track ID' },
+            style_tags: { type: 'string', description: 'Target style prompt (e.g., "acoustic folk, fingerpicked guitar")', maxLength: 2000 },
+            lyrics: { type: 'string', description: 'Replacement lyrics (default: keep the source lyrics)', maxLength: 5000 },
+            title: { type: 'string', description: 'Title for the new track (default: "<source> (Cover)")', maxLength: 200 },
+          },
+          required: ['track_id', 'style_tags'],
+          additionalProperties: false,
+        },
+
+        async execute(_id: string, params: Record<string, unknown>) {
+          try {
+            return await transform('cover', params, {
+              style: params.style_tags as string,
+              lyrics: (params.lyrics as string) || null,
+            })
+          } catch (err) { throw wrapError(err) }
+        },
+      },
+
+      // --- Add Vocals ---
+      {
+        name: 'musicmation_add_vocals',
+        label: 'Add Vocals',
+        description:
+          'Suno only. Sing lyrics over an existing COMPLETE instrumental, creating a new track. ' +
+          'Sonauto tracks are refused (error: UNSUPPORTED_BY_PROVIDER). ' +
+          'Call musicmation_wait_for_completion on the returned track_id.',
+
+        parameters: {
+          type: 'object',
+          properties: {
+            track_id: { type: 'string', description: 'Source instrumental track ID' },
+            lyrics: { type: 'string', description: 'Lyrics to sing', maxLength: 5000 },
+            style_tags: { type: 'string', description: 'Vocal style (e.g., "breathy female vocals")', maxLength: 2000 },
+            title: { type: 'string', description: 'Title for the new track (default: "<source> (Vocal)")', maxLength: 200 },
+          },
+          required: ['track_id', 'lyrics'],
+          additionalProperties: false,
+        },
+
+        async execute(_id: string, params: Record<string, unknown>) {
+          try {
+            return await transform('add_vocals', params, {
+              lyrics: params.lyrics as string,
+              style: (params.style_tags as string) || null,
+            })
+          } catch (err) { throw wrapError(err) }
+        },
+      },
+    ] as AgentTool[]
+  })
+}
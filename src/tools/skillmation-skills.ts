@@ -0,0 +1,436 @@
+/**
+ * Skillmation Skill Tools
+ *
+ * Author agent skills (SKILL.md playbooks) and publish them:
+ * - skillmation_draft_skill — save SKILL.md + metadata as a new draft version
+ * - skillmation_validate_skill — check content against the SKILL.md conventions
+ * - skillmation_list_skills (paginated)
+ * - skillmation_get_skill — one skill with its version history
+ * - skillmation_publish_skill (two-step confirmation)
+ *
+ * Skills live in skill-api tables: skillmation_skills (one row per name)
+ * and skillmation_skill_versions (every saved draft). Drafts are saved even
+ * when validation fails so they can be fixed iteratively; publishing
+ * re-validates and refuses a version with errors.
+ *
+ * Version numbers rely on the unique (skill_id, version) constraint on
+ * skillmation_skill_versions: a draft that loses a race to a concurrent one
+ * gets a 409 and takes the next number. No RPC sits in front of these
+ * tables, so publishing uses plugin-issued confirmation tokens
+ * (core/confirmation.ts) in the agent-tools response shape.
+ */
+
+import type { OpenClawPluginApi, CynapsConfig, AgentTool, Skill, SkillVersion } from '../core/types.js'
+import { CynapsApiClient } from '../core/api-client.js'
+import { issueConfirmation, verifyConfirmation } from '../core/confirmation.js'
+import { CynapsApiError, wrapError } from '../core/errors.js'
+import { filter } from '../core/filter.js'
+import { newId } from '../core/ids.js'
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, fetchPage } from '../core/pagination.js'
+import { jsonResult } from '../core/result.js'
+import { MAX_DESCRIPTION_CHARS, MAX_SKILL_CHARS, validateSkill } from '../skillmation/validate.js'
+
+const SKILLS_TABLE = 'skillmation_skills'
+const VERSIONS_TABLE = 'skillmation_skill_versions'
+
+const SKILL_COLUMNS = [
+  'id', 'name', 'title', 'description', 'tags', 'modules', 'status',
+  'current_version', 'published_version', 'published_at', 'created_at', 'updated_at',
+] as const
+const VERSION_SUMMARY_COLUMNS = ['id', 'version', 'description', 'validation', 'published_at', 'created_at'] as const
+/** Concurrent drafts of one skill that can collide before draft_skill gives up */
+const MAX_VERSION_ATTEMPTS = 3
+
+export function registerSkillmationTools(api: OpenClawPluginApi, config: CynapsConfig): void {
+  api.registerTool((ctx) => {
+    const client = CynapsApiClient.fromContext(config, ctx)
+
+    return [
+      // --- Draft Skill ---
+      {
+        name: 'skillmation_draft_skill',
+        label: 'Draft Skill',
+        description:
+          'Save a SKILL.md draft. A new name creates the skill; an existing name adds a new version ' +
+          '(identical content and metadata are not saved twice). Returns the version number and a validation ' +
+          'report — fix the errors and draft again before publishing. Publishing is a separate step.',
+
+        parameters: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', description: 'Skill name, lowercase kebab-case (e.g. "release-planning")', maxLength: 64 },
+            content: { type: 'string', description: 'Full SKILL.md Markdown', maxLength: MAX_SKILL_CHARS },
+            description: {
+              type: 'string',
+              description: 'One-sentence summary of when agents should use the skill',
+              maxLength: MAX_DESCRIPTION_CHARS,
+            },
+            tags: { type: 'array', items: { type: 'string', maxLength: 50 }, maxItems: 20, description: 'Search tags' },
+            modules: {
+              type: 'array',
+              items: { type: 'string', enum: ['musicmation', 'storymation', 'skillmation', 'contentmation'] },
+              uniqueItems: true,
+              description: 'Plugin modules whose tools the skill uses',
+            },
+          },
+          required: ['name', 'content', 'description'],
+          additionalProperties: false,
+        },
+
+        async execute(_id: string, params: Record<string, unknown>) {
+          try {
+            const name = params.name as string
+            const content = params.content as string
+            const description = params.description as string
+            const validation = validateSkill({ name, content, description })
+            // Name problems would leave a row nobody can address by name — refuse those outright
+            const nameError = validation.errors.find((e) => e.code === 'INVALID_NAME')
+            if (nameError) throw new CynapsApiError(nameError.message, 400, 'INVALID_NAME')
+
+            const meta = {
+              title: validation.title ?? name,
+              description,
+              ...(params.tags !== undefined ? { tags: params.tags } : {}),
+              ...(params.modules !== undefined ? { modules: params.modules } : {}),
+            }
+            const summary = { valid: validation.valid, errors: validation.errors.length, warnings: validation.warnings.length }
+
+            const existing = (await client.query<Skill[]>(SKILLS_TABLE, filter()
+              .eq('name', name)
+              .select(...SKILL_COLUMNS)
+              .build()))?.[0]
+
+            if (!existing) {
+              const skill = (await client.query<Skill[]>(SKILLS_TABLE, undefined, {
+                method: 'POST',
+                body: { id: newId('skill'), name, ...meta, status: 'draft', current_version: 1, published_version: null },
+              }))?.[0]
+              if (!skill) throw new CynapsApiError('Failed to create skill — no row returned', 500, 'CREATE_FAILED')
+              await saveVersion(client, skill.id, 1, content, description, summary)
+              return jsonResult({
+                skill_id: skill.id,
+                name,
+                version: 1,
+                created: true,
+                validation,
+                message: `Created skill "${name}" (v1, draft).` + validationNote(validation),
+              })
+            }
+
+            const current = await fetchVersion(client, existing.id, existing.current_version)
+            const metaUnchanged = existing.description === description &&
+              (params.tags === undefined || sameList(existing.tags, params.tags as string[])) &&
+              (params.modules === undefined || sameList(existing.modules, params.modules as string[]))
+            if (current?.content === content && metaUnchanged) {
+              return jsonResult({
+                skill_id: existing.id,
+                name,
+                version: existing.current_version,
+                unchanged: true,
+                validation,
+                message: `No changes — "${name}" is still at v${existing.current_version}.`,
+              })
+            }
+
+            const version = await saveNextVersion(client, existing.id, existing.current_version, content, description, summary)
+            // A newer concurrent draft already moved the pointer (and its metadata wins)
+            await client.query(SKILLS_TABLE, filter().eq('id', existing.id).lt('current_version', version).build(), {
+              method: 'PATCH',
+              body: { ...meta, current_version: version },
+            })
+            return jsonResult({
+              skill_id: existing.id,
+              name,
+              version,
+              created: false,
+              published_version: existing.published_version,
+              validation,
+              message: `Saved "${name}" v${version} as a draft` +
+                (existing.published_version ? ` (v${existing.published_version} stays published).` : '.') +
+                validationNote(validation),
+            })
+          } catch (err) { throw wrapError(err) }
+        },
+      },
+
+      // --- Validate Skill ---
+      {
+        name: 'skillmation_validate_skill',
+        label: 'Validate Skill',
+        description:
+          'Check SKILL.md content against the playbook conventions (single "# " title first, "## " sections, ' +
+          'well-formed tables and code fences; warnings for a missing "> " summary line, tool table or unknown tool names). ' +
+          'Pass content to check text directly, or skill_id (+ version, default latest) to check a saved draft.',
+
+        parameters: {
+          type: 'object',
+          properties: {
+            content: { type: 'string', description: 'SKILL.md Markdown to check', maxLength: MAX_SKILL_CHARS },
+            name: { type: 'string', description: 'Skill name to check along with the content', maxLength: 64 },
+            skill_id: { type: 'string', description: 'Saved skill to check instead of content' },
+            version: { type: 'integer', minimum: 1, description: 'Version of skill_id (default: latest)' },
+          },
+          additionalProperties: false,
+        },
+
+        async execute(_id: string, params: Record<string, unknown>) {
+          try {
+            if (Boolean(params.content) === Boolean(params.skill_id)) {
+              throw new CynapsApiError('Pass either content or skill_id', 400, 'INVALID_INPUT')
+            }
+            if (params.content) {
+              return jsonResult(validateSkill({ content: params.content as string, name: params.name as string | undefined }))
+            }
+
+            const skill = await fetchSkill(client, params.skill_id as string)
+            const version = (params.version as number | undefined) ?? skill.current_version
+            const saved = await fetchVersion(client, skill.id, version)
+            if (!saved) throw new CynapsApiError(`Version ${version} not found`, 404, 'VERSION_NOT_FOUND')
+            return jsonResult({
+              skill_id: skill.id,
+              version,
+              ...validateSkill({ content: saved.content, name: skill.name, description: saved.description }),
+            })
+          } catch (err) { throw wrapError(err) }
+        },
+      },
+
+      // --- List Skills ---
+      {
+        name: 'skillmation_list_skills',
+        label: 'List Skills',
+        description:
+          'List the team\'s skills, most recently updated first, with status, latest version and published version. ' +
+          `Paginated: up to \`limit\` skills (default ${DEFAULT_PAGE_SIZE}) with \`total\`; pass \`next_cursor\` back as \`cursor\`.`,
+
+        parameters: {
+          type: 'object',
+          properties: {
+            status: { type: 'string', enum: ['draft', 'published'], description: 'Only skills with this status' },
+            search: { type: 'string', description: 'Case-insensitive substring match on name', maxLength: 64 },
+            limit: { type: 'integer', description: `Skills per page (default ${DEFAULT_PAGE_SIZE})`, minimum: 1, maximum: MAX_PAGE_SIZE },
+            cursor: { type: 'string', description: 'next_cursor from the previous page' },
+          },
+          additionalProperties: false,
+        },
+
+        async execute(_id: string, params: Record<string, unknown>) {
+          try {
+            const query = filter().select(...SKILL_COLUMNS)
+            if (params.status) query.eq('status', params.status as string)
+            if (params.search) query.ilike('name', `*${params.search as string}*`)
+            query.order('updated_at', 'desc').order('id')
+
+            const page = await fetchPage<Skill>(client, SKILLS_TABLE, query, {
+              limit: params.limit as number | undefined,
+              cursor: params.cursor as string | undefined,
+              scope: { status: params.status, search: params.search },
+            })
+            return jsonResult({
+              skills: page.items,
+              count: page.items.length,
+              total: page.total,
+              has_more: page.has_more,
+              next_cursor: page.next_cursor,
+            })
+          } catch (err) { throw wrapError(err) }
+        },
+      },
+
+      // --- Get Skill ---
+      {
+        name: 'skillmation_get_skill',
+        label: 'Get Skill',
+        description:
+          'One skill with its version history (newest first) and the SKILL.md content of one version ' +
+          '(default: latest draft). Look it up by skill_id or name.',
+
+        parameters: {
+          type: 'object',
+          properties: {
+            skill_id: { type: 'string' },
+            name: { type: 'string', maxLength: 64 },
+            version: { type: 'integer', minimum: 1, description: 'Version whose content to return (default: latest)' },
+          },
+          additionalProperties: false,
+        },
+
+        async execute(_id: string, params: Record<string, unknown>) {
+          try {
+            if (Boolean(params.skill_id) === Boolean(params.name)) {
+              throw new CynapsApiError('Pass either skill_id or name', 400, 'INVALID_INPUT')
+            }
+            const skill = await fetchSkill(client, params.skill_id as string | undefined, params.name as string | undefined)
+            const versions = await client.query<SkillVersion[]>(VERSIONS_TABLE, filter()
+              .eq('skill_id', skill.id)
+              .select(...VERSION_SUMMARY_COLUMNS)
+              .order('version', 'desc')
+              .build()) || []
+            const version = (params.version as number | undefined) ?? skill.current_version
+            const selected = await fetchVersion(client, skill.id, version)
+            if (!selected) throw new CynapsApiError(`Version ${version} not found`, 404, 'VERSION_NOT_FOUND')
+
+            return jsonResult({ skill, versions, version, content: selected.content })
+          } catch (err) { throw wrapError(err) }
+        },
+      },
+
+      // --- Publish Skill (two-step confirmation) ---
+      {
+        name: 'skillmation_publish_skill',
+        label: 'Publish Skill',
+        description:
+          'Publish a skill version (default: latest draft) so the team\'s agents load it. Always requires user ' +
+          'confirmation: the first call re-validates and returns confirmation_required with what would change. ' +
+          'Present it to the user and call again with the token after they approve. ' +
+          'Versions with validation errors cannot be published.',
+
+        parameters: {
+          type: 'object',
+          properties: {
+            skill_id: { type: 'string', description: 'Skill to publish' },
+            version: { type: 'integer', minimum: 1, description: 'Version to publish (default: latest)' },
+            confirmation_token: { type: 'string', description: 'Token from a previous confirmation_required response' },
+          },
+          required: ['skill_id'],
+          additionalProperties: false,
+        },
+
+        async execute(_id: string, params: Record<string, unknown>) {
+          try {
+            const skill = await fetchSkill(client, params.skill_id as string)
+            const version = (params.version as number | undefined) ?? skill.current_version
+            const target = await fetchVersion(client, skill.id, version)
+            if (!target) throw new CynapsApiError(`Version ${version} not found`, 404, 'VERSION_NOT_FOUND')
+
+            const validation = validateSkill({ content: target.content, name: skill.name, description: target.description })
+            if (!validation.valid) {
+              return jsonResult({
+                error: 'VALIDATION_FAILED',
+                skill_id: skill.id,
+                version,
+                errors: validation.errors,
+                message: `v${version} has ${validation.errors.length} validation error(s). Fix them with skillmation_draft_skill, then publish the new version.`,
+              })
+            }
+            if (skill.published_version === version) {
+              return jsonResult({ skill_id: skill.id, version, published: true, message: `v${version} is already published.` })
+            }
+
+            // Bound to this version replacing this published one — a token can't confirm a different change
+            const subject = { skill_id: skill.id, version_id: target.id, replaces_version: skill.published_version }
+            const token = params.confirmation_token as string | undefined
+            if (!token) {
+              const change = `"${skill.name}" v${version} will become the published version` +
+                (skill.published_version ? ` (replacing v${skill.published_version})` : '') +
+                ' for every agent on the team.'
+              return jsonResult({
+                ...issueConfirmation('publish_skill', subject, change),
+                skill_id: skill.id,
+                name: skill.name,
+                version,
+                replaces_version: skill.published_version,
+                warnings: validation.warnings,
+                instruction: 'Present this change to the user. Call again with the confirmation_token when approved.',
+              })
+            }
+            if (!verifyConfirmation(token, 'publish_skill', subject)) {
+              return jsonResult({
+                error: 'INVALID_CONFIRMATION',
+                skill_id: skill.id,
+                version,
+                message: 'The confirmation_token has expired or was issued for a different version. ' +
+                  'Call again without it for a fresh preview and confirm that with the user.',
+              })
+            }
+
+            const publishedAt = new Date().toISOString()
+            await client.query(VERSIONS_TABLE, filter().eq('id', target.id).build(), {
+              method: 'PATCH',
+              body: { published_at: publishedAt },
+            })
+            await client.query(SKILLS_TABLE, filter().eq('id', skill.id).build(), {
+              method: 'PATCH',
+              body: { status: 'published', published_version: version, published_at: publishedAt },
+            })
+            return jsonResult({
+              skill_id: skill.id,
+              name: skill.name,
+              version,
+              published: true,
+              published_at: publishedAt,
+              message: `Published "${skill.name}" v${version}.`,
+            })
+          } catch (err) { throw wrapError(err) }
+        },
+      },
+    ] as AgentTool[]
+  })
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────
+
+async function fetchSkill(client: CynapsApiClient, skillId?: string, name?: string): Promise<Skill> {
+  const query = filter().select(...SKILL_COLUMNS)
+  if (skillId) query.eq('id', skillId)
+  else query.eq('name', name!)
+  const skill = (await client.query<Skill[]>(SKILLS_TABLE, query.build()))?.[0]
+  if (!skill) throw new CynapsApiError('Skill not found', 404, 'SKILL_NOT_FOUND')
+  return skill
+}
+
+async function fetchVersion(client: CynapsApiClient, skillId: string, version: number): Promise<SkillVersion | undefined> {
+  return (await client.query<SkillVersion[]>(VERSIONS_TABLE, filter()
+    .eq('skill_id', skillId)
+    .eq('version', version)
+    .build()))?.[0]
+}
+
+async function saveVersion(
+  client: CynapsApiClient,
+  skillId: string,
+  version: number,
+  content: string,
+  description: string,
+  validation: SkillVersion['validation'],
+): Promise<void> {
+  await client.query(VERSIONS_TABLE, undefined, {
+    method: 'POST',
+    body: { id: newId('skillv'), skill_id: skillId, version, content, description, validation, published_at: null },
+  })
+}
+
+/** Save as the version after `latest`; on a (skill_id, version) conflict, re-read the latest and try the next one */
+async function saveNextVersion(
+  client: CynapsApiClient,
+  skillId: string,
+  latest: number,
+  content: string,
+  description: string,
+  validation: SkillVersion['validation'],
+): Promise<number> {
+  for (let attempt = 1; ; attempt++) {
+    const version = latest + 1
+    try {
+      await saveVersion(client, skillId, version, content, description, validation)
+      return version
+    } catch (err) {
+      if (!(err instanceof CynapsApiError) || err.status !== 409 || attempt >= MAX_VERSION_ATTEMPTS) throw err
+      latest = (await client.query<Array<{ version: number }>>(VERSIONS_TABLE, filter()
+        .eq('skill_id', skillId)
+        .select('version')
+        .order('version', 'desc')
+        .limit(1)
+        .build()))?.[0]?.version ?? version
+    }
+  }
+}
+
+function sameList(a: string[] | null, b: string[]): boolean {
+  return (a ?? []).length === b.length && (a ?? []).every((v, i) => v === b[i])
+}
+
+function validationNote(validation: { valid: boolean; errors: unknown[]; warnings: unknown[] }): string {
+  if (!validation.valid) return ` ${validation.errors.length} validation error(s) — fix before publishing.`
+  return validation.warnings.length ? ` Valid, with ${validation.warnings.length} warning(s).` : ' Valid.'
+}
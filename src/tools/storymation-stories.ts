@@ -0,0 +1,236 @@
+/**
+ * Storymation Story Tools
+ *
+ * Stories, their chapters and chapter narration:
+ * - storymation_create_story
+ * - storymation_write_chapter
+ * - storymation_update_chapter
+ * - storymation_list_chapters
+ * - storymation_narrate_chapter
+ *
+ * All go through agent-tools RPCs. Writes are gated by the autonomy system
+ * like the Musicmation write tools: a confirmation_required response is
+ * handed back to the agent to present, and the call is repeated with the
+ * token. Narration is queued as an audio item in the content library;
+ * its progress shows as narration_status in storymation_list_chapters.
+ */
+
+import type {
+  OpenClawPluginApi, CynapsConfig, AgentTool, ChapterList, NarrationResult,
+} from '../core/types.js'
+import { isConfirmationResponse } from '../core/types.js'
+import { CynapsApiClient } from '../core/api-client.js'
+import { CynapsApiError, wrapError } from '../core/errors.js'
+import { pick } from '../core/pick.js'
+import { jsonResult } from '../core/result.js'
+
+const MAX_CHAPTER_CHARS = 100_000
+
+const CHAPTER_FIELDS = ['title', 'text', 'summary', 'position'] as const
+
+export function registerStorymationTools(api: OpenClawPluginApi, config: CynapsConfig): void {
+  api.registerTool((ctx) => {
+    const client = CynapsApiClient.fromContext(config, ctx)
+
+    return [
+      // --- Create Story ---
+      {
+        name: 'storymation_create_story',
+        label: 'Create Story',
+        description:
+          'Create a story project to write chapters in. May require user confirmation. ' +
+          'If confirmation_required is returned, present it to the user and call again with the token.',
+
+        parameters: {
+          type: 'object',
+          properties: {
+            title: { type: 'string', description: 'Story title', maxLength: 200 },
+            premise: { type: 'string', description: 'One-paragraph premise / logline', maxLength: 2000 },
+            genre: { type: 'string', description: 'e.g. "fantasy", "mystery", "bedtime story"', maxLength: 100 },
+            audience: { type: 'string', description: 'Intended audience, e.g. "children 6-9", "adult"', maxLength: 100 },
+            language: { type: 'string', description: 'Writing language as a BCP 47 tag (default: en)', maxLength: 20 },
+            confirmation_token: { type: 'string', description: 'Token from a previous confirmation_required response' },
+          },
+          required: ['title'],
+          additionalProperties: false,
+        },
+
+        async execute(_id: string, params: Record<string, unknown>) {
+          try {
+            const result = await client.rpc('create-story',
+              pick(params, ['title', 'premise', 'genre', 'audience', 'language', 'confirmation_token']))
+
+            if (isConfirmationResponse(result)) {
+              return jsonResult({
+                ...result,
+                instruction: 'Present this new story to the user. Call again with the confirmation_token when approved.',
+              })
+            }
+            return jsonResult(result)
+          } catch (err) { throw wrapError(err) }
+        },
+      },
+
+      // --- Write Chapter ---
+      {
+        name: 'storymation_write_chapter',
+        label: 'Write Chapter',
+        description:
+          'Add a chapter to a story. Appended at the end unless position is given (later chapters move down). ' +
+          'May require user confirmation — if confirmation_required is returned, present it and call again with the token.',
+
+        parameters: {
+          type: 'object',
+          properties: {
+            story_id: { type: 'string', description: 'Story to add the chapter to' },
+            title: { type: 'string', description: 'Chapter title', maxLength: 200 },
+            text: { type: 'string', description: 'Full chapter text', maxLength: MAX_CHAPTER_CHARS },
+            summary: { type: 'string', description: 'Short summary for continuity in later chapters', maxLength: 1000 },
+            position: { type: 'integer', minimum: 1, description: 'Insert at this 1-based position (default: append)' },
+            confirmation_token: { type: 'string', description: 'Token from a previous confirmation_required response' },
+          },
+          required: ['story_id', 'title', 'text'],
+          additionalProperties: false,
+        },
+
+        async execute(_id: string, params: Record<string, unknown>) {
+          try {
+            const result = await client.rpc('write-chapter',
+              pick(params, ['story_id', ...CHAPTER_FIELDS, 'confirmation_token']))
+
+            if (isConfirmationResponse(result)) {
+              return jsonResult({
+                ...result,
+                instruction: 'Present this chapter to the user. Call again with the confirmation_token when approved.',
+              })
+            }
+            return jsonResult(result)
+          } catch (err) { throw wrapError(err) }
+        },
+      },
+
+      // --- Update Chapter ---
+      {
+        name: 'storymation_update_chapter',
+        label: 'Update Chapter',
+        description:
+          'Revise a chapter: title, text, summary, or move it to another position. Only the fields passed change. ' +
+          'Changing the text makes an existing narration stale — narrate the chapter again afterwards. ' +
+          'May require user confirmation.',
+
+        parameters: {
+          type: 'object',
+          properties: {
+            chapter_id: { type: 'string', description: 'Chapter to update' },
+            title: { type: 'string', maxLength: 200 },
+            text: { type: 'string', description: 'Replacement chapter text', maxLength: MAX_CHAPTER_CHARS },
+            summary: { type: 'string', maxLength: 1000 },
+            position: { type: 'integer', minimum: 1, description: 'Move the chapter to this 1-based position' },
+            confirmation_token: { type: 'string', description: 'Token from a previous confirmation_required response' },
+          },
+          required: ['chapter_id'],
+          additionalProperties: false,
+        },
+
+        async execute(_id: string, params: Record<string, unknown>) {
+          try {
+            const changes = pick(params, CHAPTER_FIELDS)
+            if (Object.keys(changes).length === 0) {
+              throw new CynapsApiError(`Nothing to update — pass at least one of ${CHAPTER_FIELDS.join(', ')}`, 400, 'NO_CHANGES')
+            }
+            const result = await client.rpc('update-chapter',
+              pick(params, ['chapter_id', ...CHAPTER_FIELDS, 'confirmation_token']))
+
+            if (isConfirmationResponse(result)) {
+              return jsonResult({
+                ...result,
+                instruction: 'Present this chapter change to the user. Call again with the confirmation_token when approved.',
+              })
+            }
+            return jsonResult(result)
+          } catch (err) { throw wrapError(err) }
+        },
+      },
+
+      // --- List Chapters ---
+      {
+        name: 'storymation_list_chapters',
+        label: 'List Chapters',
+        description:
+          'List a story\'s chapters in reading order with title, summary, word count and narration status. ' +
+          'Pass include_text to get the full text too (large — use it when you need to continue or revise the story).',
+
+        parameters: {
+          type: 'object',
+          properties: {
+            story_id: { type: 'string', description: 'Story to list' },
+            include_text: { type: 'boolean', default: false, description: 'Include each chapter\'s full text' },
+          },
+          required: ['story_id'],
+          additionalProperties: false,
+        },
+
+        async execute(_id: string, params: Record<string, unknown>) {
+          try {
+            const result = await client.rpc<ChapterList>('list-chapters',
+              pick(params, ['story_id', 'include_text']))
+            if (!result?.story) throw new CynapsApiError('Story not found', 404, 'STORY_NOT_FOUND')
+
+            const chapters = [...(result.chapters ?? [])].sort((a, b) => a.position - b.position)
+            return jsonResult({
+              story: result.story,
+              chapters,
+              count: chapters.length,
+              total_words: chapters.reduce((n, c) => n + (c.word_count ?? 0), 0),
+            })
+          } catch (err) { throw wrapError(err) }
+        },
+      },
+
+      // --- Narrate Chapter ---
+      {
+        name: 'storymation_narrate_chapter',
+        label: 'Narrate Chapter',
+        description:
+          'Generate a spoken narration of a chapter. It is queued as an audio item in the content library; ' +
+          'check storymation_list_chapters for narration_status (a completion message may also arrive on hosts that support it). ' +
+          'Costs credits and may require user confirmation — if confirmation_required is returned, present it ' +
+          'and call again with the token.',
+
+        parameters: {
+          type: 'object',
+          properties: {
+            chapter_id: { type: 'string', description: 'Chapter to narrate' },
+            voice: { type: 'string', description: 'Narrator voice name or ID (default: the story\'s voice)', maxLength: 100 },
+            direction: {
+              type: 'string',
+              description: 'Performance notes, e.g. "warm, unhurried, soft voices for the dialogue"',
+              maxLength: 500,
+            },
+            confirmation_token: { type: 'string', description: 'Token from a previous confirmation_required response' },
+          },
+          required: ['chapter_id'],
+          additionalProperties: false,
+        },
+
+        async execute(_id: string, params: Record<string, unknown>) {
+          try {
+            const result = await client.rpc<NarrationResult>('narrate-chapter',
+              pick(params, ['chapter_id', 'voice', 'direction', 'confirmation_token']))
+
+            if (isConfirmationResponse(result)) {
+              return jsonResult({
+                ...result,
+                instruction: 'Present this narration (and its cost) to the user. Call again with the confirmation_token when approved.',
+              })
+            }
+            return jsonResult({
+              ...result,
+              message: `Narration queued as item ${result.item_id}. Check storymation_list_chapters for narration_status.`,
+            })
+          } catch (err) { throw wrapError(err) }
+        },
+      },
+    ] as AgentTool[]
+  })
+}
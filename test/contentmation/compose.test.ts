@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest'
+import { composePost, countChars, normalizeHashtags } from '../../src/contentmation/compose.js'
+
+const LINK = 'https://content.7cycle.life/details/track_1'
+
+describe('normalizeHashtags', () => {
+  it('strips "#" and punctuation and drops case-insensitive duplicates', () => {
+    expect(normalizeHashtags(['#lofi', 'LoFi', 'new music', '#', 'très-bien'])).toEqual(['lofi', 'newmusic', 'trèsbien'])
+  })
+})
+
+describe('countChars', () => {
+  it('counts every URL as 23 characters on X only', () => {
+    expect(countChars(`Hi ${LINK}`, 'x')).toBe(3 + 23)
+    expect(countChars(`Hi ${LINK}`, 'facebook')).toBe(3 + LINK.length)
+  })
+
+  it('counts code points, not UTF-16 units', () => {
+    expect(countChars('🎧🎧', 'instagram')).toBe(2)
+  })
+})
+
+describe('composePost', () => {
+  it('appends the listen link and hashtags to social copy', () => {
+    const post = composePost({ channel: 'x', text: ' Out now. ', hashtags: ['synthwave'], listen_url: LINK, image_url: 'https://cdn/a.png' })
+    expect(post.body).toBe(`Out now.\n\n${LINK}\n\n#synthwave`)
+    expect(post).toMatchObject({ length: 8 + 2 + 23 + 2 + 10, limit: 280, warnings: [] })
+  })
+
+  it('builds a Markdown article with artwork for the blog', () => {
+    const post = composePost({ channel: 'blog', title: 'Night [Drive]', text: 'Notes.', hashtags: ['lofi'], listen_url: LINK, image_url: 'https://cdn/a.png' })
+    expect(post.body).toBe(`# Night [Drive]\n\n![Night \\[Drive\\]](https://cdn/a.png)\n\nNotes.\n\n[Listen](${LINK})\n\nTags: lofi`)
+    expect(post.limit).toBeNull()
+  })
+
+  it('warns about unclickable links, hashtag limits and missing artwork', () => {
+    const hashtags = Array.from({ length: 31 }, (_, i) => `tag${i}`)
+    const post = composePost({ channel: 'instagram', text: 'Out now', hashtags, listen_url: LINK, image_url: null })
+    expect(post.warnings).toHaveLength(3)
+    expect(post.warnings[0]).toContain('at most 30 hashtags')
+  })
+})
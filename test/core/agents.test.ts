@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import { assertSpendingCap, resolveAgentConfig, spendingCapIssue, spendingCapWarning } from '../../src/core/agents.js'
+import type { CynapsConfig } from '../../src/core/types.js'
+import { MOCK_CONFIG } from '../fixtures/mock-config.js'
+
+const CONFIG: CynapsConfig = {
+  ...MOCK_CONFIG,
+  defaultProvider: 'suno',
+  spendingCaps: { maxCreditsPerRequest: 500 },
+  tools: { allow: ['cynaps3_*', 'musicmation_*'], deny: ['musicmation_purge_trash'] },
+  agents: {
+    flow: { enabledModules: ['musicmation', 'contentmation'], defaultProvider: 'sonauto', tools: { allow: [], deny: ['*generate*'] } },
+    pete: { defaultProjectId: 'proj_pete', spendingCaps: { maxTracksPerRequest: 2 } },
+  },
+}
+
+describe('resolveAgentConfig', () => {
+  it('returns the config unchanged without a matching profile', () => {
+    expect(resolveAgentConfig(CONFIG, 'someone-else')).toBe(CONFIG)
+    expect(resolveAgentConfig(CONFIG)).toBe(CONFIG)
+  })
+
+  it('replaces profile fields and keeps the rest', () => {
+    const pete = resolveAgentConfig(CONFIG, 'pete')
+    expect(pete).toMatchObject({
+      enabledModules: ['musicmation'],
+      defaultProjectId: 'proj_pete',
+      defaultProvider: 'suno',
+      spendingCaps: { maxTracksPerRequest: 2 },
+      tools: CONFIG.tools,
+    })
+  })
+
+  it('replaces the allow list but adds to the deny list', () => {
+    const flow = resolveAgentConfig(CONFIG, 'flow')
+    expect(flow.enabledModules).toEqual(['musicmation', 'contentmation'])
+    expect(flow.defaultProvider).toBe('sonauto')
+    expect(flow.tools).toEqual({ allow: [], deny: ['musicmation_purge_trash', '*generate*'] })
+  })
+
+  it('falls back to the static agentId', () => {
+    expect(resolveAgentConfig({ ...CONFIG, agentId: 'pete' }).defaultProjectId).toBe('proj_pete')
+  })
+})
+
+describe('spending caps', () => {
+  it('checks tracks and credits per request', () => {
+    const caps = { maxCreditsPerRequest: 100, maxTracksPerRequest: 5 }
+    expect(spendingCapIssue(caps, 5, 100)).toBeNull()
+    expect(spendingCapIssue(caps, 6, 60)).toContain('at most 5 track(s)')
+    expect(spendingCapIssue(caps, 2, 200)).toContain('at most 100 credits')
+    expect(spendingCapIssue({ maxTracksPerRequest: 5 }, 2, null)).toBeNull()
+    expect(spendingCapIssue(undefined, 1000, 1_000_000)).toBeNull()
+  })
+
+  it('lets an unknown cost through a credit cap with a warning unless told to refuse it', () => {
+    const caps = { maxCreditsPerRequest: 100 }
+    expect(spendingCapIssue(caps, 2, null)).toBeNull()
+    expect(spendingCapWarning(caps, null)).toContain("100-credit cap wasn't checked")
+    expect(spendingCapWarning(caps, 50)).toBeNull()
+    expect(spendingCapWarning({ maxTracksPerRequest: 5 }, null)).toBeNull()
+
+    const strict = { ...caps, refuseUnknownCost: true }
+    expect(spendingCapIssue(strict, 2, null)).toContain('cost is unknown')
+    expect(spendingCapWarning(strict, null)).toBeNull()
+  })
+
+  it('throws SPENDING_CAP_EXCEEDED', () => {
+    expect(() => assertSpendingCap({ maxTracksPerRequest: 1 }, 2, null)).toThrow(
+      expect.objectContaining({ code: 'SPENDING_CAP_EXCEEDED', status: 400, userMessage: expect.stringContaining('at most 1 track') }),
+    )
+  })
+})
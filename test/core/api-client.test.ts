@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { CynapsApiClient } from '../../src/core/api-client.js'
 import { CynapsApiError } from '../../src/core/errors.js'
+import { MemoryCache } from '../../src/core/cache.js'
+import { CircuitBreakerRegistry } from '../../src/core/circuit-breaker.js'
 import { MOCK_CONFIG } from '../fixtures/mock-config.js'
 
 /**
@@ -16,7 +18,8 @@ describe('CynapsApiClient', () => {
   beforeEach(() => {
     vi.stubGlobal('fetch', mockFetch)
     vi.stubGlobal('crypto', { randomUUID: () => 'test-uuid' })
-    client = new CynapsApiClient(MOCK_CONFIG)
+    // Fresh breakers per test so failures in one test never open a circuit in the next
+    client = new CynapsApiClient(MOCK_CONFIG, { breakers: new CircuitBreakerRegistry() })
     mockFetch.mockReset()
   })
 
@@ -186,6 +189,318 @@ describe('CynapsApiClient', () => {
     })
   })
 
+  // ─── queryPage() ─────────────────────────────────────────────
+
+  describe('queryPage()', () => {
+    it('asks for an exact count and reads the total from Content-Range', async () => {
+      mockFetch.mockResolvedValue({
+        ...mockJsonResponse([{ id: 'a' }]),
+        headers: new Headers({ 'Content-Range': '0-0/42' }),
+      })
+
+      const page = await client.queryPage('sunoma_items', { limit: '1', offset: '0' })
+
+      expect(mockFetch.mock.calls[0][1].headers.Prefer).toBe('count=exact')
+      expect(mockFetch.mock.calls[0][0]).toContain('limit=1')
+      expect(page).toEqual({ rows: [{ id: 'a' }], total: 42 })
+    })
+
+    it('returns a null total when the header is missing', async () => {
+      mockFetch.mockResolvedValue(mockJsonResponse([]))
+      expect(await client.queryPage('sunoma_items')).toEqual({ rows: [], total: null })
+    })
+  })
+
+  // ─── query() retry ──────────────────────────────────────────
+
+  describe('query() retry', () => {
+    it('retries 5xx responses', async () => {
+      vi.useFakeTimers()
+      mockFetch
+        .mockResolvedValueOnce(mockJsonResponse({ error: 'Unavailable' }, 503))
+        .mockResolvedValueOnce(mockJsonResponse([{ id: 'trk-1' }]))
+
+      const promise = client.query('sunoma_items', { id: 'eq.trk-1' })
+      await vi.advanceTimersByTimeAsync(5_000)
+      expect(await promise).toEqual([{ id: 'trk-1' }])
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+      vi.useRealTimers()
+    })
+
+    it('does not retry 4xx responses', async () => {
+      mockFetch.mockResolvedValue(mockJsonResponse({ error: 'Bad filter' }, 400))
+      await expect(client.query('sunoma_items')).rejects.toThrow(CynapsApiError)
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('retries network errors', async () => {
+      vi.useFakeTimers()
+      mockFetch
+        .mockRejectedValueOnce(new Error('fetch failed'))
+        .mockResolvedValueOnce(mockJsonResponse([]))
+
+      const promise = client.query('sunoma_items')
+      await vi.advanceTimersByTimeAsync(5_000)
+      expect(await promise).toEqual([])
+      vi.useRealTimers()
+    })
+
+    it('does not retry a POST without a row id', async () => {
+      mockFetch.mockResolvedValue(mockJsonResponse({ error: 'Gateway' }, 502))
+      await expect(client.query('sunoma_items', undefined, { method: 'POST', body: { title: 'T' } }))
+        .rejects.toThrow(CynapsApiError)
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('retries a POST that carries its row id', async () => {
+      vi.useFakeTimers()
+      mockFetch
+        .mockResolvedValueOnce(mockJsonResponse({ error: 'Gateway' }, 502))
+        .mockResolvedValueOnce(mockJsonResponse([{ id: 'trk_1' }]))
+
+      const promise = client.query('sunoma_items', undefined, { method: 'POST', body: { id: 'trk_1', title: 'T' } })
+      await vi.advanceTimersByTimeAsync(5_000)
+      expect(await promise).toEqual([{ id: 'trk_1' }])
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+      vi.useRealTimers()
+    })
+
+    it('reads the row back when a retried insert conflicts on its own id', async () => {
+      vi.useFakeTimers()
+      mockFetch
+        .mockRejectedValueOnce(new Error('fetch failed'))
+        .mockResolvedValueOnce(mockJsonResponse({ error: 'duplicate key' }, 409))
+        .mockResolvedValueOnce(mockJsonResponse([{ id: 'trk_1', title: 'T' }]))
+
+      const promise = client.query('sunoma_items', undefined, { method: 'POST', body: { id: 'trk_1', title: 'T' } })
+      await vi.advanceTimersByTimeAsync(5_000)
+      expect(await promise).toEqual([{ id: 'trk_1', title: 'T' }])
+
+      const [url, init] = mockFetch.mock.calls[2]
+      expect(init.method).toBe('GET')
+      expect(new URL(url).searchParams.get('id')).toBe('eq.trk_1')
+      vi.useRealTimers()
+    })
+
+    it('rethrows a 409 when no row with that id exists', async () => {
+      mockFetch
+        .mockResolvedValueOnce(mockJsonResponse({ error: 'name taken' }, 409))
+        .mockResolvedValueOnce(mockJsonResponse([]))
+
+      await expect(client.query('skillmation_skills', undefined, { method: 'POST', body: { id: 'skill_1', name: 'x' } }))
+        .rejects.toMatchObject({ status: 409 })
+    })
+
+    it('sends the same Idempotency-Key on every attempt of a keyed POST', async () => {
+      vi.useFakeTimers()
+      mockFetch
+        .mockResolvedValueOnce(mockJsonResponse({ error: 'Gateway' }, 502))
+        .mockResolvedValueOnce(mockJsonResponse([{ id: 'trk_1' }]))
+
+      const promise = client.query('sunoma_items', undefined, { method: 'POST', body: { id: 'trk_1' } })
+      await vi.advanceTimersByTimeAsync(5_000)
+      await promise
+
+      const keys = mockFetch.mock.calls.map(([, init]) => init.headers['Idempotency-Key'])
+      expect(keys).toEqual(['sunoma_items:trk_1', 'sunoma_items:trk_1'])
+      vi.useRealTimers()
+    })
+
+    it('retries a POST with a caller-supplied idempotency key', async () => {
+      vi.useFakeTimers()
+      mockFetch
+        .mockRejectedValueOnce(new Error('fetch failed'))
+        .mockResolvedValueOnce(mockJsonResponse([{ id: 'row-9' }]))
+
+      const promise = client.query('sunoma_items', undefined, {
+        method: 'POST',
+        body: { title: 'T' },
+        idempotencyKey: 'import-42',
+      })
+      await vi.advanceTimersByTimeAsync(5_000)
+      expect(await promise).toEqual([{ id: 'row-9' }])
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+      expect(mockFetch.mock.calls[1][1].headers['Idempotency-Key']).toBe('import-42')
+      vi.useRealTimers()
+    })
+
+    it('sends no Idempotency-Key on unkeyed POSTs or other methods', async () => {
+      mockFetch.mockResolvedValue(mockJsonResponse([{ id: 'x' }]))
+      await client.query('sunoma_items', { id: 'eq.x' }, { method: 'PATCH', body: { title: 'T' } })
+      await client.query('sunoma_items', undefined, { method: 'POST', body: { title: 'T' } })
+      for (const [, init] of mockFetch.mock.calls) {
+        expect(init.headers['Idempotency-Key']).toBeUndefined()
+      }
+    })
+
+    it('retries 429 after the Retry-After delay', async () => {
+      vi.useFakeTimers()
+      const limited = mockJsonResponse({ error: 'Slow down' }, 429)
+      limited.headers.set('Retry-After', '3')
+      mockFetch
+        .mockResolvedValueOnce(limited)
+        .mockResolvedValueOnce(mockJsonResponse([]))
+
+      const promise = client.query('sunoma_items')
+      await vi.advanceTimersByTimeAsync(2_900)
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      await vi.advanceTimersByTimeAsync(100)
+      expect(await promise).toEqual([])
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+      vi.useRealTimers()
+    })
+
+    it('gives up on 429 once retries run out', async () => {
+      mockFetch.mockResolvedValue(mockJsonResponse({ error: 'Slow down' }, 429))
+      await expect(client.query('sunoma_items', undefined, { retries: 0 })).rejects.toMatchObject({ status: 429 })
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  // ─── Response Cache ─────────────────────────────────────────
+
+  describe('response cache', () => {
+    let cache: MemoryCache
+    let cached: CynapsApiClient
+
+    beforeEach(() => {
+      cache = new MemoryCache()
+      cached = new CynapsApiClient(MOCK_CONFIG, { cache })
+    })
+
+    it('serves read-mostly RPCs from cache while fresh', async () => {
+      mockFetch.mockResolvedValue(mockJsonResponse({ styles: [] }))
+      await cached.rpc('browse-styles', { query: 'kraftwerk' })
+      const second = await cached.rpc('browse-styles', { query: 'kraftwerk' })
+
+      expect(second).toEqual({ styles: [] })
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      expect(cached.cacheStats()).toMatchObject({ hits: 1, misses: 1 })
+    })
+
+    it('keys entries by params', async () => {
+      mockFetch.mockResolvedValue(mockJsonResponse({ styles: [] }))
+      await cached.rpc('browse-styles', { query: 'a' })
+      await cached.rpc('browse-styles', { query: 'b' })
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('never caches uncached methods', async () => {
+      mockFetch.mockResolvedValue(mockJsonResponse({ tracks: [] }))
+      await cached.rpc('search-tracks', {})
+      await cached.rpc('search-tracks', {})
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+      expect(cached.cacheStats().misses).toBe(0)
+    })
+
+    it('honors per-method TTL overrides', async () => {
+      const noPersonas = new CynapsApiClient(MOCK_CONFIG, { cache, cacheTtls: { 'get-personas': 0 } })
+      mockFetch.mockResolvedValue(mockJsonResponse({ personas: [] }))
+      await noPersonas.rpc('get-personas')
+      await noPersonas.rpc('get-personas')
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('set-project-context invalidates get-project-context', async () => {
+      mockFetch.mockResolvedValue(mockJsonResponse({ rules: [] }))
+      await cached.rpc('get-project-context')
+      await cached.rpc('set-project-context', { context: { rules: [] } })
+      await cached.rpc('get-project-context')
+      expect(mockFetch).toHaveBeenCalledTimes(3)
+    })
+
+    it('writes to sunoma_projects invalidate project-scoped reads', async () => {
+      mockFetch.mockResolvedValue(mockJsonResponse({ rules: [] }))
+      await cached.rpc('get-project-context')
+      await cached.rpc('get-personas')
+
+      mockFetch.mockResolvedValue(mockJsonResponse([{ id: 'p1' }]))
+      await cached.query('sunoma_projects', { id: 'eq.p1' }, { method: 'PATCH', body: { name: 'New' } })
+
+      mockFetch.mockResolvedValue(mockJsonResponse({ rules: [] }))
+      await cached.rpc('get-project-context')
+      await cached.rpc('get-personas')
+      // project context re-fetched, personas still cached
+      expect(mockFetch).toHaveBeenCalledTimes(4)
+    })
+
+    it('does not cache failed calls', async () => {
+      mockFetch.mockResolvedValueOnce(mockJsonResponse({ error: 'Bad' }, 400))
+      await expect(cached.rpc('get-personas')).rejects.toThrow(CynapsApiError)
+      mockFetch.mockResolvedValueOnce(mockJsonResponse({ personas: [] }))
+      expect(await cached.rpc('get-personas')).toEqual({ personas: [] })
+    })
+  })
+
+  // ─── Circuit Breaker ────────────────────────────────────────
+
+  describe('circuit breaker', () => {
+    it('opens after repeated failures and fails fast with CIRCUIT_OPEN', async () => {
+      const breakers = new CircuitBreakerRegistry({ failureThreshold: 2 })
+      const c = new CynapsApiClient(MOCK_CONFIG, { breakers })
+      mockFetch.mockResolvedValue(mockJsonResponse({ error: 'Down' }, 503))
+
+      await expect(c.call('suno-generation-enqueue', {}, { retries: 0 })).rejects.toThrow(CynapsApiError)
+      await expect(c.call('suno-generation-enqueue', {}, { retries: 0 })).rejects.toThrow(CynapsApiError)
+      mockFetch.mockClear()
+
+      const err = await c.call('suno-generation-enqueue', {}).catch((e) => e)
+      expect(err).toBeInstanceOf(CynapsApiError)
+      expect(err.code).toBe('CIRCUIT_OPEN')
+      expect(err.isCircuitOpen).toBe(true)
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('stops retrying once the breaker opens mid-call', async () => {
+      vi.useFakeTimers()
+      const breakers = new CircuitBreakerRegistry({ failureThreshold: 2 })
+      const c = new CynapsApiClient(MOCK_CONFIG, { breakers })
+      mockFetch.mockResolvedValue(mockJsonResponse({ error: 'Down' }, 500))
+
+      const promise = c.rpc('test')
+      const assertion = expect(promise).rejects.toMatchObject({ code: 'CIRCUIT_OPEN' })
+      await vi.advanceTimersByTimeAsync(5_000)
+      await assertion
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+      vi.useRealTimers()
+    })
+
+    it('tracks breakers per edge function', async () => {
+      const breakers = new CircuitBreakerRegistry({ failureThreshold: 1 })
+      const c = new CynapsApiClient(MOCK_CONFIG, { breakers })
+      mockFetch.mockResolvedValueOnce(mockJsonResponse({ error: 'Down' }, 503))
+      await expect(c.call('suno-proxy', {}, { retries: 0 })).rejects.toThrow()
+
+      mockFetch.mockResolvedValue(mockJsonResponse([]))
+      await expect(c.query('sunoma_items')).resolves.toEqual([])
+
+      const states = Object.fromEntries(c.circuitStates().map((s) => [s.name, s.state]))
+      expect(states).toEqual({ 'skill-api': 'closed', 'suno-proxy': 'open' })
+    })
+
+    it('does not count 4xx responses as failures', async () => {
+      const breakers = new CircuitBreakerRegistry({ failureThreshold: 1 })
+      const c = new CynapsApiClient(MOCK_CONFIG, { breakers })
+      mockFetch.mockResolvedValue(mockJsonResponse({ error: 'Bad' }, 400))
+      await expect(c.rpc('test')).rejects.toThrow()
+      expect(c.circuitStates()[0].state).toBe('closed')
+    })
+
+    it('closes again after a successful half-open probe', async () => {
+      vi.useFakeTimers()
+      const breakers = new CircuitBreakerRegistry({ failureThreshold: 1, cooldownMs: 1_000 })
+      const c = new CynapsApiClient(MOCK_CONFIG, { breakers })
+      mockFetch.mockResolvedValueOnce(mockJsonResponse({ error: 'Down' }, 503))
+      await expect(c.rpc('test', {}, { retries: 0 })).rejects.toThrow()
+
+      vi.advanceTimersByTime(1_000)
+      mockFetch.mockResolvedValueOnce(mockJsonResponse({ ok: true }))
+      expect(await c.rpc('test')).toEqual({ ok: true })
+      expect(c.circuitStates()[0].state).toBe('closed')
+      vi.useRealTimers()
+    })
+  })
+
   // ─── Error Handling ─────────────────────────────────────────
 
   describe('error handling', () => {
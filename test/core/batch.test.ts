@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { chunk, mapChunks, describeFailedChunks } from '../../src/core/batch.js'
+import { CynapsApiError } from '../../src/core/errors.js'
+
+const ids = (n: number) => Array.from({ length: n }, (_, i) => `t${i}`)
+
+describe('chunk', () => {
+  it('splits into consecutive chunks with a short last one', () => {
+    expect(chunk(ids(5), 2)).toEqual([['t0', 't1'], ['t2', 't3'], ['t4']])
+    expect(chunk([], 20)).toEqual([])
+  })
+
+  it('rejects non-positive sizes', () => {
+    expect(() => chunk(ids(3), 0)).toThrow(RangeError)
+  })
+})
+
+describe('mapChunks', () => {
+  it('never runs more than `concurrency` chunks at once', async () => {
+    let inFlight = 0
+    let peak = 0
+    await mapChunks(ids(100), 10, 3, async () => {
+      peak = Math.max(peak, ++inFlight)
+      await new Promise((r) => setTimeout(r, 1))
+      inFlight--
+    })
+    expect(peak).toBe(3)
+  })
+
+  it('returns outcomes in chunk order even when later chunks finish first', async () => {
+    const outcomes = await mapChunks(ids(6), 2, 3, async (items, index) => {
+      await new Promise((r) => setTimeout(r, (3 - index) * 2))
+      return items.join('+')
+    })
+    expect(outcomes.map((o) => o.ok && o.value)).toEqual(['t0+t1', 't2+t3', 't4+t5'])
+  })
+
+  it('reports a failed chunk without aborting the others', async () => {
+    const outcomes = await mapChunks(ids(5), 2, 2, async (items, index) => {
+      if (index === 1) throw new CynapsApiError('Rate limited', 429, 'RATE_LIMITED')
+      return items.length
+    })
+
+    expect(outcomes.map((o) => o.ok)).toEqual([true, false, true])
+    expect(describeFailedChunks(outcomes)).toEqual([
+      { chunk: 2, ids: ['t2', 't3'], error: 'Rate limited', code: 'RATE_LIMITED' },
+    ])
+  })
+
+  it('wraps non-API errors', async () => {
+    const [outcome] = await mapChunks(['a'], 1, 1, async () => { throw new Error('boom') })
+    expect(outcome.ok).toBe(false)
+    expect(!outcome.ok && outcome.error.code).toBe('PLUGIN_ERROR')
+  })
+})
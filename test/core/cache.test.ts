@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { MemoryCache, stableStringify } from '../../src/core/cache.js'
+
+describe('MemoryCache', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('returns stored values until the TTL expires', () => {
+    vi.useFakeTimers()
+    const cache = new MemoryCache()
+    cache.set('k', { v: 1 }, 1_000)
+
+    expect(cache.get('k')).toEqual({ v: 1 })
+    vi.advanceTimersByTime(1_001)
+    expect(cache.get('k')).toBeUndefined()
+  })
+
+  it('hands out copies, so mutating a result leaves the entry intact', () => {
+    const cache = new MemoryCache()
+    const stored = { styles: [{ id: 's1' }] }
+    cache.set('k', stored, 1_000)
+    stored.styles.push({ id: 'late' })
+
+    const first = cache.get('k') as typeof stored
+    first.styles[0].id = 'mutated'
+
+    expect(cache.get('k')).toEqual({ styles: [{ id: 's1' }] })
+  })
+
+  it('counts hits and misses', () => {
+    const cache = new MemoryCache()
+    cache.get('missing')
+    cache.set('k', 1, 1_000)
+    cache.get('k')
+    cache.get('k')
+
+    expect(cache.stats()).toEqual({ hits: 2, misses: 1, size: 1 })
+  })
+
+  it('invalidates by key prefix', () => {
+    const cache = new MemoryCache()
+    cache.set('rpc:get-personas:{}', 1, 1_000)
+    cache.set('rpc:get-project-context:{}', 2, 1_000)
+    cache.invalidate('rpc:get-project-context:')
+
+    expect(cache.get('rpc:get-personas:{}')).toBe(1)
+    expect(cache.get('rpc:get-project-context:{}')).toBeUndefined()
+  })
+
+  it('evicts the oldest entry when full', () => {
+    const cache = new MemoryCache(2)
+    cache.set('a', 1, 1_000)
+    cache.set('b', 2, 1_000)
+    cache.set('c', 3, 1_000)
+
+    expect(cache.get('a')).toBeUndefined()
+    expect(cache.get('c')).toBe(3)
+    expect(cache.stats().size).toBe(2)
+  })
+})
+
+describe('stableStringify', () => {
+  it('ignores key order', () => {
+    expect(stableStringify({ b: 1, a: { d: 2, c: 3 } })).toBe(stableStringify({ a: { c: 3, d: 2 }, b: 1 }))
+  })
+
+  it('preserves array order', () => {
+    expect(stableStringify(['x', 'y'])).not.toBe(stableStringify(['y', 'x']))
+  })
+
+  it('skips undefined values', () => {
+    expect(stableStringify({ a: 1, b: undefined })).toBe(stableStringify({ a: 1 }))
+  })
+})
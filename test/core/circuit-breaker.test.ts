@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { CircuitBreaker, CircuitBreakerRegistry } from '../../src/core/circuit-breaker.js'
+
+describe('CircuitBreaker', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('starts closed and allows requests', () => {
+    const breaker = new CircuitBreaker('agent-tools')
+    expect(breaker.allow()).toBe(true)
+    expect(breaker.snapshot().state).toBe('closed')
+  })
+
+  it('opens after the failure threshold', () => {
+    const breaker = new CircuitBreaker('agent-tools', { failureThreshold: 3 })
+    breaker.recordFailure()
+    breaker.recordFailure()
+    expect(breaker.allow()).toBe(true)
+    breaker.recordFailure()
+    expect(breaker.allow()).toBe(false)
+    expect(breaker.snapshot().state).toBe('open')
+  })
+
+  it('resets the failure count on success', () => {
+    const breaker = new CircuitBreaker('agent-tools', { failureThreshold: 2 })
+    breaker.recordFailure()
+    breaker.recordSuccess()
+    breaker.recordFailure()
+    expect(breaker.snapshot().state).toBe('closed')
+  })
+
+  it('half-opens after the cooldown and allows a single probe', () => {
+    vi.useFakeTimers()
+    const breaker = new CircuitBreaker('agent-tools', { failureThreshold: 1, cooldownMs: 1_000 })
+    breaker.recordFailure()
+    expect(breaker.snapshot().retryInMs).toBe(1_000)
+
+    vi.advanceTimersByTime(1_000)
+    expect(breaker.allow()).toBe(true)
+    expect(breaker.snapshot().state).toBe('half_open')
+    expect(breaker.allow()).toBe(false)
+  })
+
+  it('closes when the probe succeeds', () => {
+    vi.useFakeTimers()
+    const breaker = new CircuitBreaker('agent-tools', { failureThreshold: 1, cooldownMs: 1_000 })
+    breaker.recordFailure()
+    vi.advanceTimersByTime(1_000)
+    breaker.allow()
+    breaker.recordSuccess()
+    expect(breaker.snapshot()).toMatchObject({ state: 'closed', failures: 0 })
+  })
+
+  it('re-opens when the probe fails', () => {
+    vi.useFakeTimers()
+    const breaker = new CircuitBreaker('agent-tools', { failureThreshold: 5, cooldownMs: 1_000 })
+    for (let i = 0; i < 5; i++) breaker.recordFailure()
+    vi.advanceTimersByTime(1_000)
+    breaker.allow()
+    breaker.recordFailure()
+    expect(breaker.snapshot().state).toBe('open')
+    expect(breaker.allow()).toBe(false)
+  })
+})
+
+describe('CircuitBreakerRegistry', () => {
+  it('returns one breaker per name', () => {
+    const registry = new CircuitBreakerRegistry()
+    expect(registry.get('a')).toBe(registry.get('a'))
+    expect(registry.get('a')).not.toBe(registry.get('b'))
+  })
+
+  it('snapshots every breaker sorted by name', () => {
+    const registry = new CircuitBreakerRegistry()
+    registry.get('suno-proxy')
+    registry.get('agent-tools')
+    expect(registry.snapshot().map((s) => s.name)).toEqual(['agent-tools', 'suno-proxy'])
+  })
+})
@@ -68,10 +68,78 @@ describe('parseConfig', () => {
   it('returns all config fields', () => {
     const config = parseConfig(MOCK_RAW_CONFIG)
     expect(Object.keys(config).sort()).toEqual([
-      'agentId', 'contentDomain', 'enabledModules', 'serviceRoleKey', 'supabaseAnonKey', 'supabaseUrl', 'userId',
+      'agentId', 'agents', 'contentDomain', 'defaultProjectId', 'defaultProvider', 'enabledModules',
+      'serviceRoleKey', 'spendingCaps', 'supabaseAnonKey', 'supabaseUrl', 'tools', 'userId',
     ])
   })
 
+  // ─── tools ───────────────────────────────────────────────────
+
+  describe('tools', () => {
+    it('is undefined when not configured or both lists are empty', () => {
+      expect(parseConfig(MOCK_RAW_CONFIG).tools).toBeUndefined()
+      expect(parseConfig({ ...MOCK_RAW_CONFIG, tools: { allow: [], deny: [] } }).tools).toBeUndefined()
+    })
+
+    it('reads allow and deny patterns', () => {
+      const config = parseConfig({ ...MOCK_RAW_CONFIG, tools: { deny: ['musicmation_delete_project', 'musicmation_*generate*'] } })
+      expect(config.tools).toEqual({ allow: [], deny: ['musicmation_delete_project', 'musicmation_*generate*'] })
+    })
+
+    it('rejects malformed patterns instead of dropping them', () => {
+      expect(() => parseConfig({ ...MOCK_RAW_CONFIG, tools: { allow: ['Musicmation_*'] } }))
+        .toThrow('Invalid tools.allow pattern: "Musicmation_*"')
+      expect(() => parseConfig({ ...MOCK_RAW_CONFIG, tools: { deny: 'musicmation_*' } }))
+        .toThrow('Invalid tools.deny')
+      expect(() => parseConfig({ ...MOCK_RAW_CONFIG, tools: ['musicmation_*'] })).toThrow('Invalid tools')
+    })
+  })
+
+  // ─── agents ──────────────────────────────────────────────────
+
+  describe('agents', () => {
+    it('parses per-agent profiles', () => {
+      const config = parseConfig({
+        ...MOCK_RAW_CONFIG,
+        spendingCaps: { maxCreditsPerRequest: 500, refuseUnknownCost: true },
+        agents: {
+          flow: { enabledModules: ['musicmation', 'bogus'], defaultProvider: 'sonauto', tools: { deny: ['*_delete_*'] } },
+          pete: { enabledModules: [], defaultProjectId: 'proj_pete', spendingCaps: { maxTracksPerRequest: 3 } },
+        },
+      })
+      expect(config.spendingCaps).toEqual({ maxCreditsPerRequest: 500, refuseUnknownCost: true })
+      expect(config.agents).toEqual({
+        flow: { enabledModules: ['musicmation'], defaultProvider: 'sonauto', tools: { deny: ['*_delete_*'] } },
+        pete: { enabledModules: [], defaultProjectId: 'proj_pete', spendingCaps: { maxTracksPerRequest: 3 } },
+      })
+    })
+
+    it('keeps an explicitly empty allow list so it can override the global one', () => {
+      const config = parseConfig({ ...MOCK_RAW_CONFIG, agents: { flow: { tools: { allow: [] } } } })
+      expect(config.agents?.flow.tools).toEqual({ allow: [] })
+    })
+
+    it('rejects malformed profiles and caps', () => {
+      expect(() => parseConfig({ ...MOCK_RAW_CONFIG, agents: ['flow'] })).toThrow('Invalid agents')
+      expect(() => parseConfig({ ...MOCK_RAW_CONFIG, agents: { flow: 'musicmation' } })).toThrow('Invalid agents.flow')
+      expect(() => parseConfig({ ...MOCK_RAW_CONFIG, agents: { flow: { spendingCaps: { maxCreditsPerRequest: 0 } } } }))
+        .toThrow('Invalid agents.flow.spendingCaps.maxCreditsPerRequest')
+      expect(() => parseConfig({ ...MOCK_RAW_CONFIG, agents: { flow: { tools: { allow: ['Bad'] } } } }))
+        .toThrow('Invalid agents.flow.tools.allow pattern')
+      expect(() => parseConfig({ ...MOCK_RAW_CONFIG, spendingCaps: { maxTracksPerRequest: '5' } }))
+        .toThrow('Invalid spendingCaps.maxTracksPerRequest')
+      expect(() => parseConfig({ ...MOCK_RAW_CONFIG, spendingCaps: { refuseUnknownCost: 'yes' } }))
+        .toThrow('Invalid spendingCaps.refuseUnknownCost')
+    })
+
+    it('rejects unknown provider IDs', () => {
+      expect(() => parseConfig({ ...MOCK_RAW_CONFIG, defaultProvider: 'sonuto' }))
+        .toThrow('Invalid defaultProvider: unknown provider "sonuto" (available: suno, sonauto)')
+      expect(() => parseConfig({ ...MOCK_RAW_CONFIG, agents: { flow: { defaultProvider: 'Suno' } } }))
+        .toThrow('Invalid agents.flow.defaultProvider')
+    })
+  })
+
   // ─── contentDomain ───────────────────────────────────────────
 
   describe('contentDomain', () => {
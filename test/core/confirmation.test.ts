@@ -0,0 +1,32 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { CONFIRMATION_TTL_SEC, issueConfirmation, verifyConfirmation } from '../../src/core/confirmation.js'
+import { isConfirmationResponse } from '../../src/core/types.js'
+
+describe('plugin confirmation tokens', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('issues a standard confirmation response', () => {
+    const response = issueConfirmation('publish_skill', { skill_id: 's1', version: 2 }, 'Publish v2?')
+    expect(isConfirmationResponse(response)).toBe(true)
+    expect(response).toMatchObject({ capability: 'publish_skill', expires_in: CONFIRMATION_TTL_SEC, message: 'Publish v2?' })
+  })
+
+  it('verifies only for the same capability and subject', () => {
+    const { confirmation_token: token } = issueConfirmation('publish_skill', { skill_id: 's1', version: 2 }, '')
+
+    expect(verifyConfirmation(token, 'publish_skill', { version: 2, skill_id: 's1' })).toBe(true)
+    expect(verifyConfirmation(token, 'publish_skill', { skill_id: 's1', version: 3 })).toBe(false)
+    expect(verifyConfirmation(token, 'delete_skill', { skill_id: 's1', version: 2 })).toBe(false)
+    expect(verifyConfirmation('garbage', 'publish_skill', { skill_id: 's1', version: 2 })).toBe(false)
+    expect(verifyConfirmation(`${Date.now() + 60_000}.${token.split('.')[1]}`, 'publish_skill', { skill_id: 's1', version: 2 })).toBe(false)
+  })
+
+  it('expires', () => {
+    vi.useFakeTimers()
+    const { confirmation_token: token } = issueConfirmation('publish_skill', { skill_id: 's1' }, '')
+    vi.advanceTimersByTime(CONFIRMATION_TTL_SEC * 1000 + 1)
+    expect(verifyConfirmation(token, 'publish_skill', { skill_id: 's1' })).toBe(false)
+  })
+})
@@ -34,6 +34,11 @@ describe('CynapsApiError', () => {
       expect(new CynapsApiError('', 400).isAuthError).toBe(false)
     })
 
+    it('detects open circuits (CIRCUIT_OPEN)', () => {
+      expect(new CynapsApiError('', 503, 'CIRCUIT_OPEN').isCircuitOpen).toBe(true)
+      expect(new CynapsApiError('', 503).isCircuitOpen).toBe(false)
+    })
+
     it('detects rate limits (429)', () => {
       expect(new CynapsApiError('', 429).isRateLimited).toBe(true)
       expect(new CynapsApiError('', 400).isRateLimited).toBe(false)
@@ -56,6 +61,11 @@ describe('CynapsApiError', () => {
       expect(err.userMessage).toBe('Rate limit exceeded')
     })
 
+    it('returns original message for open circuits', () => {
+      const err = new CynapsApiError('agent-tools is temporarily unavailable — failing fast', 503, 'CIRCUIT_OPEN')
+      expect(err.userMessage).toBe('agent-tools is temporarily unavailable — failing fast')
+    })
+
     it('returns original message for client errors', () => {
       const err = new CynapsApiError('Invalid track_id', 400)
       expect(err.userMessage).toBe('Invalid track_id')
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import { filter } from '../../src/core/filter.js'
+import { CynapsApiError } from '../../src/core/errors.js'
+
+describe('filter', () => {
+  it('builds eq, gte and select params', () => {
+    expect(filter().eq('id', 'track_1').gte('rating', 4).select('id', 'title').build()).toEqual({
+      id: 'eq.track_1',
+      rating: 'gte.4',
+      select: 'id,title',
+    })
+  })
+
+  it('builds lt and null checks', () => {
+    expect(filter().lt('deleted_at', '2026-01-01').build()).toEqual({ deleted_at: 'lt.2026-01-01' })
+    expect(filter().isNull('deleted_at').build()).toEqual({ deleted_at: 'is.null' })
+    expect(filter().notNull('deleted_at').build()).toEqual({ deleted_at: 'not.is.null' })
+  })
+
+  it('leaves plain in() values unquoted', () => {
+    expect(filter().in('id', ['a', 'b_2', 'c-3']).build()).toEqual({ id: 'in.(a,b_2,c-3)' })
+  })
+
+  it('quotes in() values containing reserved characters', () => {
+    expect(filter().in('id', ['a,b', 'x)', 'has space', 'v1.2']).build().id)
+      .toBe('in.("a,b","x)","has space","v1.2")')
+  })
+
+  it('escapes quotes and backslashes inside quoted values', () => {
+    expect(filter().in('id', ['say "hi"', 'back\\slash']).build().id)
+      .toBe('in.("say \\"hi\\"","back\\\\slash")')
+  })
+
+  it('quotes empty strings so they survive as list members', () => {
+    expect(filter().in('id', ['']).build().id).toBe('in.("")')
+  })
+
+  it('escapes LIKE metacharacters in ilike patterns, keeping * as the wildcard', () => {
+    expect(filter().ilike('title', '*50%_off*').build().title).toBe('ilike.*50\\%\\_off*')
+  })
+
+  it('joins repeated order() calls', () => {
+    expect(filter().order('rating', 'desc').order('created_at').build().order).toBe('rating.desc,created_at.asc')
+  })
+
+  it('sets limit and offset', () => {
+    expect(filter().limit(20).offset(40).build()).toEqual({ limit: '20', offset: '40' })
+  })
+
+  it('rejects invalid column names', () => {
+    expect(() => filter().eq('id;owner_id', 'x')).toThrow(CynapsApiError)
+    expect(() => filter().select('id', 'title,owner_id')).toThrow(/Invalid filter column/)
+    expect(() => filter().eq('select', 'x')).toThrow(/Invalid filter column/)
+  })
+
+  it('rejects negative or fractional limit/offset', () => {
+    expect(() => filter().limit(-1)).toThrow(/Invalid limit/)
+    expect(() => filter().offset(1.5)).toThrow(/Invalid offset/)
+  })
+})
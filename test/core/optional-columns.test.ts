@@ -0,0 +1,118 @@
+import { describe, it, expect, vi } from 'vitest'
+import { insertOptional, isColumnMissing, missingColumn, queryOptional } from '../../src/core/optional-columns.js'
+import { CynapsApiError } from '../../src/core/errors.js'
+import { filter } from '../../src/core/filter.js'
+import type { CynapsApiClient } from '../../src/core/api-client.js'
+
+const columnMissing = (column: string) =>
+  new CynapsApiError(`column sunoma_items.${column} does not exist`, 400, '42703')
+
+function clientWith(query: ReturnType<typeof vi.fn>) {
+  return { query } as unknown as CynapsApiClient
+}
+
+describe('missingColumn', () => {
+  it('names the optional column from read and write errors', () => {
+    expect(missingColumn(columnMissing('superseded_at'))).toBe('superseded_at')
+    expect(missingColumn(new CynapsApiError(
+      "Could not find the 'generation_attempt' column of 'sunoma_items' in the schema cache", 400, 'PGRST204',
+    ))).toBe('generation_attempt')
+  })
+
+  it('ignores other errors and columns', () => {
+    expect(missingColumn(columnMissing('title'))).toBeUndefined()
+    expect(missingColumn(new CynapsApiError('superseded_at does not exist', 500))).toBeUndefined()
+    expect(missingColumn(new Error('column superseded_at does not exist'))).toBeUndefined()
+  })
+})
+
+describe('queryOptional', () => {
+  it('passes params through while the backend has every column', async () => {
+    const query = vi.fn().mockResolvedValue([{ id: 'v1' }])
+    const client = clientWith(query)
+    const params = filter().eq('parent_id', 't1').isNull('superseded_at').build()
+
+    expect(await queryOptional(client, 'sunoma_items', params)).toEqual([{ id: 'v1' }])
+    expect(query).toHaveBeenCalledTimes(1)
+    expect(query.mock.calls[0][1]).toEqual(params)
+  })
+
+  it('retries without a missing column and remembers it for the client', async () => {
+    const query = vi.fn()
+      .mockRejectedValueOnce(columnMissing('superseded_at'))
+      .mockResolvedValue([{ id: 'v1' }])
+    const client = clientWith(query)
+    const params = filter()
+      .eq('parent_id', 't1')
+      .isNull('superseded_at')
+      .select('id', 'superseded_at')
+      .order('superseded_at')
+      .build()
+
+    expect(await queryOptional(client, 'sunoma_items', params)).toEqual([{ id: 'v1' }])
+    expect(query.mock.calls[1][1]).toEqual({ parent_id: 'eq.t1', select: 'id' })
+    expect(isColumnMissing(client, 'superseded_at')).toBe(true)
+
+    await queryOptional(client, 'sunoma_items', params)
+    expect(query).toHaveBeenCalledTimes(3)
+    expect(query.mock.calls[2][1]).toEqual({ parent_id: 'eq.t1', select: 'id' })
+  })
+
+  it('returns nothing when a filter needs a missing column to be set', async () => {
+    const query = vi.fn().mockRejectedValueOnce(columnMissing('superseded_at'))
+    const client = clientWith(query)
+
+    expect(await queryOptional(client, 'sunoma_items', filter().notNull('superseded_at').build())).toEqual([])
+    expect(query).toHaveBeenCalledTimes(1)
+  })
+
+  it('leaves reads of other tables alone', async () => {
+    const error = columnMissing('deleted_at')
+    const query = vi.fn().mockRejectedValue(error)
+    const client = clientWith(query)
+
+    await expect(queryOptional(client, 'contentmation_posts', filter().isNull('deleted_at').build())).rejects.toBe(error)
+    expect(query).toHaveBeenCalledTimes(1)
+    expect(isColumnMissing(client, 'deleted_at')).toBe(false)
+  })
+
+  it('rethrows when the column is already known missing', async () => {
+    const error = columnMissing('superseded_at')
+    const query = vi.fn().mockRejectedValue(error)
+    const client = clientWith(query)
+
+    await expect(queryOptional(client, 'sunoma_items', filter().isNull('superseded_at').build())).rejects.toBe(error)
+    expect(query).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe('insertOptional', () => {
+  const writeMissing = (column: string) =>
+    new CynapsApiError(`Could not find the '${column}' column of 'sunoma_items' in the schema cache`, 400, 'PGRST204')
+
+  it('drops a droppable column the backend lacks and leaves it out from then on', async () => {
+    const query = vi.fn()
+      .mockRejectedValueOnce(writeMissing('source_item_id'))
+      .mockResolvedValue([{ id: 't2' }])
+    const client = clientWith(query)
+    const body = { id: 't2', title: 'T', source_item_id: 't1' }
+
+    expect(await insertOptional(client, body, ['source_item_id'])).toEqual([{ id: 't2' }])
+    expect(query.mock.calls[0][2].body).toEqual(body)
+    expect(query.mock.calls[1]).toEqual(['sunoma_items', undefined, { method: 'POST', body: { id: 't2', title: 'T' } }])
+    expect(isColumnMissing(client, 'source_item_id')).toBe(true)
+
+    await insertOptional(client, body, ['source_item_id'])
+    expect(query).toHaveBeenCalledTimes(3)
+    expect(query.mock.calls[2][2].body).toEqual({ id: 't2', title: 'T' })
+  })
+
+  it('still fails when a column it may not drop is missing', async () => {
+    const error = writeMissing('generation_attempt')
+    const query = vi.fn().mockRejectedValue(error)
+    const client = clientWith(query)
+
+    await expect(insertOptional(client, { id: 't2', generation_attempt: 2 }, ['source_item_id'])).rejects.toBe(error)
+    expect(query).toHaveBeenCalledTimes(1)
+  })
+})
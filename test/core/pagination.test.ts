@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from 'vitest'
+import { encodeCursor, decodeCursor, fetchPage, MAX_PAGE_SIZE } from '../../src/core/pagination.js'
+import { filter } from '../../src/core/filter.js'
+import { CynapsApiError } from '../../src/core/errors.js'
+import type { CynapsApiClient } from '../../src/core/api-client.js'
+
+function clientReturning(rows: unknown[], total: number | null) {
+  const queryPage = vi.fn().mockResolvedValue({ rows, total })
+  return { client: { queryPage } as unknown as CynapsApiClient, queryPage }
+}
+
+describe('cursors', () => {
+  it('round-trips the offset', () => {
+    expect(decodeCursor(encodeCursor(150, 'abc'), 'abc')).toBe(150)
+  })
+
+  it('rejects a cursor from a different listing', () => {
+    expect(() => decodeCursor(encodeCursor(50, 'abc'), 'xyz')).toThrow(/different listing/)
+  })
+
+  it('rejects garbage', () => {
+    expect(() => decodeCursor('not-a-cursor', 'abc')).toThrow(/Malformed cursor/)
+    expect(() => decodeCursor(Buffer.from('{"o":-1,"s":"abc"}').toString('base64url'), 'abc')).toThrow(/Malformed/)
+  })
+})
+
+describe('fetchPage', () => {
+  it('requests the first page and returns a cursor when more rows exist', async () => {
+    const { client, queryPage } = clientReturning([{ id: 'a' }, { id: 'b' }], 5)
+
+    const page = await fetchPage(client, 'sunoma_items', filter().eq('project_id', 'p1'), { limit: 2, scope: { p: 'p1' } })
+
+    expect(queryPage.mock.calls[0][1]).toEqual({ project_id: 'eq.p1', limit: '2', offset: '0' })
+    expect(page).toMatchObject({ total: 5, has_more: true })
+    expect(page.next_cursor).not.toBeNull()
+  })
+
+  it('continues from the cursor offset', async () => {
+    const first = clientReturning([{ id: 'a' }, { id: 'b' }], 3)
+    const { next_cursor } = await fetchPage(first.client, 't', filter(), { limit: 2, scope: {} })
+
+    const second = clientReturning([{ id: 'c' }], 3)
+    const page = await fetchPage(second.client, 't', filter(), { limit: 2, cursor: next_cursor!, scope: {} })
+
+    expect(second.queryPage.mock.calls[0][1].offset).toBe('2')
+    expect(page).toMatchObject({ has_more: false, next_cursor: null })
+  })
+
+  it('binds the cursor to the listing scope', async () => {
+    const { client } = clientReturning([{ id: 'a' }], 10)
+    const { next_cursor } = await fetchPage(client, 't', filter(), { limit: 1, scope: { status: 'draft' } })
+
+    await expect(fetchPage(client, 't', filter(), { limit: 1, cursor: next_cursor!, scope: { status: 'COMPLETE' } }))
+      .rejects.toMatchObject({ code: 'INVALID_CURSOR' })
+  })
+
+  it('clamps the page size', async () => {
+    const { client, queryPage } = clientReturning([], 0)
+    await fetchPage(client, 't', filter(), { limit: 10_000, scope: {} })
+    expect(queryPage.mock.calls[0][1].limit).toBe(String(MAX_PAGE_SIZE))
+  })
+
+  it('infers has_more from a full page when the total is unknown', async () => {
+    const { client } = clientReturning([{ id: 'a' }, { id: 'b' }], null)
+    const page = await fetchPage(client, 't', filter(), { limit: 2, scope: {} })
+    expect(page).toMatchObject({ total: null, has_more: true })
+  })
+
+  it('lists sunoma_items on backends without the trash column', async () => {
+    const queryPage = vi.fn()
+      .mockRejectedValueOnce(new CynapsApiError('column sunoma_items.deleted_at does not exist', 400, '42703'))
+      .mockResolvedValueOnce({ rows: [{ id: 'a' }], total: 1 })
+    const client = { queryPage } as unknown as CynapsApiClient
+
+    const page = await fetchPage(client, 'sunoma_items', filter().isNull('deleted_at'), { limit: 2, scope: {} })
+    expect(queryPage.mock.calls[1][1]).toEqual({ limit: '2', offset: '0' })
+    expect(page).toMatchObject({ items: [{ id: 'a' }], total: 1 })
+
+    const trashed = await fetchPage(client, 'sunoma_items', filter().notNull('deleted_at'), { limit: 2, scope: {} })
+    expect(trashed).toMatchObject({ items: [], total: 0, has_more: false })
+    expect(queryPage).toHaveBeenCalledTimes(2)
+  })
+})
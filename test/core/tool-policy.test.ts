@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import { createToolFilter, filterTools, globToRegExp, isToolAllowed } from '../../src/core/tool-policy.js'
+import { createMockPluginAPI } from '../fixtures/mock-api.js'
+import type { AgentTool } from '../../src/core/types.js'
+
+function tool(name: string): AgentTool {
+  return { name, label: name, description: name, parameters: {}, execute: async () => ({ content: [] }) }
+}
+
+describe('globToRegExp', () => {
+  it('matches * and ? and treats everything else literally', () => {
+    expect(globToRegExp('musicmation_*').test('musicmation_search_tracks')).toBe(true)
+    expect(globToRegExp('*_generate').test('musicmation_bulk_generate')).toBe(true)
+    expect(globToRegExp('a?c').test('abc')).toBe(true)
+    expect(globToRegExp('a?c').test('ac')).toBe(false)
+    expect(globToRegExp('a.c').test('abc')).toBe(false)
+  })
+})
+
+describe('createToolFilter', () => {
+  it('allows everything when both lists are empty', () => {
+    expect(createToolFilter({ allow: [], deny: [] })('anything')).toBe(true)
+  })
+
+  it('restricts to the allow list and lets deny win', () => {
+    const allowed = createToolFilter({ allow: ['musicmation_*'], deny: ['musicmation_delete_*'] })
+    expect(allowed('musicmation_search_tracks')).toBe(true)
+    expect(allowed('musicmation_delete_project')).toBe(false)
+    expect(allowed('cynaps3_preflight')).toBe(false)
+  })
+})
+
+describe('isToolAllowed', () => {
+  it('allows everything without a policy', () => {
+    expect(isToolAllowed(undefined, 'musicmation_generate')).toBe(true)
+  })
+
+  it('applies the policy', () => {
+    const policy = { allow: [], deny: ['*_generate'] }
+    expect(isToolAllowed(policy, 'musicmation_generate')).toBe(false)
+    expect(isToolAllowed(policy, 'musicmation_search_tracks')).toBe(true)
+  })
+})
+
+describe('filterTools', () => {
+  it('drops tools from factories and static registrations that fail the predicate', () => {
+    const host = createMockPluginAPI()
+    const denied = createToolFilter({ allow: [], deny: ['b', 'static_*'] })
+    const api = filterTools(host, (name) => denied(name))
+
+    api.registerTool(() => [tool('a'), tool('b')])
+    api.registerTool(() => tool('b'))
+    api.registerTool(tool('static_one'))
+    api.registerTool(tool('c'))
+
+    expect(host.tools.map((t) => t.name)).toEqual(['a', 'c'])
+  })
+
+  it('passes the factory context to the predicate', () => {
+    const host = createMockPluginAPI(undefined, { agentId: 'pete' })
+    const api = filterTools(host, (name, ctx) => ctx.agentId === 'pete' || name !== 'secret')
+    api.registerTool(() => [tool('secret')])
+    expect(host.tools.map((t) => t.name)).toEqual(['secret'])
+
+    const other = createMockPluginAPI(undefined, { agentId: 'flow' })
+    filterTools(other, (name, ctx) => ctx.agentId === 'pete' || name !== 'secret').registerTool(() => [tool('secret')])
+    expect(other.tools).toEqual([])
+  })
+
+  it('forwards everything else to the host api', () => {
+    const host = createMockPluginAPI()
+    const api = filterTools(host, () => false)
+    api.registerCommand({ name: 'cmd', description: '', acceptsArgs: false, requireAuth: false, handler: async () => ({ text: '' }) })
+    expect(host.getCommand('cmd')).toBeDefined()
+  })
+})
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtemp, readFile, readdir, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+
+// Every test host resolves to a public address unless a test says otherwise
+const lookup = vi.fn()
+vi.mock('node:dns/promises', () => ({ lookup }))
+
+const {
+  sanitizeFileName, NameAllocator, requireWorkspace, resolveInside, extensionFor,
+  writeWorkspaceFile, downloadToFile, fetchPublicFile, configuredHosts,
+} = await import('../../src/core/workspace.js')
+
+describe('sanitizeFileName', () => {
+  it('strips separators, reserved and control characters', () => {
+    expect(sanitizeFileName('AC/DC: Back\\in "Black"?')).toBe('AC DC Back in Black')
+    expect(sanitizeFileName('line\nbreak\ttab')).toBe('line break tab')
+  })
+
+  it('drops leading dots so names cannot be hidden or relative', () => {
+    expect(sanitizeFileName('../../etc/passwd')).toBe('etc passwd')
+    expect(sanitizeFileName('.hidden')).toBe('hidden')
+  })
+
+  it('falls back when nothing is left and bounds the length', () => {
+    expect(sanitizeFileName('???')).toBe('untitled')
+    expect(sanitizeFileName('x'.repeat(300))).toHaveLength(80)
+  })
+})
+
+describe('NameAllocator', () => {
+  it('numbers duplicates case-insensitively', () => {
+    const names = new NameAllocator()
+    expect(names.allocate('Song', 'mp3')).toBe('Song.mp3')
+    expect(names.allocate('song', 'mp3')).toBe('song (2).mp3')
+    expect(names.allocate('Song', 'jpg')).toBe('Song.jpg')
+  })
+})
+
+describe('paths', () => {
+  it('requires a workspace', () => {
+    expect(() => requireWorkspace(undefined)).toThrow(expect.objectContaining({ code: 'NO_WORKSPACE' }))
+  })
+
+  it('refuses paths that escape the root', () => {
+    const root = path.resolve('/ws')
+    expect(resolveInside(root, 'musicmation/a.mp3')).toBe(path.join(root, 'musicmation', 'a.mp3'))
+    expect(() => resolveInside(root, '../outside')).toThrow(expect.objectContaining({ code: 'INVALID_PATH' }))
+    expect(() => resolveInside(root, '/etc/passwd')).toThrow(/escapes/)
+  })
+
+  it('picks extensions from the URL, then the content type', () => {
+    expect(extensionFor('https://cdn/x/song.WAV?sig=1', null, 'mp3')).toBe('wav')
+    expect(extensionFor('https://cdn/x/stream', 'audio/flac; charset=binary', 'mp3')).toBe('flac')
+    expect(extensionFor('not a url', null, 'mp3')).toBe('mp3')
+  })
+})
+
+describe('file writes', () => {
+  let root: string
+
+  beforeEach(async () => {
+    root = await mkdtemp(path.join(tmpdir(), 'cynaps-ws-'))
+    lookup.mockReset().mockResolvedValue([{ address: '93.184.216.34', family: 4 }])
+  })
+
+  afterEach(async () => {
+    vi.unstubAllGlobals()
+    await rm(root, { recursive: true, force: true })
+  })
+
+  it('writes text files, creating directories', async () => {
+    const target = await writeWorkspaceFile(root, 'a/b/manifest.json', '{}')
+    expect(await readFile(target, 'utf8')).toBe('{}')
+  })
+
+  it('downloads without sending credentials', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('audio-bytes', { headers: { 'content-type': 'audio/mpeg' } }))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const result = await downloadToFile('https://cdn.example/a.mp3', path.join(root, 'a.mp3'))
+
+    expect(result).toEqual({ bytes: 11, contentType: 'audio/mpeg' })
+    expect(fetchMock.mock.calls[0][1].headers).toBeUndefined()
+    expect(await readFile(path.join(root, 'a.mp3'), 'utf8')).toBe('audio-bytes')
+  })
+
+  it('rejects non-http URLs, error statuses and oversized bodies', async () => {
+    vi.stubGlobal('fetch', vi.fn()
+      .mockResolvedValueOnce(new Response('nope', { status: 404 }))
+      .mockResolvedValueOnce(new Response('0123456789')))
+
+    await expect(downloadToFile('file:///etc/passwd', path.join(root, 'x'))).rejects.toMatchObject({ code: 'INVALID_URL' })
+    await expect(downloadToFile('https://cdn/x', path.join(root, 'x'))).rejects.toMatchObject({ code: 'DOWNLOAD_FAILED', status: 404 })
+    await expect(downloadToFile('https://cdn/y', path.join(root, 'y'), { maxBytes: 5 })).rejects.toMatchObject({ code: 'FILE_TOO_LARGE' })
+  })
+
+  it('refuses loopback, private and metadata addresses', async () => {
+    const fetchMock = vi.fn()
+    vi.stubGlobal('fetch', fetchMock)
+    lookup.mockResolvedValueOnce([{ address: '93.184.216.34', family: 4 }, { address: '10.0.0.5', family: 4 }])
+
+    for (const url of ['http://127.0.0.1:8080/a.mp3', 'http://169.254.169.254/latest/meta-data', 'http://[::1]/a.mp3', 'http://[::ffff:192.168.0.1]/a']) {
+      await expect(fetchPublicFile(url)).rejects.toMatchObject({ code: 'INVALID_URL' })
+    }
+    await expect(downloadToFile('https://rebound.example/a.mp3', path.join(root, 'a.mp3'))).rejects.toMatchObject({ code: 'INVALID_URL' })
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('checks every redirect hop', async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(new Response(null, { status: 302, headers: { location: 'http://127.0.0.1/secret' } }))
+    vi.stubGlobal('fetch', fetchMock)
+
+    await expect(fetchPublicFile('https://cdn.example/a.jpg')).rejects.toMatchObject({ code: 'INVALID_URL' })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(fetchMock.mock.calls[0][1].redirect).toBe('manual')
+  })
+
+  it('trusts the configured backend hosts', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('cover')))
+    const trustedHosts = configuredHosts({ supabaseUrl: 'http://127.0.0.1:54321', contentDomain: 'https://content.example' })
+
+    expect(trustedHosts).toEqual(['127.0.0.1:54321', 'content.example'])
+    expect((await fetchPublicFile('http://127.0.0.1:54321/cdn/a.jpg', { trustedHosts })).body.toString()).toBe('cover')
+    await expect(fetchPublicFile('http://127.0.0.1:6379/', { trustedHosts })).rejects.toMatchObject({ code: 'INVALID_URL' })
+  })
+
+  it('streams past the declared size and leaves no partial file', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('0123'))
+        controller.enqueue(new TextEncoder().encode('4567'))
+        controller.close()
+      },
+    }))))
+
+    await expect(downloadToFile('https://cdn.example/big.mp3', path.join(root, 'big.mp3'), { maxBytes: 6 }))
+      .rejects.toMatchObject({ code: 'FILE_TOO_LARGE' })
+    expect(await readdir(root)).toEqual([])
+  })
+})
@@ -0,0 +1,549 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtemp, readFile, readdir, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import plugin from '../../src/index.js'
+import { parseConfig } from '../../src/core/config.js'
+import { registerMusicmationSunoTools } from '../../src/tools/musicmation-suno.js'
+import { GenerationPoller } from '../../src/services/generation-poller.js'
+import { createCompletionNotifier } from '../../src/services/completion-notifier.js'
+import type { CompletionMessage } from '../../src/services/completion-notifier.js'
+import { createMockPluginAPI, type MockPluginAPI } from '../fixtures/mock-api.js'
+import { MOCK_CONFIG } from '../fixtures/mock-config.js'
+import { startSupabaseStub, type SupabaseStub } from '../fixtures/supabase-stub.js'
+
+/**
+ * End-to-end: the real plugin, real CynapsApiClient and real fetch,
+ * talking to the local Supabase stand-in. No module mocks.
+ */
+
+let stub: SupabaseStub
+let api: MockPluginAPI
+
+async function run(name: string, params: Record<string, unknown> = {}) {
+  const tool = api.getTool(name)
+  if (!tool) throw new Error(`Tool not registered: ${name}`)
+  const result = await tool.execute('e2e', params)
+  return JSON.parse(result.content[0].text)
+}
+
+beforeEach(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  stub = await startSupabaseStub()
+  api = createMockPluginAPI({
+    supabaseUrl: stub.url,
+    supabaseAnonKey: MOCK_CONFIG.supabaseAnonKey,
+    serviceRoleKey: MOCK_CONFIG.serviceRoleKey,
+    userId: MOCK_CONFIG.userId,
+    enabledModules: ['musicmation'],
+  })
+  plugin.register(api)
+})
+
+afterEach(async () => {
+  await stub.close()
+  vi.restoreAllMocks()
+})
+
+describe('Musicmation pipeline against the local stub', () => {
+  it('creates a project, generates a track, and polls it to completion', async () => {
+    const { project } = await run('musicmation_create_project', { name: 'Offline', content_type: 'music' })
+    expect(project.id).toMatch(/^proj_\d+_[0-9a-f]{8}$/)
+
+    const generated = await run('musicmation_generate', {
+      title: 'Night Drive',
+      style_tags: 'synthwave',
+      project_id: project.id,
+    })
+    expect(generated.enqueued).toBe(true)
+
+    // Each read advances the simulation one step: GENERATING, then COMPLETE
+    expect((await run('musicmation_poll_status', { track_id: generated.track_id })).status).toBe('generating')
+    const done = await run('musicmation_poll_status', { track_id: generated.track_id })
+
+    expect(done.status).toBe('complete')
+    expect(done.track.audio_url).toContain(generated.track_id)
+    expect(done.total_variations).toBe(2)
+    expect(done.listen_urls[1]).toBe(`https://content.7cycle.life/details/${generated.track_id}_v1`)
+  })
+
+  it('bulk generates drafts and reports failures per track', async () => {
+    const { project } = await run('musicmation_create_project', { name: 'Batch', content_type: 'music' })
+    const ids: string[] = []
+    for (const title of ['One', 'Two', 'Three']) {
+      const { item } = await run('musicmation_create_item', { title, project_id: project.id, generation_source: 'sonauto' })
+      ids.push(item.id)
+    }
+    stub.failNext([ids[2]])
+
+    const enqueued = await run('musicmation_bulk_generate', { track_ids: ids, provider: 'sonauto' })
+    expect(enqueued).toMatchObject({ enqueued: 3, skipped: 0 })
+
+    await run('musicmation_bulk_poll_status', { track_ids: ids })
+    const status = await run('musicmation_bulk_poll_status', { track_ids: ids })
+
+    expect(status.summary).toMatchObject({ total: 3, completed: 2, failed: 1, all_settled: true })
+    // Sonauto produces a single song — no variation rows
+    expect(stub.tables.sunoma_items.filter((r) => r.item_type === 'variation')).toHaveLength(0)
+  })
+
+  it('generates and polls an album-sized batch in chunks', async () => {
+    const ids = Array.from({ length: 45 }, (_, i) => `track_album_${i}`)
+    for (const id of ids) {
+      stub.tables.sunoma_items.push({ id, title: id, item_type: 'track', status: 'draft', owner_id: MOCK_CONFIG.userId })
+    }
+
+    const enqueued = await run('musicmation_bulk_generate', { track_ids: ids })
+    expect(enqueued).toMatchObject({ enqueued: 45, skipped: 0, chunks: 3 })
+    expect(stub.requests.filter((r) => r.path.endsWith('suno-generation-enqueue'))).toHaveLength(3)
+
+    stub.advance()
+    stub.advance()
+    const status = await run('musicmation_bulk_poll_status', { track_ids: ids })
+    expect(status.summary).toMatchObject({ total: 45, completed: 45, all_settled: true })
+    expect(status.tracks[44].variations).toHaveLength(1)
+  })
+
+  it('regenerates a finished track and keeps the earlier takes as history', async () => {
+    const generated = await run('musicmation_generate', { title: 'Take Me', style_tags: 'lofi' })
+    await run('musicmation_bulk_poll_status', { track_ids: [generated.track_id] })
+
+    const again = await run('musicmation_regenerate', { track_id: generated.track_id, style_tags: 'lofi, rainy' })
+    expect(again).toMatchObject({ enqueued: true, attempt: 2, archived_takes: 2 })
+
+    await run('musicmation_bulk_poll_status', { track_ids: [generated.track_id] })
+    const done = await run('musicmation_poll_status', { track_id: generated.track_id })
+    expect(done.status).toBe('complete')
+    expect(done.variations.map((v: { id: string }) => v.id)).toEqual([`${generated.track_id}_v3`])
+
+    const history = stub.tables.sunoma_items.filter((r) => r.parent_id === generated.track_id && r.superseded_at)
+    expect(history).toHaveLength(2)
+    expect(history.map((r) => r.generation_attempt)).toEqual([1, 1])
+    expect(stub.tables.sunoma_items.find((r) => r.id === generated.track_id)).toMatchObject({ style_tags: 'lofi, rainy', generation_attempt: 2 })
+  })
+
+  it('resets queued tracks to draft but not ones already generating', async () => {
+    stub.tables.sunoma_items.push(
+      { id: 'track_q', title: 'Queued', item_type: 'track', status: 'QUEUED', owner_id: MOCK_CONFIG.userId },
+      { id: 'track_g', title: 'Running', item_type: 'track', status: 'GENERATING', owner_id: MOCK_CONFIG.userId },
+    )
+
+    const result = await run('musicmation_cancel_generation', { track_ids: ['track_q', 'track_g'] })
+
+    expect(result.reset_to_draft).toEqual(['track_q'])
+    expect(result.already_started.map((t: { track_id: string }) => t.track_id)).toEqual(['track_g'])
+    expect(stub.tables.sunoma_items.find((r) => r.id === 'track_q')?.status).toBe('draft')
+
+    // Back in draft, so it can be enqueued again
+    const again = await run('musicmation_bulk_generate', { track_ids: ['track_q'] })
+    expect(again.enqueued).toBe(1)
+  })
+
+  it('dry runs a generation without writing anything', async () => {
+    const preview = await run('musicmation_generate', { title: 'Maybe', model: 'V5', dry_run: true })
+
+    expect(preview.estimate).toMatchObject({ total_credits: 12, credits_after: 988, fits: true })
+    expect(stub.tables.sunoma_items).toHaveLength(0)
+    expect(stub.requests.filter((r) => !r.path.endsWith('/agent-tools'))).toHaveLength(0)
+  })
+
+  it('skips tracks that are already generating', async () => {
+    const { item } = await run('musicmation_create_item', { title: 'Solo', project_id: 'proj_x' })
+
+    await run('musicmation_bulk_generate', { track_ids: [item.id] })
+    const again = await run('musicmation_bulk_generate', { track_ids: [item.id] })
+
+    expect(again).toMatchObject({ enqueued: 0, skipped: 1 })
+  })
+
+  it('does not widen in() filters for IDs containing commas or parentheses', async () => {
+    stub.tables.sunoma_items.push(
+      { id: 'a', title: 'A', status: 'COMPLETE', owner_id: MOCK_CONFIG.userId },
+      { id: 'b', title: 'B', status: 'COMPLETE', owner_id: MOCK_CONFIG.userId },
+      { id: 'a,b)', title: 'Odd', status: 'QUEUED', owner_id: MOCK_CONFIG.userId },
+    )
+
+    const status = await run('musicmation_bulk_poll_status', { track_ids: ['a,b)'] })
+
+    expect(status.tracks).toEqual([{ track_id: 'a,b)', title: 'Odd', status: 'generating' }])
+    expect(stub.requests.at(-1)?.query.id).toBe('in.("a,b)")')
+  })
+
+  it('walks a project listing page by page', async () => {
+    for (let i = 0; i < 5; i++) {
+      stub.tables.sunoma_items.push({
+        id: `item_${i}`, title: `Song ${i}`, item_type: 'track', project_id: 'proj_big',
+        status: 'draft', created_at: `2026-01-0${i + 1}`, owner_id: MOCK_CONFIG.userId,
+      })
+    }
+    stub.tables.sunoma_items.push({ id: 'elsewhere', title: 'Song X', item_type: 'track', project_id: 'proj_other', owner_id: MOCK_CONFIG.userId })
+
+    const seen: string[] = []
+    let page = await run('musicmation_list_items', { project_id: 'proj_big', limit: 2 })
+    expect(page.total).toBe(5)
+    seen.push(...page.items.map((i: { id: string }) => i.id))
+    while (page.has_more) {
+      page = await run('musicmation_list_items', { project_id: 'proj_big', limit: 2, cursor: page.next_cursor })
+      seen.push(...page.items.map((i: { id: string }) => i.id))
+    }
+
+    // Newest first, every row exactly once
+    expect(seen).toEqual(['item_4', 'item_3', 'item_2', 'item_1', 'item_0'])
+    expect(page.next_cursor).toBeNull()
+  })
+
+  it('filters items by title search and rejects cursors from another listing', async () => {
+    stub.tables.sunoma_items.push(
+      { id: 'i1', title: 'Midnight City', item_type: 'track', owner_id: MOCK_CONFIG.userId },
+      { id: 'i2', title: 'Sunrise', item_type: 'track', owner_id: MOCK_CONFIG.userId },
+      { id: 'i3', title: 'After midnight', item_type: 'track', owner_id: MOCK_CONFIG.userId },
+    )
+
+    const page = await run('musicmation_list_items', { search: 'MIDNIGHT', limit: 1 })
+    expect(page.total).toBe(2)
+
+    await expect(run('musicmation_list_items', { search: 'sun', cursor: page.next_cursor }))
+      .rejects.toMatchObject({ code: 'INVALID_CURSOR' })
+  })
+
+  it('trashes a track with its variations, restores it, and purges old trash', async () => {
+    const generated = await run('musicmation_generate', { title: 'Bad Take' })
+    await run('musicmation_poll_status', { track_id: generated.track_id })
+    await run('musicmation_poll_status', { track_id: generated.track_id })
+
+    const trashed = await run('musicmation_delete_item', { item_ids: [generated.track_id, 'missing'] })
+    expect(trashed).toMatchObject({ trashed: [generated.track_id], skipped: ['missing'], variations_trashed: 1 })
+    expect((await run('musicmation_list_items')).total).toBe(0)
+    expect((await run('musicmation_list_items', { trashed: true })).total).toBe(1)
+
+    const restored = await run('musicmation_restore_item', { item_ids: [generated.track_id] })
+    expect(restored).toMatchObject({ restored: [generated.track_id], variations_restored: 1 })
+    expect((await run('musicmation_list_items')).total).toBe(1)
+
+    // Age the trash: trashed 40 days ago
+    await run('musicmation_delete_item', { item_ids: [generated.track_id] })
+    const longAgo = new Date(Date.now() - 40 * 86_400_000).toISOString()
+    for (const row of stub.tables.sunoma_items) row.deleted_at = longAgo
+
+    const preview = await run('musicmation_purge_trash', {})
+    expect(preview).toMatchObject({ confirmation_required: true, would_purge: 2 })
+    expect(stub.tables.sunoma_items).toHaveLength(2)
+
+    const mismatch = await run('musicmation_purge_trash', { confirm_count: 3 })
+    expect(mismatch).toMatchObject({ purged: 0, would_purge: 2 })
+    expect(stub.tables.sunoma_items).toHaveLength(2)
+
+    const purged = await run('musicmation_purge_trash', { confirm_count: 2 })
+    expect(purged.purged).toBe(2)
+    expect(stub.tables.sunoma_items).toHaveLength(0)
+  })
+
+  it('leaves recently trashed items alone when purging', async () => {
+    const { item } = await run('musicmation_create_item', { title: 'Fresh', project_id: 'proj_x' })
+    await run('musicmation_delete_item', { item_ids: [item.id] })
+
+    expect(await run('musicmation_purge_trash', { older_than_days: 7, confirm_count: 1 })).toMatchObject({ purged: 0 })
+    expect(stub.tables.sunoma_items).toHaveLength(1)
+  })
+
+  it('extends a finished Suno track and refuses a Sonauto one', async () => {
+    // Not registered by the plugin until suno-proxy confirms the method names
+    registerMusicmationSunoTools(api, parseConfig(api.pluginConfig))
+    const suno = await run('musicmation_generate', { title: 'Loop', project_id: 'proj_x' })
+    const sonauto = await run('musicmation_generate', { title: 'Other', provider: 'sonauto' })
+    await run('musicmation_bulk_poll_status', { track_ids: [suno.track_id, sonauto.track_id] })
+    await run('musicmation_bulk_poll_status', { track_ids: [suno.track_id, sonauto.track_id] })
+
+    const refused = await run('musicmation_extend_track', { track_id: sonauto.track_id })
+    expect(refused.error).toBe('UNSUPPORTED_BY_PROVIDER')
+
+    const extended = await run('musicmation_extend_track', { track_id: suno.track_id, continue_at: 120 })
+    expect(extended).toMatchObject({ source_track_id: suno.track_id, title: 'Loop (Extended)', enqueued: true })
+
+    await run('musicmation_poll_status', { track_id: extended.track_id })
+    const done = await run('musicmation_poll_status', { track_id: extended.track_id })
+    expect(done.status).toBe('complete')
+    expect(stub.requests.find((r) => r.path.endsWith('/suno-proxy'))?.body).toMatchObject({
+      method: 'extendTrack',
+      params: { sourceTrackId: suno.track_id, continueAt: 120 },
+    })
+  })
+
+  it('scopes rows to the calling user', async () => {
+    stub.tables.sunoma_projects.push({ id: 'proj_other', name: 'Not mine', owner_id: 'someone_else' })
+
+    const { projects } = await run('musicmation_list_projects')
+
+    expect(projects).toEqual([])
+  })
+
+  it('round-trips project context through agent-tools', async () => {
+    await run('musicmation_set_project_context', { context: { rules: [{ rule: 'No ballads' }] } })
+    const context = await run('musicmation_get_project_context')
+
+    expect(JSON.stringify(context)).toContain('No ballads')
+  })
+})
+
+describe('Exports against the local stub', () => {
+  let workspace: string
+
+  beforeEach(async () => {
+    workspace = await mkdtemp(path.join(tmpdir(), 'cynaps-e2e-'))
+    api = createMockPluginAPI({ ...api.pluginConfig }, { workspaceDir: workspace })
+    plugin.register(api)
+  })
+
+  afterEach(async () => {
+    await rm(workspace, { recursive: true, force: true })
+  })
+
+  function finishedTrack(id: string, title: string, extra: Record<string, unknown> = {}) {
+    return {
+      id, title, item_type: 'track', status: 'COMPLETE', project_id: 'proj_album', owner_id: MOCK_CONFIG.userId,
+      audio_url: `${stub.url}/cdn/audio/${id}.mp3`, image_url: `${stub.url}/cdn/images/${id}.jpg`, duration_sec: 180,
+      created_at: `2026-01-0${id.slice(-1)}T00:00:00Z`, ...extra,
+    }
+  }
+
+  it('downloads an album with variations, covers and a manifest', async () => {
+    stub.tables.sunoma_projects.push({ id: 'proj_album', name: 'Night/Drive: Vol 1', owner_id: MOCK_CONFIG.userId })
+    stub.tables.sunoma_items.push(
+      finishedTrack('track_1', 'Intro'),
+      finishedTrack('track_2', '../Outro?'),
+      { ...finishedTrack('track_1_v1', 'Intro (v2)'), item_type: 'variation', parent_id: 'track_1', variation_index: 1,
+        image_url: `${stub.url}/cdn/images/track_1.jpg` },
+      finishedTrack('track_3', 'Unfinished', { status: 'FAILED', audio_url: null }),
+    )
+
+    const result = await run('musicmation_download_tracks', { project_id: 'proj_album' })
+
+    expect(result.directory).toBe('musicmation/Night Drive Vol 1')
+    expect(result).toMatchObject({ tracks: 2, files_written: 5, failed: [] })
+    expect(result.skipped).toEqual([{ track_id: 'track_3', reason: 'status FAILED' }])
+
+    const dir = path.join(workspace, result.directory)
+    expect((await readdir(dir)).sort()).toEqual([
+      '01 - Intro - v1.jpg', '01 - Intro - v1.mp3', '01 - Intro - v2.mp3',
+      '02 - Outro - v1.jpg', '02 - Outro - v1.mp3', 'manifest.json',
+    ])
+    expect(await readFile(path.join(dir, '01 - Intro - v2.mp3'), 'utf8')).toBe('stub:/cdn/audio/track_1_v1.mp3')
+
+    const manifest = JSON.parse(await readFile(path.join(workspace, result.manifest), 'utf8'))
+    expect(manifest.tracks[0].takes[1]).toMatchObject({
+      item_id: 'track_1_v1', take: 2, audio: { file: '01 - Intro - v2.mp3' }, cover: { file: '01 - Intro - v1.jpg' },
+    })
+    // CDN requests never carry credentials
+    expect(stub.requests.filter((r) => r.path.startsWith('/cdn/')).every((r) => !r.headers.authorization)).toBe(true)
+  })
+
+  it('reports a missing file without failing the rest', async () => {
+    stub.tables.sunoma_items.push(
+      finishedTrack('track_1', 'Fine'),
+      finishedTrack('track_2', 'Broken', { audio_url: `${stub.url}/cdn/audio/missing.mp3` }),
+    )
+
+    const result = await run('musicmation_download_tracks', { track_ids: ['track_2', 'track_1', 'track_x'], include_covers: false })
+
+    expect(result.files_written).toBe(1)
+    expect(result.failed).toEqual([expect.objectContaining({ item_id: 'track_2', kind: 'audio' })])
+    expect(result.skipped).toEqual([{ track_id: 'track_x', reason: 'not_found' }])
+    const manifest = JSON.parse(await readFile(path.join(workspace, result.manifest), 'utf8'))
+    expect(manifest.tracks.map((t: { title: string }) => t.title)).toEqual(['Broken', 'Fine'])
+    expect(manifest.tracks[0].takes[0].audio).toBeNull()
+  })
+
+  it('exports an album playlist in dramaturgy order to the workspace', async () => {
+    stub.tables.sunoma_items.push(finishedTrack('track_1', 'Opener'), finishedTrack('track_2', 'Closer'))
+    stub.rpc['get-album'] = ({ album_id }) => ({
+      id: album_id, title: 'Night/Shift', artist: 'Cynaps', image_url: `${stub.url}/cdn/images/album.jpg`,
+      tracks: [{ track_id: 'track_1', order: 2 }, { track_id: 'track_2', order: 1 }],
+    })
+
+    const result = await run('musicmation_export_playlist', { album_id: 'album_1', format: 'xspf' })
+
+    expect(result).toMatchObject({ path: 'musicmation/playlists/Night Shift.xspf', tracks: 2, skipped: [] })
+    const xml = await readFile(path.join(workspace, result.path), 'utf8')
+    expect(xml.indexOf('Closer')).toBeLessThan(xml.indexOf('Opener'))
+    expect(xml).toContain(`<info>${MOCK_CONFIG.contentDomain}/details/track_2</info>`)
+    expect(xml).toContain('<album>Night/Shift</album>')
+  })
+
+  it('leaves trashed album tracks out of the playlist', async () => {
+    stub.tables.sunoma_items.push(
+      finishedTrack('track_1', 'Opener'),
+      finishedTrack('track_2', 'Cut', { deleted_at: '2026-01-09T00:00:00Z' }),
+    )
+    stub.rpc['get-album'] = ({ album_id }) => ({
+      id: album_id, title: 'Night Shift', tracks: [{ track_id: 'track_1', order: 1 }, { track_id: 'track_2', order: 2 }],
+    })
+
+    const result = await run('musicmation_export_playlist', { album_id: 'album_1', destination: 'inline' })
+
+    expect(result).toMatchObject({ tracks: 1, skipped: [{ track_id: 'track_2', reason: 'in_trash' }] })
+    expect(result.content).not.toContain('Cut')
+  })
+
+  it('explains when the backend has no get-album method', async () => {
+    await expect(run('musicmation_export_playlist', { album_id: 'album_1', destination: 'inline' }))
+      .rejects.toMatchObject({ code: 'ALBUM_UNSUPPORTED' })
+  })
+
+  it('returns a project playlist inline', async () => {
+    stub.tables.sunoma_projects.push({ id: 'proj_album', name: 'Demos', owner_id: MOCK_CONFIG.userId })
+    stub.tables.sunoma_items.push(finishedTrack('track_1', 'First'), finishedTrack('track_2', 'Draft', { status: 'draft', audio_url: null }))
+
+    const result = await run('musicmation_export_playlist', { project_id: 'proj_album', destination: 'inline' })
+
+    expect(result.content).toContain('#EXTINF:180,First')
+    expect(result.skipped).toEqual([{ track_id: 'track_2', reason: 'no audio (status draft)' }])
+    expect(await readdir(workspace)).toEqual([])
+  })
+
+  it('looks up long track lists in batches of 20', async () => {
+    const ids = Array.from({ length: 45 }, (_, i) => `track_${i}`)
+    stub.tables.sunoma_items.push(...ids.map((id) => finishedTrack(id, `Song ${id}`)))
+
+    const result = await run('musicmation_export_playlist', { track_ids: ids, destination: 'inline' })
+
+    expect(result).toMatchObject({ tracks: 45, skipped: [] })
+    expect(result).not.toHaveProperty('truncated')
+    const lookups = stub.requests.filter((r) => r.path.endsWith('/sunoma_items') && r.query.id?.startsWith('in.'))
+    expect(lookups.map((r) => r.query.id.split(',').length)).toEqual([20, 20, 5])
+  })
+
+  it('looks up the takes of a long download in batches of 20', async () => {
+    const ids = Array.from({ length: 25 }, (_, i) => `track_${i}`)
+    stub.tables.sunoma_items.push(
+      ...ids.map((id) => finishedTrack(id, `Song ${id}`)),
+      { ...finishedTrack('track_24_v1', 'Late take'), item_type: 'variation', parent_id: 'track_24', variation_index: 1 },
+    )
+
+    const result = await run('musicmation_download_tracks', { track_ids: ids, include_covers: false })
+
+    expect(result).toMatchObject({ tracks: 25, files_written: 26, failed: [] })
+    const lookups = stub.requests.filter((r) => r.path.endsWith('/sunoma_items') && r.query.parent_id)
+    expect(lookups.map((r) => r.query.parent_id.split(',').length)).toEqual([20, 5])
+  })
+
+  it('flags a project export cut off at 100 tracks', async () => {
+    stub.tables.sunoma_projects.push({ id: 'proj_album', name: 'Archive', owner_id: MOCK_CONFIG.userId })
+    stub.tables.sunoma_items.push(...Array.from({ length: 101 }, (_, i) => finishedTrack(`track_${i}`, `Song ${i}`)))
+
+    const result = await run('musicmation_export_playlist', { project_id: 'proj_album', destination: 'inline' })
+
+    expect(result).toMatchObject({ tracks: 100, truncated: true })
+    expect(result.note).toContain('first 100 tracks')
+  })
+
+  it('writes aligned lyrics as LRC and WebVTT', async () => {
+    stub.tables.sunoma_items.push(finishedTrack('track_1', 'Night Drive', {
+      transcript: '[Verse]\nHold on\n[Chorus]\nDrive',
+      lyrics_alignment: [{ text: 'Hold', start: 1, end: 1.5 }, { text: 'on', start: 1.6, end: 2 }, { text: 'Drive', start: 30, end: 31 }],
+    }))
+
+    const result = await run('musicmation_export_lyrics', { track_id: 'track_1' })
+
+    expect(result).toMatchObject({
+      timing: 'aligned', lines: 2,
+      files: ['musicmation/lyrics/Night Drive.lrc', 'musicmation/lyrics/Night Drive.vtt'],
+    })
+    expect(await readFile(path.join(workspace, result.files[0]), 'utf8')).toContain('[00:01.00]Hold on\n[00:30.00]Drive')
+    expect(await readFile(path.join(workspace, result.files[1]), 'utf8')).toContain('2 Chorus\n00:00:30.000 --> 00:00:31.000\nDrive')
+  })
+
+  it('estimates lyric timings from sections when alignment is missing', async () => {
+    stub.tables.sunoma_items.push(finishedTrack('track_1', 'Demo', { transcript: '[Verse]\nOne\nTwo\n[Chorus]\nThree' }))
+
+    const result = await run('musicmation_export_lyrics', { track_id: 'track_1', formats: ['lrc'], destination: 'inline' })
+
+    expect(result.timing).toBe('estimated')
+    expect(result.content.lrc).toContain('[00:00.00]One\n[00:45.00]Two\n[01:30.00]Three')
+    expect(result.content.vtt).toBeUndefined()
+  })
+
+  it('falls back to estimated timings on backends without lyrics_alignment', async () => {
+    await stub.close()
+    stub = await startSupabaseStub({ missingColumns: ['lyrics_alignment'] })
+    api = createMockPluginAPI({ ...api.pluginConfig, supabaseUrl: stub.url }, { workspaceDir: workspace })
+    plugin.register(api)
+    stub.tables.sunoma_items.push(finishedTrack('track_1', 'Demo', { transcript: '[Verse]\nOne\nTwo' }))
+
+    const result = await run('musicmation_export_lyrics', { track_id: 'track_1', formats: ['lrc'], destination: 'inline' })
+
+    expect(result.timing).toBe('estimated')
+    expect(result.content.lrc).toContain('One')
+  })
+
+  it('assembles a release package and reports missing fields', async () => {
+    const cover = Buffer.alloc(26)
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(cover)
+    cover.writeUInt32BE(3000, 16)
+    cover.writeUInt32BE(3000, 20)
+    cover[25] = 2
+    stub.files['/cdn/images/album.png'] = cover
+    stub.tables.sunoma_items.push(
+      finishedTrack('track_1', 'Opener', { composer: 'A. Writer', copyright: '℗ 2026 Cynaps', genre: 'Synthwave' }),
+      finishedTrack('track_2', 'Closer', { tags_genre: ['Ambient'] }),
+    )
+    stub.rpc['get-album'] = ({ album_id }) => ({
+      id: album_id, title: 'Night Shift', artist: 'Cynaps', image_url: `${stub.url}/cdn/images/album.png`,
+      tracks: [{ track_id: 'track_1', order: 1 }, { track_id: 'track_2', order: 2 }],
+    })
+
+    const result = await run('musicmation_export_release', { album_id: 'album_1', release_date: '2026-11-01' })
+
+    expect(result).toMatchObject({
+      directory: 'musicmation/releases/Night Shift', ready: false, tracks: 2, audio_files: 2,
+      release_missing: [], artwork: { file: 'cover.png', errors: [], warnings: [] },
+      incomplete_tracks: [{ track_id: 'track_2', missing: ['composer', 'copyright'] }],
+    })
+    const dir = path.join(workspace, result.directory)
+    expect((await readdir(dir)).sort()).toEqual([
+      '01 - Opener.mp3', '02 - Closer.mp3', 'cover.png', 'tags.json', 'tracks.csv', 'tracks.json', 'validation.json',
+    ])
+    const sheet = JSON.parse(await readFile(path.join(dir, 'tracks.json'), 'utf8'))
+    expect(sheet.tracks[1]).toMatchObject({ genre: 'Ambient', isrc: null, audio_file: '02 - Closer.mp3' })
+    const tags = JSON.parse(await readFile(path.join(dir, 'tags.json'), 'utf8'))
+    expect(tags.tracks[0].frames).toMatchObject({ TCOM: 'A. Writer', TRCK: '1/2', APIC: { file: 'cover.png' } })
+  })
+
+  it('refuses release downloads from private addresses', async () => {
+    stub.tables.sunoma_items.push(finishedTrack('track_1', 'Opener', { audio_url: 'http://10.0.0.8/internal.mp3' }))
+    stub.rpc['get-album'] = ({ album_id }) => ({
+      id: album_id, title: 'Night Shift', artist: 'Cynaps', image_url: 'http://169.254.169.254/latest/meta-data',
+      tracks: [{ track_id: 'track_1', order: 1 }],
+    })
+
+    const result = await run('musicmation_export_release', { album_id: 'album_1', release_date: '2026-11-01' })
+
+    expect(result).toMatchObject({ ready: false, audio_files: 0, artwork: { file: null } })
+    expect(result.artwork.errors[0]).toContain('Artwork download failed')
+    expect(result.failed).toEqual([{ track_id: 'track_1', error: expect.any(String) }])
+    expect(result.message).toContain('1 audio download(s) failed')
+    const validation = JSON.parse(await readFile(path.join(workspace, result.directory, 'validation.json'), 'utf8'))
+    expect(validation.excluded.failed_downloads).toEqual(result.failed)
+  })
+})
+
+describe('GenerationPoller against the local stub', () => {
+  it('settles tracked generations and notifies the originating channel', async () => {
+    const config = { ...MOCK_CONFIG, supabaseUrl: stub.url }
+    const { item } = await run('musicmation_create_item', { title: 'Polled', project_id: 'proj_x' })
+    await run('musicmation_bulk_generate', { track_ids: [item.id] })
+
+    const messages: CompletionMessage[] = []
+    const poller = new GenerationPoller(config)
+    poller.onSettled(createCompletionNotifier(async (msg) => { messages.push(msg) }, config))
+    poller.track([item.id], { messageChannel: 'e2e-channel' })
+
+    // QUEUED → GENERATING → COMPLETE across two passes
+    expect(await poller.pollOnce()).toEqual([])
+    const settled = await poller.pollOnce()
+
+    expect(settled.map((s) => s.status)).toEqual(['COMPLETE'])
+    expect(messages).toHaveLength(1)
+    expect(messages[0].channel).toBe('e2e-channel')
+    expect(messages[0].text).toContain(`${item.id}_v1`)
+  })
+})
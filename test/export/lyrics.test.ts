@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+import { parseTranscript, cuesFromAlignment, estimateCues, renderLrc, renderVtt } from '../../src/export/lyrics.js'
+
+const transcript = [
+  '[Verse 1]',
+  'City lights are fading',
+  'Engines hum',
+  '',
+  '[Chorus]',
+  'Drive all night',
+].join('\n')
+
+describe('parseTranscript', () => {
+  it('splits at section tags and drops blank lines', () => {
+    expect(parseTranscript(transcript)).toEqual([
+      { tag: 'Verse 1', lines: ['City lights are fading', 'Engines hum'] },
+      { tag: 'Chorus', lines: ['Drive all night'] },
+    ])
+  })
+
+  it('keeps untagged lyrics in a leading section', () => {
+    expect(parseTranscript('la la\n[Outro]\nbye')).toEqual([
+      { tag: null, lines: ['la la'] },
+      { tag: 'Outro', lines: ['bye'] },
+    ])
+  })
+})
+
+describe('estimateCues', () => {
+  it('splits the duration evenly across sections, then lines', () => {
+    expect(estimateCues(parseTranscript(transcript), 60)).toEqual([
+      { start: 0, end: 15, text: 'City lights are fading', section: 'Verse 1' },
+      { start: 15, end: 30, text: 'Engines hum', section: 'Verse 1' },
+      { start: 30, end: 60, text: 'Drive all night', section: 'Chorus' },
+    ])
+  })
+
+  it('skips sections without lines', () => {
+    expect(estimateCues(parseTranscript('[Intro]\n[Verse]\nhello'), 10)).toEqual([
+      { start: 0, end: 10, text: 'hello', section: 'Verse' },
+    ])
+  })
+})
+
+describe('cuesFromAlignment', () => {
+  const sections = parseTranscript(transcript)
+
+  it('groups word-level alignment into transcript lines', () => {
+    const words = 'City lights are fading Engines hum Drive all night'.split(' ')
+      .map((text, i) => ({ text, start: i, end: i + 0.5 }))
+    expect(cuesFromAlignment(sections, words)).toEqual([
+      { start: 0, end: 3.5, text: 'City lights are fading', section: 'Verse 1' },
+      { start: 4, end: 5.5, text: 'Engines hum', section: 'Verse 1' },
+      { start: 6, end: 8.5, text: 'Drive all night', section: 'Chorus' },
+    ])
+  })
+
+  it('maps line-level alignment one to one', () => {
+    const lines = [{ text: 'a', start: 2, end: 4 }, { text: 'b', start: 5, end: 6 }, { text: 'c', start: 8, end: 12 }]
+    expect(cuesFromAlignment(sections, lines).map((c) => [c.start, c.text])).toEqual([
+      [2, 'City lights are fading'], [5, 'Engines hum'], [8, 'Drive all night'],
+    ])
+  })
+
+  it('falls back to the segments themselves when they do not match the transcript', () => {
+    expect(cuesFromAlignment(sections, [{ text: ' ad-lib ', start: 1, end: 2 }])).toEqual([
+      { start: 1, end: 2, text: 'ad-lib', section: null },
+    ])
+  })
+})
+
+describe('renderers', () => {
+  const cues = [
+    { start: 0, end: 12.345, text: 'First line', section: 'Verse' },
+    { start: 3725.5, end: 3730, text: 'Late --> line', section: null },
+  ]
+
+  it('writes LRC with ID tags and centisecond timestamps', () => {
+    expect(renderLrc(cues, { title: 'Night Drive', artist: 'Cynaps', duration_sec: 185 })).toBe([
+      '[ti:Night Drive]',
+      '[ar:Cynaps]',
+      '[length:03:05]',
+      '[00:00.00]First line',
+      '[62:05.50]Late --> line',
+      '',
+    ].join('\n'))
+  })
+
+  it('writes WebVTT cues with section identifiers and escaped text', () => {
+    expect(renderVtt(cues)).toBe([
+      'WEBVTT',
+      '',
+      '1 Verse',
+      '00:00:00.000 --> 00:00:12.345',
+      'First line',
+      '',
+      '2',
+      '01:02:05.500 --> 01:02:10.000',
+      'Late --&gt; line',
+      '',
+    ].join('\n'))
+  })
+
+  it('escapes markup characters in WebVTT cue text', () => {
+    const vtt = renderVtt([{ start: 1, end: 2, text: 'Rock & Roll <i>forever</i> <3', section: 'A & B' }])
+    expect(vtt).toContain('\nRock &amp; Roll &lt;i&gt;forever&lt;/i&gt; &lt;3\n')
+    expect(vtt).toContain('\n1 A & B\n')
+  })
+})
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import { renderPlaylist, renderM3u8, renderXspf, toJspf } from '../../src/export/playlist.js'
+import type { Playlist } from '../../src/export/playlist.js'
+
+const playlist: Playlist = {
+  title: 'Night & Day',
+  creator: 'Cynaps',
+  image_url: 'https://cdn/album.jpg',
+  entries: [
+    {
+      title: 'Intro <live>',
+      location: 'https://cdn/a.mp3',
+      duration_sec: 61.6,
+      artist: 'Cynaps',
+      album: 'Night & Day',
+      image_url: 'https://cdn/a.jpg',
+      info_url: 'https://content.example/details/track_a',
+    },
+    { title: 'Outro\nreprise', location: 'https://cdn/b.mp3' },
+  ],
+}
+
+describe('renderM3u8', () => {
+  it('writes extended M3U with duration, artwork and detail link per entry', () => {
+    expect(renderM3u8(playlist)).toBe([
+      '#EXTM3U',
+      '#PLAYLIST:Night & Day',
+      '#EXTALBUMARTURL:https://cdn/album.jpg',
+      '',
+      '#EXTINF:62,Cynaps - Intro <live>',
+      '#EXTALB:Night & Day',
+      '#EXTALBUMARTURL:https://cdn/a.jpg',
+      '# https://content.example/details/track_a',
+      'https://cdn/a.mp3',
+      '',
+      '#EXTINF:-1,Outro reprise',
+      'https://cdn/b.mp3',
+      '',
+    ].join('\n'))
+  })
+})
+
+describe('renderXspf', () => {
+  it('escapes text and emits durations in milliseconds', () => {
+    const xml = renderXspf(playlist)
+    expect(xml).toContain('<playlist version="1" xmlns="http://xspf.org/ns/0/">')
+    expect(xml).toContain('<title>Night &amp; Day</title>')
+    expect(xml).toContain('<title>Intro &lt;live&gt;</title>')
+    expect(xml).toContain('<duration>61600</duration>')
+    expect(xml).toContain('<info>https://content.example/details/track_a</info>')
+    expect(xml).toContain('<trackNum>2</trackNum>')
+  })
+
+  it('keeps the spec element order inside a track', () => {
+    const track = renderXspf(playlist).split('<track>')[1]
+    const order = ['location', 'title', 'creator', 'info', 'image', 'album', 'trackNum', 'duration']
+      .map((name) => track.indexOf(`<${name}>`))
+    expect(order).toEqual([...order].sort((a, b) => a - b))
+  })
+})
+
+describe('toJspf', () => {
+  it('mirrors XSPF with location arrays and omits empty fields', () => {
+    const { playlist: jspf } = toJspf(playlist)
+    expect(jspf.title).toBe('Night & Day')
+    expect(jspf.track[0]).toMatchObject({ location: ['https://cdn/a.mp3'], duration: 61600, trackNum: 1, album: 'Night & Day' })
+    expect(jspf.track[1]).toEqual({ location: ['https://cdn/b.mp3'], title: 'Outro\nreprise', trackNum: 2 })
+  })
+
+  it('renders as JSON text through renderPlaylist', () => {
+    expect(JSON.parse(renderPlaylist(playlist, 'jspf'))).toEqual(toJspf(playlist))
+  })
+})
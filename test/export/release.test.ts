@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildTrackSheet, renderTrackSheetCsv, buildTagSpec, readImageInfo, checkArtwork, validateRelease,
+} from '../../src/export/release.js'
+import type { ReleaseInfo, ReleaseTrack } from '../../src/export/release.js'
+
+const release: ReleaseInfo = { title: 'Night Shift', artist: 'Cynaps', label: null, release_date: '2026-11-01', genre: 'Synthwave' }
+
+const tracks: ReleaseTrack[] = [
+  {
+    id: 'track_1', title: 'Opener, "Live"', status: 'COMPLETE', audio_url: 'https://cdn/a.mp3', duration_sec: 181.4,
+    composer: 'A. Writer', copyright: '℗ 2026 Cynaps',
+  },
+  { id: 'track_2', title: '=SUM(A1)', status: 'GENERATING', audio_url: null, artist: 'Guest', genre: 'Ambient' },
+]
+
+function png(width: number, height: number, colorType = 2): Buffer {
+  const header = Buffer.alloc(26)
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(header)
+  header.writeUInt32BE(13, 8)
+  header.write('IHDR', 12)
+  header.writeUInt32BE(width, 16)
+  header.writeUInt32BE(height, 20)
+  header[24] = 8
+  header[25] = colorType
+  return header
+}
+
+function jpeg(width: number, height: number, components = 3): Buffer {
+  const app0 = [0xff, 0xe0, 0x00, 0x04, 0x00, 0x00]
+  const sof0 = [0xff, 0xc0, 0x00, 0x11, 0x08, height >> 8, height & 0xff, width >> 8, width & 0xff, components]
+  return Buffer.from([0xff, 0xd8, ...app0, ...sof0])
+}
+
+describe('buildTrackSheet', () => {
+  it('fills release defaults and leaves ISRC as a placeholder', () => {
+    const rows = buildTrackSheet(release, tracks, new Map([['track_1', '01 - Opener.mp3']]))
+    expect(rows[0]).toEqual({
+      track_number: 1, disc_number: 1, track_id: 'track_1', title: 'Opener, "Live"', artist: 'Cynaps',
+      album: 'Night Shift', album_artist: 'Cynaps', composer: 'A. Writer', genre: 'Synthwave',
+      copyright: '℗ 2026 Cynaps', duration_sec: 181, isrc: null, audio_file: '01 - Opener.mp3',
+    })
+    expect(rows[1]).toMatchObject({ artist: 'Guest', genre: 'Ambient', composer: null, audio_file: null })
+  })
+
+  it('renders CSV with quoting and spreadsheet formula guards', () => {
+    const csv = renderTrackSheetCsv(buildTrackSheet(release, tracks))
+    const lines = csv.split('\r\n')
+    expect(lines[0]).toBe('track_number,disc_number,track_id,title,artist,album,album_artist,composer,genre,copyright,duration_sec,isrc,audio_file')
+    expect(lines[1]).toBe('1,1,track_1,"Opener, ""Live""",Cynaps,Night Shift,Cynaps,A. Writer,Synthwave,℗ 2026 Cynaps,181,,')
+    expect(lines[2]).toContain(",'=SUM(A1),")
+  })
+})
+
+describe('buildTagSpec', () => {
+  it('maps rows to ID3v2.4 frames and omits empty ones', () => {
+    const spec = buildTagSpec(buildTrackSheet(release, tracks), release, 'cover.jpg')
+    expect(spec.format).toBe('ID3v2.4')
+    expect(spec.tracks[0].frames).toEqual({
+      TIT2: 'Opener, "Live"', TPE1: 'Cynaps', TPE2: 'Cynaps', TALB: 'Night Shift', TCOM: 'A. Writer',
+      TCON: 'Synthwave', TCOP: '℗ 2026 Cynaps', TDRL: '2026-11-01', TRCK: '1/2', TPOS: '1/1',
+      APIC: { file: 'cover.jpg', type: 'Cover (front)' },
+    })
+  })
+})
+
+describe('readImageInfo', () => {
+  it('reads PNG and JPEG dimensions and color mode', () => {
+    expect(readImageInfo(png(3000, 3000))).toEqual({ format: 'png', width: 3000, height: 3000, color: 'rgb' })
+    expect(readImageInfo(jpeg(1600, 1400, 4))).toEqual({ format: 'jpeg', width: 1600, height: 1400, color: 'cmyk' })
+  })
+
+  it('returns null for other bytes', () => {
+    expect(readImageInfo(Buffer.from('stub:/cdn/images/a.jpg'))).toBeNull()
+  })
+})
+
+describe('checkArtwork', () => {
+  it('passes square RGB artwork at the recommended size', () => {
+    expect(checkArtwork('cover.png', readImageInfo(png(3000, 3000)))).toMatchObject({ errors: [], warnings: [] })
+  })
+
+  it('warns below the recommended size and rejects non-square, small or CMYK art', () => {
+    expect(checkArtwork('cover.png', readImageInfo(png(2000, 2000))).warnings).toHaveLength(1)
+    expect(checkArtwork('cover.jpg', readImageInfo(jpeg(1000, 800, 4))).errors).toEqual([
+      'Artwork must be square (is 1000x800)',
+      'Artwork is 800px; at least 1400px required',
+      'Artwork must be RGB (is cmyk)',
+    ])
+  })
+})
+
+describe('validateRelease', () => {
+  it('lists missing required fields per track and for the release', () => {
+    const rows = buildTrackSheet({ ...release, release_date: null }, tracks)
+    const report = validateRelease({ ...release, release_date: null }, rows, tracks, checkArtwork(null, null, 'Album has no artwork'))
+    expect(report.ready).toBe(false)
+    expect(report.release.missing).toEqual(['release_date', 'artwork'])
+    expect(report.tracks.map((t) => t.missing)).toEqual([[], ['composer', 'copyright', 'audio']])
+    expect(report.placeholders).toEqual(['upc', 'isrc (every track)'])
+  })
+
+  it('is ready when nothing required is missing', () => {
+    const rows = buildTrackSheet(release, [tracks[0]])
+    const report = validateRelease(release, rows, [tracks[0]], checkArtwork('cover.png', readImageInfo(png(3000, 3000))))
+    expect(report.ready).toBe(true)
+  })
+
+  it('is not ready while album tracks are missing, trashed or undownloaded', () => {
+    const rows = buildTrackSheet(release, [tracks[0]])
+    const artwork = checkArtwork('cover.png', readImageInfo(png(3000, 3000)))
+    const none = { missing: [], trashed: [], failed_downloads: [] }
+
+    expect(validateRelease(release, rows, [tracks[0]], artwork, none).ready).toBe(true)
+    expect(validateRelease(release, rows, [tracks[0]], artwork, { ...none, missing: ['track_9'] }).ready).toBe(false)
+    expect(validateRelease(release, rows, [tracks[0]], artwork, { ...none, trashed: ['track_8'] }).ready).toBe(false)
+    const failed = { ...none, failed_downloads: [{ track_id: 'track_1', error: 'HTTP 404' }] }
+    const report = validateRelease(release, rows, [tracks[0]], artwork, failed)
+    expect(report.ready).toBe(false)
+    expect(report.excluded).toEqual(failed)
+  })
+
+  it('is not ready without tracks', () => {
+    const report = validateRelease(release, [], [], checkArtwork('cover.png', readImageInfo(png(3000, 3000))))
+    expect(report.ready).toBe(false)
+    expect(report.release.missing).toEqual(['tracks'])
+  })
+})
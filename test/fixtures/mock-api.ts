@@ -7,6 +7,8 @@ import type {
 const MOCK_TOOL_CONTEXT: OpenClawPluginToolContext = {
   agentId: 'test-agent',
   workspaceDir: '/tmp/test-workspace',
+  sessionKey: 'test-session',
+  messageChannel: 'test-channel',
   sandboxed: false,
 }
 
@@ -14,8 +16,11 @@ const MOCK_TOOL_CONTEXT: OpenClawPluginToolContext = {
  * Mock OpenClawPluginApi that captures all registrations for testing.
  * Handles both static tools and tool factories (invokes factories with MOCK_TOOL_CONTEXT).
  */
-export function createMockPluginAPI(pluginConfigOverrides?: Record<string, unknown>): MockPluginAPI {
-  return new MockPluginAPI(pluginConfigOverrides)
+export function createMockPluginAPI(
+  pluginConfigOverrides?: Record<string, unknown>,
+  toolContext?: Partial<OpenClawPluginToolContext>,
+): MockPluginAPI {
+  return new MockPluginAPI(pluginConfigOverrides, toolContext)
 }
 
 export class MockPluginAPI implements OpenClawPluginApi {
@@ -24,8 +29,10 @@ export class MockPluginAPI implements OpenClawPluginApi {
   tools: AgentTool[] = []
   services: ServiceDefinition[] = []
   commands: CommandDefinition[] = []
+  toolContext: OpenClawPluginToolContext
 
-  constructor(pluginConfig?: Record<string, unknown>) {
+  constructor(pluginConfig?: Record<string, unknown>, toolContext?: Partial<OpenClawPluginToolContext>) {
+    this.toolContext = { ...MOCK_TOOL_CONTEXT, ...toolContext }
     this.config = {}
     this.pluginConfig = pluginConfig ?? {
       supabaseUrl: 'https://test-project.supabase.co',
@@ -40,7 +47,7 @@ export class MockPluginAPI implements OpenClawPluginApi {
   registerTool(tool: AgentTool | OpenClawPluginToolFactory, _opts?: ToolRegisterOpts): void {
     if (typeof tool === 'function') {
       // Tool factory — invoke with mock context
-      const result = tool(MOCK_TOOL_CONTEXT)
+      const result = tool(this.toolContext)
       if (Array.isArray(result)) {
         this.tools.push(...result)
       } else if (result) {
@@ -0,0 +1,23 @@
+import { startSupabaseStub } from './supabase-stub.js'
+
+/**
+ * Dev entry point for the Supabase stand-in: `npm run stub` serves it on
+ * 127.0.0.1 until interrupted, and prints the env vars that point the
+ * plugin at it. Port from CYNAPS3_STUB_PORT (default 54321).
+ *
+ * State is in memory only — every restart starts with empty tables.
+ */
+
+const port = Number(process.env.CYNAPS3_STUB_PORT) || 54321
+const stub = await startSupabaseStub({ port })
+
+console.log(`[cynaps3-stub] Listening on ${stub.url}`)
+console.log('[cynaps3-stub] Point the plugin at it with:')
+console.log(`  export CYNAPS3_SUPABASE_URL=${stub.url}`)
+console.log('  export CYNAPS3_ANON_KEY=stub CYNAPS3_SERVICE_ROLE_KEY=stub CYNAPS3_USER_ID=user_stub')
+
+const shutdown = () => {
+  stub.close().finally(() => process.exit(0))
+}
+process.on('SIGINT', shutdown)
+process.on('SIGTERM', shutdown)
@@ -0,0 +1,404 @@
+import { createServer } from 'node:http'
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+
+/**
+ * Local Supabase stand-in — an in-process HTTP server that emulates the
+ * edge functions the plugin talks to, so the full Musicmation pipeline
+ * can run end to end with no network:
+ *
+ *   POST /functions/v1/agent-tools                   { method, params } RPC
+ *   *    /functions/v1/skill-api/sunoma_items        PostgREST-style table
+ *   *    /functions/v1/skill-api/sunoma_projects     PostgREST-style table
+ *   POST /functions/v1/<provider>-generation-enqueue simulated generation
+ *   POST /functions/v1/suno-proxy                    extend/cover/vocals, lyrics
+ *   GET  /cdn/...                                    public audio/cover bytes (no auth)
+ *
+ * Rows are scoped to the X-CLI-User-Id header like the real skill-api.
+ * Generation moves QUEUED → GENERATING → COMPLETE one step per advance();
+ * with autoAdvance (default) every sunoma_items read advances first, so
+ * polling tools observe progress naturally.
+ *
+ * Point a config at it with `{ ...MOCK_CONFIG, supabaseUrl: stub.url }`.
+ * For offline development outside the tests, `npm run stub` serves it
+ * on a fixed port (see serve-stub.ts).
+ */
+
+export type Row = Record<string, unknown>
+
+export type RpcHandler = (params: Record<string, unknown>, stub: SupabaseStub) => unknown
+
+export interface StubRequest {
+  method: string
+  path: string
+  query: Record<string, string>
+  headers: Record<string, string | undefined>
+  body: unknown
+}
+
+export interface SupabaseStub {
+  url: string
+  tables: Record<'sunoma_items' | 'sunoma_projects', Row[]>
+  /** agent-tools methods — add or override per test */
+  rpc: Record<string, RpcHandler>
+  /** CDN bodies by path ("/cdn/images/cover.png") — overrides the "stub:<path>" default */
+  files: Record<string, Buffer>
+  /** Every request received, in order */
+  requests: StubRequest[]
+  /** Move every in-flight generation one step forward */
+  advance(): void
+  /** Make the next enqueued generation of these IDs end in FAILED */
+  failNext(trackIds: string[]): void
+  close(): Promise<void>
+}
+
+export interface SupabaseStubOptions {
+  /** Advance generations on every sunoma_items read (default true) */
+  autoAdvance?: boolean
+  /** Port on 127.0.0.1 (default: any free port) */
+  port?: number
+  /** sunoma_items columns to reject the way PostgREST does on an older schema (400, 42703) */
+  missingColumns?: string[]
+}
+
+const TABLES = new Set(['sunoma_items', 'sunoma_projects'])
+
+export async function startSupabaseStub(options?: SupabaseStubOptions): Promise<SupabaseStub> {
+  const autoAdvance = options?.autoAdvance ?? true
+  const missingColumns = new Set(options?.missingColumns)
+  const failing = new Set<string>()
+  let projectContext: Record<string, unknown> = { rules: [] }
+
+  const stub: SupabaseStub = {
+    url: '',
+    tables: { sunoma_items: [], sunoma_projects: [] },
+    files: {},
+    requests: [],
+    rpc: {
+      'preflight': () => ({
+        ready: true,
+        checks: {
+          authenticated: true,
+          suno_api_key: true,
+          sonauto_api_key: true,
+          credits_available: 1000,
+          sonauto_credits_available: 1000,
+          tier: 'stub',
+          daily_used: 0,
+          daily_used_suno: 0,
+          daily_used_sonauto: 0,
+          daily_limit: 999,
+        },
+        actions_needed: [],
+        autonomy: {},
+        agent_visibility: {},
+      }),
+      'get-project-context': () => projectContext,
+      'set-project-context': (params) => {
+        projectContext = (params.context as Record<string, unknown>) ?? { rules: [] }
+        return { success: true }
+      },
+    },
+    advance: () => advanceGenerations(stub.tables.sunoma_items, failing),
+    failNext: (trackIds) => { for (const id of trackIds) failing.add(id) },
+    close: () => new Promise((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+  }
+
+  const server = createServer((req, res) => {
+    void handle(req, res).catch((err) => {
+      send(res, 500, { error: err instanceof Error ? err.message : String(err) })
+    })
+  })
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://stub')
+    const raw = await readBody(req)
+    const request: StubRequest = {
+      method: req.method ?? 'GET',
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      headers: {
+        'apikey': header(req, 'apikey'),
+        'authorization': header(req, 'authorization'),
+        'x-cli-user-id': header(req, 'x-cli-user-id'),
+        'x-agent-id': header(req, 'x-agent-id'),
+        'idempotency-key': header(req, 'idempotency-key'),
+        'prefer': header(req, 'prefer'),
+      },
+      body: raw ? JSON.parse(raw) : undefined,
+    }
+    stub.requests.push(request)
+
+    // Public CDN stand-in: /cdn/<anything> serves "stub:<path>" bytes, 404 for paths containing "missing"
+    if (url.pathname.startsWith('/cdn/')) {
+      if (url.pathname.includes('missing')) return send(res, 404, { error: 'Not found' })
+      const type = url.pathname.endsWith('.jpg') ? 'image/jpeg'
+        : url.pathname.endsWith('.png') ? 'image/png' : 'audio/mpeg'
+      res.writeHead(200, { 'Content-Type': type })
+      res.end(stub.files[url.pathname] ?? `stub:${url.pathname}`)
+      return
+    }
+
+    const userId = request.headers['x-cli-user-id']
+    if (!request.headers.apikey || !request.headers.authorization || !userId) {
+      return send(res, 401, { error: 'Unauthorized', code: 'AUTH_REQUIRED' })
+    }
+
+    const path = url.pathname.replace(/^\/functions\/v1\//, '')
+    const body = (request.body ?? {}) as Record<string, unknown>
+
+    if (path === 'agent-tools') {
+      const handler = stub.rpc[body.method as string]
+      if (!handler) return send(res, 400, { error: `Unknown method: ${body.method}`, code: 'UNKNOWN_METHOD' })
+      return send(res, 200, await handler((body.params as Record<string, unknown>) ?? {}, stub))
+    }
+
+    // <provider>-generation-enqueue — any registered provider, not just Suno/Sonauto
+    if (path.endsWith('-generation-enqueue')) {
+      const source = path.slice(0, -'-generation-enqueue'.length)
+      return send(res, 200, enqueue(stub.tables.sunoma_items, body.trackIds as string[], userId, source))
+    }
+
+    if (path === 'suno-proxy') {
+      const params = (body.params ?? {}) as Record<string, unknown>
+      if (body.method === 'generateLyrics') return send(res, 200, { lyrics: `[Verse]\n${params.prompt}` })
+      if (!SUNO_TRANSFORMS.has(body.method as string)) {
+        return send(res, 400, { error: `Unknown suno-proxy method: ${body.method}` })
+      }
+      return send(res, 200, enqueue(stub.tables.sunoma_items, [params.trackId as string], userId, 'suno'))
+    }
+
+    if (path.startsWith('skill-api/')) {
+      const table = path.slice('skill-api/'.length)
+      if (!TABLES.has(table)) return send(res, 404, { error: `Unknown table: ${table}` })
+      if (table === 'sunoma_items') {
+        const column = namedColumns(request).find((c) => missingColumns.has(c))
+        if (column) return send(res, 400, { code: '42703', message: `column sunoma_items.${column} does not exist` })
+      }
+      if (autoAdvance && table === 'sunoma_items' && request.method === 'GET') stub.advance()
+      return handleTable(res, stub.tables[table as keyof SupabaseStub['tables']], request, userId)
+    }
+
+    return send(res, 404, { error: `Unknown function: ${path}` })
+  }
+
+  await new Promise<void>((resolve) => server.listen(options?.port ?? 0, '127.0.0.1', resolve))
+  stub.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  return stub
+}
+
+// ─── Tables ───────────────────────────────────────────────────────
+
+function handleTable(res: ServerResponse, rows: Row[], req: StubRequest, userId: string): void {
+  const { select, order, limit, offset, ...filters } = req.query
+  const owned = (row: Row) => row.owner_id === userId
+  const matching = () => rows.filter((row) => owned(row) && matchesFilters(row, filters))
+
+  switch (req.method) {
+    case 'GET': {
+      const all = sortRows(matching(), order)
+      const start = offset ? Number(offset) : 0
+      const result = all.slice(start, limit ? start + Number(limit) : undefined)
+      // Prefer: count=exact → Content-Range: <first>-<last>/<total>
+      const headers: Record<string, string> = req.headers.prefer?.includes('count=exact')
+        ? { 'Content-Range': result.length ? `${start}-${start + result.length - 1}/${all.length}` : `*/${all.length}` }
+        : {}
+      return send(res, 200, result.map((row) => project(row, select)), headers)
+    }
+    case 'POST': {
+      const input = req.body as Row
+      if (input.id !== undefined && rows.some((r) => r.id === input.id)) {
+        return send(res, 409, { error: 'duplicate key value violates unique constraint', code: '23505' })
+      }
+      const now = new Date().toISOString()
+      const row: Row = { created_at: now, updated_at: now, ...input, owner_id: userId }
+      rows.push(row)
+      return send(res, 201, [row])
+    }
+    case 'PATCH': {
+      const updated = matching()
+      for (const row of updated) Object.assign(row, req.body as Row, { updated_at: new Date().toISOString() })
+      return send(res, 200, updated)
+    }
+    case 'DELETE': {
+      const doomed = new Set(matching())
+      for (let i = rows.length - 1; i >= 0; i--) {
+        if (doomed.has(rows[i])) rows.splice(i, 1)
+      }
+      if (req.headers.prefer?.includes('return=representation')) {
+        return send(res, 200, [...doomed].map((row) => project(row, select)))
+      }
+      res.writeHead(204).end()
+      return
+    }
+    default:
+      return send(res, 405, { error: `Method ${req.method} not allowed` })
+  }
+}
+
+/** PostgREST filter subset: eq, gte, lt, is.null, not.is.null, ilike (`*` wildcard), in.(…) with quoted values */
+export function matchesFilters(row: Row, filters: Record<string, string>): boolean {
+  return Object.entries(filters).every(([column, expr]) => {
+    const raw = row[column]
+    const value = raw === undefined || raw === null ? 'null' : String(raw)
+    const dot = expr.indexOf('.')
+    const op = expr.slice(0, dot)
+    const operand = expr.slice(dot + 1)
+    switch (op) {
+      case 'eq': return value === operand
+      case 'gte': return typeof raw === 'number' ? raw >= Number(operand) : value >= operand
+      case 'lt': return raw !== undefined && raw !== null && (typeof raw === 'number' ? raw < Number(operand) : value < operand)
+      case 'is': return operand === 'null' && value === 'null'
+      case 'not': return operand === 'is.null' && value !== 'null'
+      case 'ilike': return likeToRegExp(operand).test(value)
+      case 'in':
+        if (!operand.startsWith('(') || !operand.endsWith(')')) break
+        return parseList(operand.slice(1, -1)).includes(value)
+    }
+    throw new Error(`Unsupported filter for ${column}: ${expr}`)
+  })
+}
+
+/** Split an in.(…) list, honouring "double quoted" values with backslash escapes */
+function parseList(list: string): string[] {
+  const values: string[] = []
+  let i = 0
+  while (i < list.length) {
+    let value = ''
+    if (list[i] === '"') {
+      i++
+      while (i < list.length && list[i] !== '"') {
+        if (list[i] === '\\') i++
+        value += list[i++]
+      }
+      i++ // closing quote
+    } else {
+      while (i < list.length && list[i] !== ',') value += list[i++]
+    }
+    values.push(value)
+    i++ // comma
+  }
+  return values
+}
+
+/** `*` is the wildcard; backslash escapes the next character */
+function likeToRegExp(pattern: string): RegExp {
+  let source = ''
+  const escape = (ch: string) => ch.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern[i] === '\\') source += escape(pattern[++i] ?? '')
+    else source += pattern[i] === '*' ? '.*' : escape(pattern[i])
+  }
+  return new RegExp(`^${source}$`, 'i')
+}
+
+/** order=col.dir[,col.dir…] — later keys break ties */
+function sortRows(rows: Row[], order: string | undefined): Row[] {
+  if (!order) return rows
+  const keys = order.split(',').map((key) => key.split('.'))
+  return [...rows].sort((a, b) => {
+    for (const [column, direction] of keys) {
+      const av = a[column] as string | number
+      const bv = b[column] as string | number
+      if (av !== bv) return (av > bv ? 1 : -1) * (direction === 'desc' ? -1 : 1)
+    }
+    return 0
+  })
+}
+
+/** Columns a table request selects, orders by, filters on or writes */
+function namedColumns(req: StubRequest): string[] {
+  const { select, order } = req.query
+  return [
+    ...(select ? select.split(',') : []),
+    ...(order ? order.split(',').map((o) => o.split('.')[0]) : []),
+    ...Object.keys(req.query).filter((key) => !['select', 'order', 'limit', 'offset'].includes(key)),
+    ...(req.body && typeof req.body === 'object' ? Object.keys(req.body) : []),
+  ]
+}
+
+function project(row: Row, select: string | undefined): Row {
+  if (!select || select === '*') return { ...row }
+  const out: Row = {}
+  for (const column of select.split(',')) out[column] = row[column] ?? null
+  return out
+}
+
+// ─── Generation ───────────────────────────────────────────────────
+
+const SUNO_TRANSFORMS = new Set(['extendTrack', 'coverTrack', 'addVocals'])
+
+const ENQUEUEABLE = new Set(['draft', 'FAILED', undefined, null])
+
+function enqueue(items: Row[], trackIds: string[], userId: string, source: string) {
+  let enqueued = 0
+  for (const id of trackIds) {
+    const item = items.find((r) => r.id === id && r.owner_id === userId)
+    if (!item || !ENQUEUEABLE.has(item.status as string)) continue
+    item.status = 'QUEUED'
+    item.generation_source = source
+    enqueued++
+  }
+  return { success: true, enqueued, skipped: trackIds.length - enqueued, total: trackIds.length, tier: 'stub' }
+}
+
+function advanceGenerations(items: Row[], failing: Set<string>): void {
+  // Snapshot first — completing a track inserts variation rows
+  for (const item of [...items]) {
+    if (item.status === 'QUEUED') {
+      item.status = 'GENERATING'
+    } else if (item.status === 'GENERATING') {
+      if (failing.delete(item.id as string)) {
+        item.status = 'FAILED'
+        continue
+      }
+      completeTrack(items, item)
+    }
+  }
+}
+
+function completeTrack(items: Row[], item: Row): void {
+  const id = item.id as string
+  Object.assign(item, {
+    status: 'COMPLETE',
+    audio_url: `https://cdn.stub.local/audio/${id}.mp3`,
+    image_url: `https://cdn.stub.local/images/${id}.jpg`,
+    duration_sec: 180,
+  })
+  // Suno yields a second take as a child variation; Sonauto yields one song.
+  // Numbered past any existing children so regenerating never reuses an id.
+  if (item.generation_source !== 'sonauto') {
+    const children = items.filter((r) => r.parent_id === id).length
+    items.push({
+      ...item,
+      id: `${id}_v${children + 1}`,
+      title: `${item.title} (v2)`,
+      parent_id: id,
+      item_type: 'variation',
+      variation_index: 1,
+      audio_url: `https://cdn.stub.local/audio/${id}_v${children + 1}.mp3`,
+    })
+  }
+}
+
+// ─── HTTP Helpers ─────────────────────────────────────────────────
+
+function header(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name]
+  return Array.isArray(value) ? value[0] : value
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    req.on('data', (chunk: Buffer) => chunks.push(chunk))
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')))
+    req.on('error', reject)
+  })
+}
+
+function send(res: ServerResponse, status: number, body: unknown, headers?: Record<string, string>): void {
+  const payload = JSON.stringify(body)
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(payload), ...headers })
+  res.end(payload)
+}
@@ -20,8 +20,9 @@ describe('Cynaps3 Plugin', () => {
     expect(api.tools.length).toBeGreaterThan(0)
     expect(api.tools.some((t) => t.name === 'cynaps3_preflight')).toBe(true)
 
-    // No background services (poller removed per HIGH-3)
-    expect(api.services.length).toBe(0)
+    // Should register the generation poller service
+    expect(api.services.length).toBe(1)
+    expect(api.services[0].id).toBe('cynaps3-generation-poller')
 
     // Should register the status command
     expect(api.commands.length).toBe(1)
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest'
+import { ProviderRegistry, sunoProvider, sonautoProvider, providers } from '../../src/providers/index.js'
+import type { GenerationProvider } from '../../src/providers/index.js'
+import { CynapsApiError } from '../../src/core/errors.js'
+
+const fakeProvider: GenerationProvider = {
+  id: 'fake',
+  label: 'Fake',
+  summary: '3 takes, free',
+  endpoint: 'fake-generation-enqueue',
+  variations: 3,
+  parameters: { temperature: { type: 'number', description: 'Fake only.' } },
+  capabilities: [],
+  creditsPerGeneration: () => 0,
+  buildEnqueueBody: (trackIds, params) => ({ trackIds, temperature: params.temperature ?? 1 }),
+  preflight: { apiKey: 'fake_key', credits: 'fake_credits', dailyUsed: 'fake_used' },
+}
+
+describe('ProviderRegistry', () => {
+  it('ships Suno (default) and Sonauto', () => {
+    expect(providers.ids()).toEqual(['suno', 'sonauto'])
+    expect(providers.resolve().id).toBe('suno')
+    expect(providers.resolve('sonauto')).toBe(sonautoProvider)
+  })
+
+  it('rejects unknown providers with a client error', () => {
+    const registry = new ProviderRegistry()
+    registry.register(sunoProvider)
+    expect(() => registry.resolve('udio')).toThrow(CynapsApiError)
+    expect(() => registry.resolve('udio')).toThrow(/Available: suno/)
+  })
+
+  it('defaults to the first provider registered', () => {
+    const registry = new ProviderRegistry()
+    registry.register(sonautoProvider)
+    registry.register(sunoProvider)
+    expect(registry.defaultProvider).toBe('sonauto')
+  })
+
+  it('refuses duplicate ids and colliding parameter names', () => {
+    const registry = new ProviderRegistry()
+    registry.register(sunoProvider)
+    expect(() => registry.register(sunoProvider)).toThrow(/already registered/)
+    expect(() => registry.register({ ...fakeProvider, parameters: { model: {} } })).toThrow(/collides with suno/)
+  })
+
+  it('builds the provider tool parameter and merged provider params', () => {
+    const registry = new ProviderRegistry('suno')
+    registry.register(sunoProvider)
+    registry.register(fakeProvider)
+
+    expect(registry.providerParameter()).toMatchObject({ enum: ['suno', 'fake'], default: 'suno' })
+    expect(Object.keys(registry.providerParameters())).toEqual(['model', 'weirdness', 'style_weight', 'temperature'])
+  })
+
+  it('summarizes readiness per provider from preflight checks', () => {
+    const checks = {
+      authenticated: true, suno_api_key: true, sonauto_api_key: false,
+      credits_available: 500, sonauto_credits_available: null, tier: 'creator',
+      daily_used: 3, daily_used_suno: 2, daily_used_sonauto: 1, daily_limit: 50,
+    }
+    expect(providers.summarize(checks)).toEqual([
+      expect.objectContaining({ id: 'suno', configured: true, credits_available: 500, daily_used: 2, variations_per_generation: 2 }),
+      expect.objectContaining({ id: 'sonauto', configured: false, credits_available: null, daily_used: 1 }),
+    ])
+  })
+})
+
+describe('built-in providers', () => {
+  it('Suno builds its enqueue body with defaults', () => {
+    expect(sunoProvider.buildEnqueueBody(['t1'], {})).toEqual({
+      trackIds: ['t1'], projectId: null, generationsRequested: 1, model: 'V5', weirdness: 0.5, styleWeight: 0.83,
+    })
+  })
+
+  it('Suno cost follows the model, V5 by default', () => {
+    expect(sunoProvider.creditsPerGeneration({ model: 'V4' })).toBe(10)
+    expect(sunoProvider.creditsPerGeneration({ model: 'V5' })).toBe(12)
+    expect(sunoProvider.creditsPerGeneration({})).toBe(12)
+  })
+
+  it('Sonauto costs a fixed 100 credits per song', () => {
+    expect(sonautoProvider.creditsPerGeneration({})).toBe(100)
+    expect(sonautoProvider.buildEnqueueBody(['t1'], { output_format: 'wav' })).toMatchObject({ output_format: 'wav', prompt_strength: 2 })
+  })
+})
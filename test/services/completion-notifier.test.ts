@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { SettledTrack } from '../../src/services/generation-poller.js'
+import type { CompletionMessage } from '../../src/services/completion-notifier.js'
+
+/**
+ * Completion notifier tests — verify routing back to the originating
+ * channel, message formatting, and silence for non-announced outcomes.
+ */
+
+// ─── Mock API Client ─────────────────────────────────────────────
+
+const mockQuery = vi.fn()
+
+vi.mock('../../src/core/api-client.js', () => {
+  class MockCynapsApiClient {
+    query = mockQuery
+    static fromContext() { return new MockCynapsApiClient() }
+  }
+  return { CynapsApiClient: MockCynapsApiClient }
+})
+
+// Import AFTER mocks are established
+const { createCompletionNotifier, formatCompletion } = await import('../../src/services/completion-notifier.js')
+const { MOCK_CONFIG } = await import('../fixtures/mock-config.js')
+
+function settled(overrides: Partial<SettledTrack> = {}): SettledTrack {
+  return {
+    trackId: 'trk-1',
+    status: 'COMPLETE',
+    track: { id: 'trk-1', title: 'Night Drive', status: 'COMPLETE', duration_sec: 185 } as SettledTrack['track'],
+    pending: {
+      trackId: 'trk-1',
+      enqueuedAt: 0,
+      lastStatus: 'COMPLETE',
+      watched: true,
+      origin: { messageChannel: 'discord:123', sessionKey: 'sess-9' },
+    },
+    ...overrides,
+  }
+}
+
+describe('createCompletionNotifier', () => {
+  let messages: CompletionMessage[]
+  const deliver = async (msg: CompletionMessage) => { messages.push(msg) }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    messages = []
+  })
+
+  it('posts completions to the originating channel and session', async () => {
+    mockQuery.mockResolvedValueOnce([{ id: 'var-1' }, { id: 'var-2' }])
+
+    await createCompletionNotifier(deliver, MOCK_CONFIG)(settled())
+
+    expect(messages).toHaveLength(1)
+    expect(messages[0].channel).toBe('discord:123')
+    expect(messages[0].sessionKey).toBe('sess-9')
+    expect(messages[0].text).toContain('https://content.7cycle.life/details/trk-1')
+    expect(messages[0].text).toContain('https://content.7cycle.life/details/var-2')
+  })
+
+  it('announces failures without fetching variations', async () => {
+
+    await createCompletionNotifier(deliver, MOCK_CONFIG)(settled({ status: 'FAILED' }))
+
+    expect(mockQuery).not.toHaveBeenCalled()
+    expect(messages[0].text).toContain('Generation failed')
+  })
+
+  it('stays silent when the origin has no channel', async () => {
+    const s = settled()
+    s.pending.origin = { sessionKey: 'sess-9' }
+
+    await createCompletionNotifier(deliver, MOCK_CONFIG)(s)
+
+    expect(messages).toHaveLength(0)
+  })
+
+  it('stays silent for expired tracks', async () => {
+
+    await createCompletionNotifier(deliver, MOCK_CONFIG)(settled({ status: 'EXPIRED' }))
+
+    expect(messages).toHaveLength(0)
+  })
+})
+
+describe('formatCompletion', () => {
+  it('includes title, listen links per variation, and duration', () => {
+    const text = formatCompletion(settled(), [{ id: 'var-1' } as never], 'https://c.example')
+    expect(text).toContain('"Night Drive"')
+    expect(text).toContain('Listen: https://c.example/details/trk-1')
+    expect(text).toContain('Variation 1: https://c.example/details/var-1')
+    expect(text).toContain('Duration: 3:05')
+  })
+
+  it('rounds the total seconds before splitting out minutes', () => {
+    const track = { id: 'trk-1', title: 'Night Drive', status: 'COMPLETE', duration_sec: 119.6 } as SettledTrack['track']
+    expect(formatCompletion(settled({ track }), [], 'https://c.example')).toContain('Duration: 2:00')
+  })
+
+  it('falls back to the track ID when the row is missing', () => {
+    const text = formatCompletion(settled({ track: null, status: 'FAILED' }), [], 'https://c.example')
+    expect(text).toContain('"trk-1"')
+  })
+})
@@ -0,0 +1,382 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+/**
+ * Generation poller tests — verify tracking, batched polling,
+ * set-based eviction, listener dispatch, and service lifecycle.
+ */
+
+// ─── Mock API Client ─────────────────────────────────────────────
+
+const mockQuery = vi.fn()
+const mockCall = vi.fn()
+
+vi.mock('../../src/core/api-client.js', () => {
+  class MockCynapsApiClient {
+    query = mockQuery
+    call = mockCall
+    static fromContext() { return new MockCynapsApiClient() }
+  }
+  return { CynapsApiClient: MockCynapsApiClient }
+})
+
+// Import AFTER mocks are established
+const { GenerationPoller } = await import('../../src/services/generation-poller.js')
+const { registerMusicmationGenerateTool } = await import('../../src/tools/musicmation-generate.js')
+const { registerMusicmationLibraryTools } = await import('../../src/tools/musicmation-library.js')
+const { createMockPluginAPI } = await import('../fixtures/mock-api.js')
+const { MOCK_CONFIG } = await import('../fixtures/mock-config.js')
+
+type Poller = InstanceType<typeof GenerationPoller>
+
+/** Tracking needs a settle listener — without one nothing reads the result */
+function listened(poller: Poller): Poller {
+  poller.onSettled(() => {})
+  return poller
+}
+
+describe('GenerationPoller', () => {
+  beforeEach(() => {
+    vi.resetAllMocks()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  // ─── Tracking ───────────────────────────────────────────────
+
+  describe('tracking', () => {
+    it('tracks IDs in enqueue order without duplicates', () => {
+      const poller = listened(new GenerationPoller(MOCK_CONFIG))
+      poller.track(['a', 'b'])
+      poller.track(['b', 'c'])
+      expect(poller.pendingIds).toEqual(['a', 'b', 'c'])
+    })
+
+    it('ignores track() while no settle listener is registered', () => {
+      const poller = new GenerationPoller(MOCK_CONFIG)
+      poller.track(['a'])
+      expect(poller.pendingIds).toEqual([])
+    })
+
+    it('untrack removes IDs', () => {
+      const poller = listened(new GenerationPoller(MOCK_CONFIG))
+      poller.track(['a', 'b'])
+      poller.untrack(['a'])
+      expect(poller.pendingIds).toEqual(['b'])
+    })
+  })
+
+  // ─── waitFor() / current() ──────────────────────────────────
+
+  describe('waitFor()', () => {
+    it('resolves once every waited track settled, in the shared loop', async () => {
+      vi.useFakeTimers()
+      const poller = new GenerationPoller(MOCK_CONFIG, { intervalMs: 1_000 })
+      poller.start()
+      mockQuery.mockResolvedValueOnce([{ id: 'a', status: 'COMPLETE' }, { id: 'b', status: 'GENERATING' }])
+      mockQuery.mockResolvedValueOnce([{ id: 'b', status: 'FAILED' }])
+
+      const done = vi.fn()
+      void poller.waitFor(['a', 'b'], 10_000).then(done)
+      await vi.advanceTimersByTimeAsync(1_000)
+      expect(done).not.toHaveBeenCalled()
+      await vi.advanceTimersByTimeAsync(1_000)
+
+      expect(done).toHaveBeenCalled()
+      expect(mockQuery).toHaveBeenCalledTimes(2)
+      expect(mockQuery.mock.calls[1][1].id).toBe('in.(b)')
+      expect(poller.pendingIds).toEqual([])
+      poller.stop()
+    })
+
+    it('gives up after the timeout and drops tracks only it polled for', async () => {
+      vi.useFakeTimers()
+      const poller = listened(new GenerationPoller(MOCK_CONFIG, { intervalMs: 1_000 }))
+      poller.start()
+      poller.track(['watched'])
+      mockQuery.mockResolvedValue([])
+
+      const waiting = poller.waitFor(['watched', 'waited'], 1_500)
+      await vi.advanceTimersByTimeAsync(1_500)
+      await waiting
+
+      expect(poller.pendingIds).toEqual(['watched'])
+      poller.stop()
+    })
+
+    it('stops waiting when the signal aborts', async () => {
+      vi.useFakeTimers()
+      const poller = new GenerationPoller(MOCK_CONFIG, { intervalMs: 1_000 })
+      poller.start()
+      const controller = new AbortController()
+
+      const waiting = poller.waitFor(['a'], 60_000, controller.signal)
+      controller.abort()
+      await waiting
+
+      expect(poller.pendingIds).toEqual([])
+      expect(mockQuery).not.toHaveBeenCalled()
+      poller.stop()
+    })
+
+    it('resolves at once without polling when the service is not running', async () => {
+      const poller = new GenerationPoller(MOCK_CONFIG)
+      await poller.waitFor(['a'], 60_000)
+      expect(poller.pendingIds).toEqual([])
+      expect(mockQuery).not.toHaveBeenCalled()
+    })
+
+    it('current() returns the last in-progress row while it is fresh', async () => {
+      vi.useFakeTimers()
+      const poller = listened(new GenerationPoller(MOCK_CONFIG, { intervalMs: 1_000 }))
+      poller.track(['a'])
+      expect(poller.current('a')).toBeUndefined()
+
+      mockQuery.mockResolvedValueOnce([{ id: 'a', title: 'A', status: 'GENERATING' }])
+      await poller.pollOnce()
+      expect(poller.current('a')).toMatchObject({ id: 'a', status: 'GENERATING' })
+
+      vi.advanceTimersByTime(1_001)
+      expect(poller.current('a')).toBeUndefined()
+    })
+  })
+
+  // ─── pollOnce() ─────────────────────────────────────────────
+
+  describe('pollOnce()', () => {
+    it('evicts COMPLETE and FAILED tracks, keeps in-progress ones', async () => {
+      const poller = listened(new GenerationPoller(MOCK_CONFIG))
+      poller.track(['done', 'broken', 'busy'])
+      mockQuery.mockResolvedValueOnce([
+        { id: 'done', status: 'COMPLETE' },
+        { id: 'broken', status: 'FAILED' },
+        { id: 'busy', status: 'GENERATING' },
+      ])
+
+      const settled = await poller.pollOnce()
+
+      expect(settled.map(s => s.trackId)).toEqual(['done', 'broken'])
+      expect(poller.pendingIds).toEqual(['busy'])
+    })
+
+    it('queries sunoma_items in batches', async () => {
+      const poller = listened(new GenerationPoller(MOCK_CONFIG, { batchSize: 2 }))
+      poller.track(['a', 'b', 'c'])
+      mockQuery.mockResolvedValue([])
+
+      await poller.pollOnce()
+
+      expect(mockQuery).toHaveBeenCalledTimes(2)
+      expect(mockQuery.mock.calls[0][0]).toBe('sunoma_items')
+      expect(mockQuery.mock.calls[0][1].id).toBe('in.(a,b)')
+      expect(mockQuery.mock.calls[1][1].id).toBe('in.(c)')
+    })
+
+    it('expires tracks that never settle', async () => {
+      vi.useFakeTimers()
+      const poller = listened(new GenerationPoller(MOCK_CONFIG, { maxAgeMs: 1_000 }))
+      poller.track(['stuck', 'gone'])
+      vi.advanceTimersByTime(2_000)
+      mockQuery.mockResolvedValueOnce([{ id: 'stuck', status: 'QUEUED' }])
+
+      const settled = await poller.pollOnce()
+
+      expect(settled.map(s => [s.trackId, s.status])).toEqual([
+        ['stuck', 'EXPIRED'],
+        ['gone', 'NOT_FOUND'],
+      ])
+      expect(poller.pendingIds).toEqual([])
+    })
+
+    it('notifies listeners once per settled track', async () => {
+      const poller = new GenerationPoller(MOCK_CONFIG)
+      const listener = vi.fn()
+      poller.onSettled(listener)
+      poller.track(['a'])
+      mockQuery.mockResolvedValue([{ id: 'a', status: 'COMPLETE', title: 'A' }])
+
+      await poller.pollOnce()
+      await poller.pollOnce()
+
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(listener.mock.calls[0][0]).toMatchObject({ trackId: 'a', status: 'COMPLETE' })
+    })
+
+    it('keeps going when a listener throws', async () => {
+      const poller = new GenerationPoller(MOCK_CONFIG)
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const second = vi.fn()
+      poller.onSettled(() => { throw new Error('boom') })
+      poller.onSettled(second)
+      poller.track(['a'])
+      mockQuery.mockResolvedValueOnce([{ id: 'a', status: 'COMPLETE' }])
+
+      await poller.pollOnce()
+
+      expect(second).toHaveBeenCalledTimes(1)
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('boom'))
+      warnSpy.mockRestore()
+    })
+  })
+
+  // ─── Lifecycle ──────────────────────────────────────────────
+
+  describe('service lifecycle', () => {
+    it('exposes a ServiceDefinition with start/stop', () => {
+      const poller = new GenerationPoller(MOCK_CONFIG)
+      const service = poller.toService()
+      expect(service.id).toBe('cynaps3-generation-poller')
+
+      service.start()
+      expect(poller.running).toBe(true)
+      service.stop()
+      expect(poller.running).toBe(false)
+    })
+
+    it('polls on the interval only while tracks are pending', async () => {
+      vi.useFakeTimers()
+      const poller = listened(new GenerationPoller(MOCK_CONFIG, { intervalMs: 1_000 }))
+      mockQuery.mockResolvedValue([{ id: 'a', status: 'COMPLETE' }])
+      poller.start()
+
+      await vi.advanceTimersByTimeAsync(1_000)
+      expect(mockQuery).not.toHaveBeenCalled()
+
+      poller.track(['a'])
+      await vi.advanceTimersByTimeAsync(1_000)
+      expect(mockQuery).toHaveBeenCalledTimes(1)
+      expect(poller.pendingIds).toEqual([])
+
+      poller.stop()
+    })
+
+    it('logs and survives poll errors', async () => {
+      vi.useFakeTimers()
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const poller = listened(new GenerationPoller(MOCK_CONFIG, { intervalMs: 1_000 }))
+      mockQuery.mockRejectedValueOnce(new Error('network down'))
+      poller.track(['a'])
+      poller.start()
+
+      await vi.advanceTimersByTimeAsync(1_000)
+
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('network down'))
+      expect(poller.pendingIds).toEqual(['a'])
+      poller.stop()
+      warnSpy.mockRestore()
+    })
+  })
+
+  // ─── Generation Tool Integration ────────────────────────────
+
+  describe('generation tool integration', () => {
+    it('musicmation_generate tracks the enqueued track', async () => {
+      const poller = listened(new GenerationPoller(MOCK_CONFIG))
+      const api = createMockPluginAPI()
+      registerMusicmationGenerateTool(api, MOCK_CONFIG, poller)
+      mockQuery.mockResolvedValueOnce([{ id: 'trk-1' }])
+      mockCall.mockResolvedValueOnce({ enqueued: 1, skipped: 0, total: 1, tier: 'creator' })
+
+      await api.getTool('musicmation_generate')!.execute('test-id', { title: 'Tracked' })
+
+      expect(poller.pendingIds).toEqual(['trk-1'])
+    })
+
+    it('remembers the originating channel and session', async () => {
+      const poller = new GenerationPoller(MOCK_CONFIG)
+      const api = createMockPluginAPI()
+      registerMusicmationGenerateTool(api, MOCK_CONFIG, poller)
+      const listener = vi.fn()
+      poller.onSettled(listener)
+      mockCall.mockResolvedValueOnce({ enqueued: 1, skipped: 0, total: 1, tier: 'creator' })
+      await api.getTool('musicmation_bulk_generate')!.execute('test-id', { track_ids: ['x'] })
+
+      mockQuery.mockResolvedValueOnce([{ id: 'x', status: 'COMPLETE' }])
+      await poller.pollOnce()
+
+      expect(listener.mock.calls[0][0].pending.origin).toEqual({
+        messageChannel: 'test-channel',
+        sessionKey: 'test-session',
+      })
+    })
+
+    it('musicmation_bulk_generate tracks the batch', async () => {
+      const poller = listened(new GenerationPoller(MOCK_CONFIG))
+      const api = createMockPluginAPI()
+      registerMusicmationGenerateTool(api, MOCK_CONFIG, poller)
+      mockCall.mockResolvedValueOnce({ enqueued: 2, skipped: 0, total: 2, tier: 'creator' })
+
+      await api.getTool('musicmation_bulk_generate')!.execute('test-id', { track_ids: ['x', 'y'] })
+
+      expect(poller.pendingIds).toEqual(['x', 'y'])
+    })
+
+    it('musicmation_wait_for_completion waits on the poller instead of its own loop', async () => {
+      vi.useFakeTimers()
+      const poller = new GenerationPoller(MOCK_CONFIG, { intervalMs: 1_000 })
+      poller.start()
+      const api = createMockPluginAPI()
+      registerMusicmationGenerateTool(api, MOCK_CONFIG, poller)
+      mockQuery
+        .mockResolvedValueOnce([{ id: 'a', title: 'A', status: 'GENERATING' }])
+        .mockResolvedValueOnce([{ id: 'a', title: 'A', status: 'COMPLETE' }])
+        .mockResolvedValueOnce([{ id: 'a', title: 'A', status: 'COMPLETE', audio_url: 'https://cdn/a.mp3' }])
+        .mockResolvedValueOnce([])
+
+      const result = api.getTool('musicmation_wait_for_completion')!.execute('test-id', { track_ids: ['a'] })
+      await vi.advanceTimersByTimeAsync(1_000)
+      const parsed = JSON.parse((await result).content[0].text)
+
+      expect(mockQuery).toHaveBeenCalledTimes(4)
+      expect(parsed).toMatchObject({ timed_out: false, summary: { completed: 1, all_settled: true } })
+      poller.stop()
+    })
+
+    it('musicmation_bulk_poll_status answers fresh in-progress tracks from the poller', async () => {
+      const poller = listened(new GenerationPoller(MOCK_CONFIG))
+      const api = createMockPluginAPI()
+      registerMusicmationGenerateTool(api, MOCK_CONFIG, poller)
+      poller.track(['a'])
+      mockQuery.mockResolvedValueOnce([{ id: 'a', title: 'A', status: 'GENERATING' }])
+      await poller.pollOnce()
+      mockQuery.mockResolvedValueOnce([{ id: 'b', title: 'B', status: 'QUEUED' }])
+
+      const parsed = JSON.parse((await api.getTool('musicmation_bulk_poll_status')!
+        .execute('test-id', { track_ids: ['a', 'b'] })).content[0].text)
+
+      expect(mockQuery).toHaveBeenCalledTimes(2)
+      expect(mockQuery.mock.calls[1][1].id).toBe('in.(b)')
+      expect(parsed.tracks).toEqual([
+        { track_id: 'a', title: 'A', status: 'generating' },
+        { track_id: 'b', title: 'B', status: 'queued' },
+      ])
+    })
+
+    it('musicmation_poll_status skips the query for a fresh in-progress track', async () => {
+      const poller = listened(new GenerationPoller(MOCK_CONFIG))
+      const api = createMockPluginAPI()
+      registerMusicmationLibraryTools(api, MOCK_CONFIG, poller)
+      poller.track(['a'])
+      mockQuery.mockResolvedValueOnce([{ id: 'a', title: 'A', status: 'QUEUED' }])
+      await poller.pollOnce()
+
+      const parsed = JSON.parse((await api.getTool('musicmation_poll_status')!
+        .execute('test-id', { track_id: 'a' })).content[0].text)
+
+      expect(mockQuery).toHaveBeenCalledTimes(1)
+      expect(parsed).toMatchObject({ status: 'queued', track: { id: 'a' } })
+    })
+
+    it('does not track when nothing was enqueued', async () => {
+      const poller = listened(new GenerationPoller(MOCK_CONFIG))
+      const api = createMockPluginAPI()
+      registerMusicmationGenerateTool(api, MOCK_CONFIG, poller)
+      mockCall.mockResolvedValueOnce({ enqueued: 0, skipped: 2, total: 2, tier: 'free' })
+
+      await api.getTool('musicmation_bulk_generate')!.execute('test-id', { track_ids: ['x', 'y'] })
+
+      expect(poller.pendingIds).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import { readFileSync, readdirSync } from 'node:fs'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { validateSkill } from '../../src/skillmation/validate.js'
+
+const SKILLS_DIR = fileURLToPath(new URL('../../skills', import.meta.url))
+
+const GOOD = [
+  '# Release Planning',
+  '',
+  '> Plan a release week from finished tracks.',
+  '',
+  '## Tools',
+  '',
+  '| Tool | Purpose |',
+  '|------|---------|',
+  '| `musicmation_export_release` | Build the package |',
+  '',
+  '## Steps',
+  '',
+  '### Monday',
+  'Check the validation report.',
+].join('\n')
+
+function codes(issues: Array<{ code: string }>): string[] {
+  return issues.map((i) => i.code)
+}
+
+describe('validateSkill', () => {
+  it('accepts a skill that follows the conventions', () => {
+    const result = validateSkill({ content: GOOD, name: 'release-planning', description: 'Plan release weeks' })
+    expect(result).toMatchObject({
+      valid: true,
+      errors: [],
+      warnings: [],
+      title: 'Release Planning',
+      sections: ['Tools', 'Steps'],
+      tools: ['musicmation_export_release'],
+    })
+  })
+
+  it('accepts every bundled skill without errors', () => {
+    for (const dir of readdirSync(SKILLS_DIR)) {
+      const content = readFileSync(path.join(SKILLS_DIR, dir, 'SKILL.md'), 'utf8')
+      expect(validateSkill({ content, name: dir }).errors, dir).toEqual([])
+    }
+  })
+
+  it('rejects bad names, empty descriptions and empty content', () => {
+    const result = validateSkill({ content: ' ', name: 'Release Planning', description: '' })
+    expect(result.valid).toBe(false)
+    expect(codes(result.errors)).toEqual(['INVALID_NAME', 'MISSING_DESCRIPTION', 'EMPTY'])
+  })
+
+  it('requires a single title on the first line and at least one section', () => {
+    const result = validateSkill({ content: 'intro\n# One\n# Two' })
+    expect(codes(result.errors)).toEqual(['TITLE_NOT_FIRST', 'MULTIPLE_TITLES', 'NO_SECTIONS'])
+  })
+
+  it('reports broken tables and unclosed fences with line numbers', () => {
+    const content = GOOD + '\n\n| A | B |\n|---|---|\n| only one |\n\n```ts\n# not a heading'
+    const result = validateSkill({ content })
+    expect(result.errors).toEqual([
+      expect.objectContaining({ code: 'TABLE_COLUMNS', line: 18 }),
+      expect.objectContaining({ code: 'UNCLOSED_FENCE', line: 20 }),
+    ])
+    expect(result.title).toBe('Release Planning')
+  })
+
+  it('warns about style gaps without failing', () => {
+    const content = '# Notes\n\n## Usage\n\n#### Deep\n\n## Usage\n\n| Tool | Purpose |\n|---|---|\n| `spotify_upload` | x |'
+    const result = validateSkill({ content })
+    expect(result.valid).toBe(true)
+    expect(codes(result.warnings)).toEqual(['HEADING_SKIP', 'DUPLICATE_SECTION', 'UNKNOWN_TOOL', 'NO_SUMMARY'])
+  })
+})
@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { CynapsApiError } from '../../src/core/errors.js'
 
 /**
@@ -14,12 +14,14 @@ import { CynapsApiError } from '../../src/core/errors.js'
 const mockRpc = vi.fn()
 const mockQuery = vi.fn()
 const mockCall = vi.fn()
+const mockQueryPage = vi.fn()
 
 vi.mock('../../src/core/api-client.js', () => {
   class MockCynapsApiClient {
     rpc = mockRpc
     query = mockQuery
     call = mockCall
+    queryPage = mockQueryPage
     static fromContext() { return new MockCynapsApiClient() }
   }
   return { CynapsApiClient: MockCynapsApiClient }
@@ -30,6 +32,12 @@ const { registerMusicmationLibraryTools } = await import('../../src/tools/musicm
 const { registerMusicmationWriteTools } = await import('../../src/tools/musicmation-write.js')
 const { registerPreflightTool } = await import('../../src/tools/cynaps3-preflight.js')
 const { registerMusicmationGenerateTool } = await import('../../src/tools/musicmation-generate.js')
+const { registerMusicmationSunoTools } = await import('../../src/tools/musicmation-suno.js')
+const { registerStorymationTools } = await import('../../src/tools/storymation-stories.js')
+const { registerSkillmationTools } = await import('../../src/tools/skillmation-skills.js')
+const { registerContentmationTools } = await import('../../src/tools/contentmation-posts.js')
+const { registerMusicmationContentTools } = await import('../../src/tools/musicmation-content.js')
+const { providers } = await import('../../src/providers/index.js')
 const { createMockPluginAPI } = await import('../fixtures/mock-api.js')
 const { MOCK_CONFIG } = await import('../fixtures/mock-config.js')
 
@@ -39,8 +47,12 @@ function setupTools() {
   const api = createMockPluginAPI()
   registerPreflightTool(api, MOCK_CONFIG)
   registerMusicmationGenerateTool(api, MOCK_CONFIG)
+  registerMusicmationSunoTools(api, MOCK_CONFIG)
   registerMusicmationLibraryTools(api, MOCK_CONFIG)
   registerMusicmationWriteTools(api, MOCK_CONFIG)
+  registerStorymationTools(api, MOCK_CONFIG)
+  registerSkillmationTools(api, MOCK_CONFIG)
+  registerContentmationTools(api, MOCK_CONFIG)
   return api
 }
 
@@ -64,6 +76,15 @@ describe('handler behavior', () => {
       expect(typeof result.content[0].text).toBe('string')
     })
 
+    it('preflight adds a per-provider summary', async () => {
+      mockRpc.mockResolvedValue({ ready: true, checks: { suno_api_key: true, credits_available: 40, daily_used_suno: 1 } })
+      const tool = api.getTool('cynaps3_preflight')!
+      const parsed = JSON.parse((await tool.execute('test-id', {})).content[0].text)
+      expect(parsed.providers.map((p: { id: string }) => p.id)).toEqual(['suno', 'sonauto'])
+      expect(parsed.providers[0]).toMatchObject({ configured: true, credits_available: 40, daily_used: 1 })
+      expect(parsed.ready).toBe(true)
+    })
+
     it('returns details alongside content', async () => {
       mockRpc.mockResolvedValue({ tracks: [], count: 0 })
       const tool = api.getTool('musicmation_search_tracks')!
@@ -89,6 +110,15 @@ describe('handler behavior', () => {
       expect(mockRpc).toHaveBeenCalledWith('search-tracks', params)
     })
 
+    it('search_tracks drops trashed tracks from the results', async () => {
+      mockRpc.mockResolvedValue({ tracks: [{ id: 'a' }, { id: 'b' }], count: 2 })
+      mockQuery.mockResolvedValueOnce([{ id: 'b' }])
+      const tool = api.getTool('musicmation_search_tracks')!
+      const result = await tool.execute('test-id', { text: 'sun' })
+      expect(result.details).toEqual({ tracks: [{ id: 'a' }], count: 1 })
+      expect(mockQuery.mock.calls[0][1]).toMatchObject({ id: 'in.(a,b)', deleted_at: 'not.is.null' })
+    })
+
     it('search_tracks strips unknown fields (HIGH-2)', async () => {
       mockRpc.mockResolvedValue({ tracks: [], count: 0 })
       const tool = api.getTool('musicmation_search_tracks')!
@@ -339,6 +369,37 @@ describe('handler behavior', () => {
       expect(parsed.message).toContain('generation failed')
     })
 
+    it('routes a newly registered provider without tool changes', async () => {
+      providers.register({
+        id: 'fake', label: 'Fake', summary: '3 takes', endpoint: 'fake-generation-enqueue', variations: 3,
+        parameters: { temperature: { type: 'number' } }, capabilities: [],
+        creditsPerGeneration: () => 0,
+        buildEnqueueBody: (trackIds, params) => ({ trackIds, temperature: params.temperature }),
+        preflight: { apiKey: 'fake_key', credits: 'fake_credits', dailyUsed: 'fake_used' },
+      })
+      try {
+        const fakeApi = setupTools()
+        const tool = fakeApi.getTool('musicmation_generate')!
+        expect((tool.parameters.properties as Record<string, { enum?: string[] }>).provider.enum).toContain('fake')
+
+        mockQuery.mockResolvedValueOnce([{ id: 'new-trk-3' }])
+        mockCall.mockResolvedValueOnce({ enqueued: 1, skipped: 0, total: 1, tier: 'creator' })
+        const parsed = JSON.parse((await tool.execute('test-id', { title: 'T', provider: 'fake', temperature: 0.7 })).content[0].text)
+
+        expect(mockQuery.mock.calls[0][2].body.generation_source).toBe('fake')
+        expect(mockCall).toHaveBeenCalledWith('fake-generation-enqueue', { trackIds: ['new-trk-3'], temperature: 0.7 })
+        expect(parsed.message).toContain('3 variations')
+      } finally {
+        providers.unregister('fake')
+      }
+    })
+
+    it('rejects an unknown provider before creating anything', async () => {
+      const tool = api.getTool('musicmation_generate')!
+      await expect(tool.execute('test-id', { title: 'T', provider: 'udio' })).rejects.toThrow(/Unknown provider/)
+      expect(mockQuery).not.toHaveBeenCalled()
+    })
+
     it('throws when track creation fails', async () => {
       mockQuery.mockResolvedValueOnce([])
 
@@ -349,4 +410,879 @@ describe('handler behavior', () => {
       })).rejects.toThrow('Failed to create track item')
     })
   })
+
+  // ─── Regenerate ─────────────────────────────────────────────
+
+  describe('musicmation_regenerate', () => {
+    const done = {
+      id: 'trk-1', title: 'Night Drive', status: 'COMPLETE', item_type: 'track', project_id: 'proj-1',
+      generation_source: 'suno', audio_url: 'https://cdn/a.mp3', image_url: 'https://cdn/a.jpg', duration_sec: 120,
+      generation_attempt: null, deleted_at: null,
+    }
+
+    it('archives current takes, resets the track and re-enqueues with new settings', async () => {
+      mockQuery
+        .mockResolvedValueOnce([done])               // fetch
+        .mockResolvedValueOnce([{ id: 'trk-1_v1' }]) // supersede variations
+        .mockResolvedValueOnce([{ id: 'hist' }])     // snapshot parent take
+        .mockResolvedValueOnce([{ id: 'trk-1' }])    // reset
+      mockCall.mockResolvedValueOnce({ enqueued: 1, skipped: 0, total: 1, tier: 'creator' })
+
+      const tool = api.getTool('musicmation_regenerate')!
+      const parsed = JSON.parse((await tool.execute('test-id', {
+        track_id: 'trk-1', style_tags: 'darker synthwave', weirdness: 0.8,
+      })).content[0].text)
+
+      const [, supersedeQuery, supersede] = mockQuery.mock.calls[1]
+      expect(supersedeQuery).toMatchObject({ parent_id: 'eq.trk-1', item_type: 'eq.variation', superseded_at: 'is.null' })
+      expect(supersede.body).toMatchObject({ generation_attempt: 1 })
+
+      const snapshot = mockQuery.mock.calls[2][2].body
+      expect(snapshot).toMatchObject({ parent_id: 'trk-1', item_type: 'variation', audio_url: 'https://cdn/a.mp3', generation_attempt: 1 })
+      expect(snapshot.superseded_at).toBe(supersede.body.superseded_at)
+
+      expect(mockQuery.mock.calls[3][2].body).toMatchObject({
+        status: 'draft', audio_url: null, generation_attempt: 2, style_tags: 'darker synthwave',
+      })
+      expect(mockCall.mock.calls[0][0]).toBe('suno-generation-enqueue')
+      expect(mockCall.mock.calls[0][1]).toMatchObject({ trackIds: ['trk-1'], weirdness: 0.8, projectId: 'proj-1' })
+      expect(parsed).toMatchObject({ enqueued: true, attempt: 2, archived_takes: 2, provider: 'suno' })
+    })
+
+    it('refuses tracks that are still generating', async () => {
+      mockQuery.mockResolvedValueOnce([{ ...done, status: 'GENERATING' }])
+      const tool = api.getTool('musicmation_regenerate')!
+      const parsed = JSON.parse((await tool.execute('test-id', { track_id: 'trk-1' })).content[0].text)
+
+      expect(parsed.error).toBe('ALREADY_GENERATING')
+      expect(mockQuery).toHaveBeenCalledTimes(1)
+      expect(mockCall).not.toHaveBeenCalled()
+    })
+
+    it('points variations at their parent', async () => {
+      mockQuery.mockResolvedValueOnce([{ ...done, id: 'trk-1_v1', item_type: 'variation', parent_id: 'trk-1' }])
+      const tool = api.getTool('musicmation_regenerate')!
+      const parsed = JSON.parse((await tool.execute('test-id', { track_id: 'trk-1_v1' })).content[0].text)
+
+      expect(parsed).toMatchObject({ error: 'NOT_A_TRACK', parent_id: 'trk-1' })
+    })
+
+    it('retries a failed track without a snapshot and reports enqueue failures', async () => {
+      mockQuery
+        .mockResolvedValueOnce([{ ...done, status: 'FAILED', audio_url: null, generation_source: 'sonauto', generation_attempt: 2 }])
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ id: 'trk-1' }])
+      mockCall.mockRejectedValueOnce(new CynapsApiError('No credits', 402, 'NO_CREDITS'))
+
+      const tool = api.getTool('musicmation_regenerate')!
+      const parsed = JSON.parse((await tool.execute('test-id', { track_id: 'trk-1', prompt_strength: 3 })).content[0].text)
+
+      expect(mockQuery).toHaveBeenCalledTimes(3)
+      expect(mockCall.mock.calls[0][0]).toBe('sonauto-generation-enqueue')
+      expect(parsed).toMatchObject({ enqueued: false, attempt: 3, archived_takes: 0 })
+      expect(parsed.message).toContain('No credits')
+    })
+
+    it('refuses on backends without the history columns, before changing anything', async () => {
+      mockQuery
+        .mockRejectedValueOnce(new CynapsApiError('column sunoma_items.generation_attempt does not exist', 400, '42703'))
+        .mockResolvedValueOnce([done])
+
+      const tool = api.getTool('musicmation_regenerate')!
+      const parsed = JSON.parse((await tool.execute('test-id', { track_id: 'trk-1' })).content[0].text)
+
+      expect(mockQuery.mock.calls[1][1].select).not.toContain('generation_attempt')
+      expect(parsed).toMatchObject({ error: 'HISTORY_UNSUPPORTED', track_id: 'trk-1' })
+      expect(mockQuery).toHaveBeenCalledTimes(2)
+      expect(mockCall).not.toHaveBeenCalled()
+    })
+  })
+
+  // ─── Cancel Generation ──────────────────────────────────────
+
+  describe('musicmation_cancel_generation', () => {
+    it('resets only QUEUED tracks and classifies the rest', async () => {
+      mockQuery
+        .mockResolvedValueOnce([{ id: 'q1' }])
+        .mockResolvedValueOnce([{ id: 'g1', status: 'GENERATING' }, { id: 'd1', status: 'draft' }])
+
+      const tool = api.getTool('musicmation_cancel_generation')!
+      const parsed = JSON.parse((await tool.execute('test-id', { track_ids: ['q1', 'g1', 'd1', 'gone'] })).content[0].text)
+
+      const [, patchQuery, patch] = mockQuery.mock.calls[0]
+      expect(patchQuery).toMatchObject({ status: 'eq.QUEUED' })
+      expect(patch).toMatchObject({ method: 'PATCH', body: { status: 'draft' } })
+      expect(mockQuery.mock.calls[1][1].id).toBe('in.(g1,d1,gone)')
+
+      expect(parsed.reset_to_draft).toEqual(['q1'])
+      expect(parsed.message).toContain('not cancelled and credits were not refunded')
+      expect(parsed.already_started).toEqual([{ track_id: 'g1', status: 'generating' }])
+      expect(parsed.not_queued).toEqual([{ track_id: 'd1', status: 'draft' }, { track_id: 'gone', status: 'not_found' }])
+    })
+
+    it('stops the poller watching reset tracks', async () => {
+      const untrack = vi.fn()
+      const pollerApi = createMockPluginAPI()
+      registerMusicmationGenerateTool(pollerApi, MOCK_CONFIG, { track: vi.fn(), untrack } as never)
+      mockQuery.mockResolvedValueOnce([{ id: 'q1' }, { id: 'q2' }])
+
+      await pollerApi.getTool('musicmation_cancel_generation')!.execute('test-id', { track_ids: ['q1', 'q2'] })
+
+      expect(untrack).toHaveBeenCalledWith(['q1', 'q2'])
+      expect(mockQuery).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  // ─── Purge Trash ────────────────────────────────────────────
+
+  describe('musicmation_purge_trash', () => {
+    function purge(params: Record<string, unknown>) {
+      const contentApi = createMockPluginAPI()
+      registerMusicmationContentTools(contentApi, MOCK_CONFIG)
+      return contentApi.getTool('musicmation_purge_trash')!.execute('test-id', params)
+        .then((r) => JSON.parse(r.content[0].text))
+    }
+    const rows = (n: number) => Array.from({ length: n }, (_, i) => ({ id: `trk-${i}`, title: `T${i}` }))
+
+    it('refuses to purge when a full preview page arrives without Content-Range', async () => {
+      mockQueryPage.mockResolvedValueOnce({ rows: rows(20), total: null })
+
+      const parsed = await purge({ confirm_count: 20 })
+
+      expect(parsed).toMatchObject({ error: 'PURGE_COUNT_UNKNOWN', purged: 0 })
+      expect(mockQuery).not.toHaveBeenCalled()
+    })
+
+    it('counts a short preview page without Content-Range exactly', async () => {
+      mockQueryPage.mockResolvedValueOnce({ rows: rows(3), total: null })
+      expect(await purge({})).toMatchObject({ confirmation_required: true, would_purge: 3 })
+    })
+  })
+
+  // ─── Cost Estimation / Dry Run ──────────────────────────────
+
+  describe('cost estimation and dry_run', () => {
+    const checks = {
+      suno_api_key: true, sonauto_api_key: true,
+      credits_available: 100, sonauto_credits_available: 250,
+      daily_used: 45, daily_used_suno: 40, daily_used_sonauto: 5, daily_limit: 50,
+    }
+
+    it('estimate_cost combines the Suno model price with preflight numbers', async () => {
+      mockRpc.mockResolvedValueOnce({ ready: true, checks })
+      const tool = api.getTool('musicmation_estimate_cost')!
+      const parsed = JSON.parse((await tool.execute('test-id', { count: 5, model: 'V5' })).content[0].text)
+
+      expect(mockRpc).toHaveBeenCalledWith('preflight')
+      expect(parsed).toMatchObject({
+        provider: 'suno', tracks: 5, songs: 10,
+        credits_per_generation: 12, total_credits: 60, credits_available: 100, credits_after: 40,
+        daily_remaining: 5, fits_credits: true, fits_daily_limit: true, fits: true,
+      })
+    })
+
+    it('reports every reason a Sonauto batch does not fit', async () => {
+      mockRpc.mockResolvedValueOnce({ ready: true, checks })
+      const tool = api.getTool('musicmation_estimate_cost')!
+      const parsed = JSON.parse((await tool.execute('test-id', { count: 6, provider: 'sonauto' })).content[0].text)
+
+      expect(parsed).toMatchObject({ total_credits: 600, credits_available: 250, fits_credits: false, fits_daily_limit: false, fits: false })
+      expect(parsed.issues).toHaveLength(2)
+      expect(parsed.message).toContain("Won't fit")
+    })
+
+    it('generate dry_run estimates without creating or enqueuing', async () => {
+      mockRpc.mockResolvedValueOnce({ ready: true, checks })
+      const tool = api.getTool('musicmation_generate')!
+      const parsed = JSON.parse((await tool.execute('test-id', { title: 'T', dry_run: true })).content[0].text)
+
+      expect(parsed.dry_run).toBe(true)
+      expect(parsed.estimate.total_credits).toBe(12)
+      expect(mockQuery).not.toHaveBeenCalled()
+      expect(mockCall).not.toHaveBeenCalled()
+    })
+
+    it('bulk_generate dry_run prices the whole batch without enqueuing', async () => {
+      mockRpc.mockResolvedValueOnce({ ready: true, checks })
+      const tool = api.getTool('musicmation_bulk_generate')!
+      const parsed = JSON.parse((await tool.execute('test-id', {
+        track_ids: ['t1', 't2', 't3'], provider: 'sonauto', dry_run: true,
+      })).content[0].text)
+
+      expect(parsed).toMatchObject({ dry_run: true, total: 3 })
+      expect(parsed.estimate).toMatchObject({ total_credits: 300, fits_credits: false })
+      expect(mockCall).not.toHaveBeenCalled()
+    })
+  })
+
+  // ─── Bulk Chunking ──────────────────────────────────────────
+
+  describe('bulk chunking', () => {
+    const ids = (n: number) => Array.from({ length: n }, (_, i) => `trk-${i}`)
+
+    // These tests install persistent implementations; don't leak them
+    afterEach(() => {
+      mockCall.mockReset()
+      mockQuery.mockReset()
+    })
+
+    it('bulk_generate splits large lists into batches of 20 and sums the results', async () => {
+      mockCall.mockImplementation(async (_fn: string, body: { trackIds: string[] }) =>
+        ({ enqueued: body.trackIds.length, skipped: 0, total: body.trackIds.length, tier: 'creator' }))
+
+      const tool = api.getTool('musicmation_bulk_generate')!
+      const parsed = JSON.parse((await tool.execute('test-id', { track_ids: ids(45) })).content[0].text)
+
+      expect(mockCall.mock.calls.map((c) => c[1].trackIds.length)).toEqual([20, 20, 5])
+      expect(parsed).toMatchObject({ enqueued: 45, skipped: 0, total: 45, chunks: 3, tier: 'creator' })
+      expect(parsed.failed_chunks).toBeUndefined()
+    })
+
+    it('bulk_generate reports a failed batch and still enqueues the rest', async () => {
+      mockCall.mockImplementation(async (_fn: string, body: { trackIds: string[] }) => {
+        if (body.trackIds.includes('trk-20')) throw new CynapsApiError('Rate limited', 429, 'RATE_LIMITED')
+        return { enqueued: body.trackIds.length, skipped: 0, total: body.trackIds.length, tier: 'creator' }
+      })
+
+      const tool = api.getTool('musicmation_bulk_generate')!
+      const parsed = JSON.parse((await tool.execute('test-id', { track_ids: ids(45) })).content[0].text)
+
+      expect(parsed.enqueued).toBe(25)
+      expect(parsed.failed_chunks).toEqual([{ chunk: 2, ids: ids(40).slice(20), error: 'Rate limited', code: 'RATE_LIMITED' }])
+      expect(parsed.message).toContain('1 of 3 batches failed')
+    })
+
+    it('bulk_generate leaves trashed items out of the enqueue call', async () => {
+      mockQuery.mockImplementation(async (_table: string, query: Record<string, string>) =>
+        query.deleted_at === 'not.is.null' ? [{ id: 'trk-1' }] : [])
+      mockCall.mockImplementation(async (_fn: string, body: { trackIds: string[] }) =>
+        ({ enqueued: body.trackIds.length, skipped: 0, total: body.trackIds.length, tier: 'creator' }))
+
+      const tool = api.getTool('musicmation_bulk_generate')!
+      const parsed = JSON.parse((await tool.execute('test-id', { track_ids: ids(3) })).content[0].text)
+
+      expect(mockCall.mock.calls[0][1].trackIds).toEqual(['trk-0', 'trk-2'])
+      expect(parsed).toMatchObject({ enqueued: 2, trashed: ['trk-1'] })
+      expect(parsed.message).toContain('1 in the trash were left out')
+    })
+
+    it('bulk_generate still throws when every batch fails', async () => {
+      mockCall.mockRejectedValue(new CynapsApiError('No credits', 402, 'NO_CREDITS'))
+      const tool = api.getTool('musicmation_bulk_generate')!
+      await expect(tool.execute('test-id', { track_ids: ids(25) })).rejects.toThrow('No credits')
+    })
+
+    it('bulk_poll_status marks tracks from a failed batch unavailable', async () => {
+      mockQuery.mockImplementation(async (_table: string, query: Record<string, string>) => {
+        if (query.id?.includes('trk-0')) return ids(20).map((id) => ({ id, title: id, status: 'GENERATING' }))
+        throw new CynapsApiError('Bad gateway', 502)
+      })
+
+      const tool = api.getTool('musicmation_bulk_poll_status')!
+      const parsed = JSON.parse((await tool.execute('test-id', { track_ids: ids(30) })).content[0].text)
+
+      expect(mockQuery).toHaveBeenCalledTimes(2)
+      expect(parsed.summary).toMatchObject({ total: 30, generating: 20, all_settled: false })
+      expect(parsed.tracks[25]).toMatchObject({ track_id: 'trk-25', status: 'unavailable' })
+      expect(parsed.failed_chunks[0]).toMatchObject({ chunk: 2, code: null })
+      expect(parsed.message).toContain("10 couldn't be checked")
+    })
+  })
+
+  // ─── Wait For Completion ────────────────────────────────────
+
+  describe('musicmation_wait_for_completion', () => {
+    it('returns immediately when all tracks are already settled', async () => {
+      mockQuery
+        .mockResolvedValueOnce([
+          { id: 'a', title: 'A', status: 'COMPLETE' },
+          { id: 'b', title: 'B', status: 'FAILED' },
+        ])
+        .mockResolvedValueOnce([])  // variations for 'a'
+
+      const tool = api.getTool('musicmation_wait_for_completion')!
+      const result = await tool.execute('test-id', { track_ids: ['a', 'b'] })
+      const parsed = JSON.parse(result.content[0].text)
+
+      expect(parsed.timed_out).toBe(false)
+      expect(parsed.summary).toMatchObject({ total: 2, completed: 1, failed: 1, all_settled: true })
+      expect(parsed.tracks[0].listen_url).toContain('/details/a')
+    })
+
+    it('polls with backoff until tracks complete', async () => {
+      vi.useFakeTimers()
+      mockQuery
+        .mockResolvedValueOnce([{ id: 'a', title: 'A', status: 'QUEUED' }])
+        .mockResolvedValueOnce([{ id: 'a', title: 'A', status: 'GENERATING' }])
+        .mockResolvedValueOnce([{ id: 'a', title: 'A', status: 'COMPLETE' }])
+        .mockResolvedValueOnce([])  // variations
+
+      const tool = api.getTool('musicmation_wait_for_completion')!
+      const promise = tool.execute('test-id', { track_ids: ['a'] })
+
+      await vi.advanceTimersByTimeAsync(5_000)   // first backoff step
+      expect(mockQuery).toHaveBeenCalledTimes(2)
+      await vi.advanceTimersByTimeAsync(10_000)  // doubled
+      const parsed = JSON.parse((await promise).content[0].text)
+
+      expect(parsed.summary.all_done).toBe(true)
+      expect(parsed.timed_out).toBe(false)
+      vi.useRealTimers()
+    })
+
+    it('returns current progress when the deadline passes', async () => {
+      vi.useFakeTimers()
+      mockQuery.mockResolvedValue([{ id: 'a', title: 'A', status: 'GENERATING' }])
+
+      const tool = api.getTool('musicmation_wait_for_completion')!
+      const promise = tool.execute('test-id', { track_ids: ['a'], max_wait_sec: 20 })
+      await vi.advanceTimersByTimeAsync(20_000)
+      const parsed = JSON.parse((await promise).content[0].text)
+
+      expect(parsed.timed_out).toBe(true)
+      expect(parsed.summary.generating).toBe(1)
+      expect(parsed.waited_sec).toBe(20)
+      vi.useRealTimers()
+    })
+
+    it('stops waiting as soon as the host aborts the call', async () => {
+      vi.useFakeTimers()
+      mockQuery.mockResolvedValue([{ id: 'a', title: 'A', status: 'GENERATING' }])
+      const controller = new AbortController()
+
+      const tool = api.getTool('musicmation_wait_for_completion')!
+      const promise = tool.execute('test-id', { track_ids: ['a'] }, controller.signal)
+      await vi.advanceTimersByTimeAsync(1_000)
+      controller.abort()
+      const parsed = JSON.parse((await promise).content[0].text)
+
+      expect(mockQuery).toHaveBeenCalledTimes(1)
+      expect(parsed).toMatchObject({ cancelled: true, timed_out: false, waited_sec: 1 })
+      vi.useRealTimers()
+    })
+
+    it('caps max_wait_sec at 300 seconds', () => {
+      const schema = api.getTool('musicmation_wait_for_completion')!.parameters as {
+        properties: { max_wait_sec: { maximum: number } }
+      }
+      expect(schema.properties.max_wait_sec.maximum).toBe(300)
+    })
+  })
+
+  // ─── Suno Transformations ───────────────────────────────────
+
+  describe('suno transformation tools', () => {
+    const SUNO_TRACK = {
+      id: 'src-1', title: 'Source', status: 'COMPLETE', project_id: 'proj-1',
+      generation_source: 'suno', audio_url: 'https://cdn/src-1.mp3',
+    }
+
+    it('refuses Sonauto tracks without calling suno-proxy', async () => {
+      mockQuery.mockResolvedValueOnce([{ ...SUNO_TRACK, generation_source: 'sonauto' }])
+
+      const tool = api.getTool('musicmation_extend_track')!
+      const parsed = JSON.parse((await tool.execute('test-id', { track_id: 'src-1' })).content[0].text)
+
+      expect(parsed).toMatchObject({ error: 'UNSUPPORTED_BY_PROVIDER', operation: 'extend', provider: 'sonauto' })
+      expect(mockQuery).toHaveBeenCalledTimes(1)
+      expect(mockCall).not.toHaveBeenCalled()
+    })
+
+    it('refuses sources that have not finished generating', async () => {
+      mockQuery.mockResolvedValueOnce([{ ...SUNO_TRACK, status: 'GENERATING', audio_url: null }])
+
+      const tool = api.getTool('musicmation_cover_track')!
+      const parsed = JSON.parse((await tool.execute('test-id', { track_id: 'src-1', style_tags: 'folk' })).content[0].text)
+
+      expect(parsed.error).toBe('SOURCE_NOT_READY')
+      expect(mockCall).not.toHaveBeenCalled()
+    })
+
+    it('reports a missing source track', async () => {
+      mockQuery.mockResolvedValueOnce([])
+
+      const tool = api.getTool('musicmation_add_vocals')!
+      const parsed = JSON.parse((await tool.execute('test-id', { track_id: 'nope', lyrics: 'la' })).content[0].text)
+
+      expect(parsed.error).toBe('TRACK_NOT_FOUND')
+    })
+
+    it('creates a derived track and calls the matching suno-proxy method', async () => {
+      mockQuery
+        .mockResolvedValueOnce([SUNO_TRACK])
+        .mockResolvedValueOnce([{ id: 'new-trk' }])
+      mockCall.mockResolvedValueOnce({ success: true })
+
+      const tool = api.getTool('musicmation_add_vocals')!
+      const parsed = JSON.parse((await tool.execute('test-id', { track_id: 'src-1', lyrics: 'Hello' })).content[0].text)
+
+      expect(mockQuery.mock.calls[1][2].body).toMatchObject({
+        title: 'Source (Vocal)', project_id: 'proj-1', generation_source: 'suno', source_item_id: 'src-1',
+      })
+      expect(mockCall).toHaveBeenCalledWith('suno-proxy', {
+        method: 'addVocals',
+        params: { trackId: 'new-trk', sourceTrackId: 'src-1', lyrics: 'Hello', style: null },
+      })
+      expect(parsed).toMatchObject({ track_id: 'new-trk', source_track_id: 'src-1', enqueued: true })
+    })
+
+    it('removes the draft row when suno-proxy fails', async () => {
+      mockQuery
+        .mockResolvedValueOnce([SUNO_TRACK])
+        .mockResolvedValueOnce([{ id: 'new-trk' }])
+        .mockResolvedValueOnce([])
+      mockCall.mockRejectedValueOnce(new CynapsApiError('Unknown method', 400, 'UNKNOWN_METHOD'))
+
+      const tool = api.getTool('musicmation_extend_track')!
+      const parsed = JSON.parse((await tool.execute('test-id', { track_id: 'src-1' })).content[0].text)
+
+      expect(mockQuery.mock.calls[2][1]).toEqual({ id: 'eq.new-trk', status: 'eq.draft' })
+      expect(mockQuery.mock.calls[2][2]).toEqual({ method: 'DELETE' })
+      expect(parsed).toMatchObject({ enqueued: false, error: 'UNKNOWN_METHOD' })
+      expect(parsed.track_id).toBeUndefined()
+    })
+
+    it('returns the draft track_id when it cannot be removed', async () => {
+      mockQuery
+        .mockResolvedValueOnce([SUNO_TRACK])
+        .mockResolvedValueOnce([{ id: 'new-trk' }])
+        .mockRejectedValueOnce(new CynapsApiError('Bad gateway', 502))
+      mockCall.mockRejectedValueOnce(new CynapsApiError('Bad gateway', 502))
+
+      const tool = api.getTool('musicmation_cover_track')!
+      const parsed = JSON.parse((await tool.execute('test-id', { track_id: 'src-1', style_tags: 'folk' })).content[0].text)
+
+      expect(parsed).toMatchObject({ track_id: 'new-trk', enqueued: false })
+      expect(parsed.message).toContain('musicmation_delete_item')
+    })
+  })
+
+  // ─── Storymation ────────────────────────────────────────────
+
+  describe('storymation tools', () => {
+    it('create_story forwards only known fields and returns the confirmation instruction', async () => {
+      mockRpc.mockResolvedValue({
+        confirmation_required: true,
+        autonomy_level: 'ask',
+        capability: 'create_story',
+        confirmation_token: 'tok-story',
+        expires_in: 300,
+        message: 'Create story?',
+      })
+      const tool = api.getTool('storymation_create_story')!
+      const parsed = JSON.parse((await tool.execute('test-id', { title: 'The Lighthouse', genre: 'mystery', owner_id: 'evil' })).content[0].text)
+
+      expect(mockRpc).toHaveBeenCalledWith('create-story', { title: 'The Lighthouse', genre: 'mystery' })
+      expect(parsed.confirmation_token).toBe('tok-story')
+      expect(parsed.instruction).toContain('confirmation_token')
+    })
+
+    it('write_chapter passes the chapter and token through', async () => {
+      mockRpc.mockResolvedValue({ chapter: { id: 'ch_1', position: 3 } })
+      const tool = api.getTool('storymation_write_chapter')!
+      await tool.execute('test-id', { story_id: 's1', title: 'Storm', text: 'It rained.', confirmation_token: 'tok' })
+
+      expect(mockRpc).toHaveBeenCalledWith('write-chapter', { story_id: 's1', title: 'Storm', text: 'It rained.', confirmation_token: 'tok' })
+    })
+
+    it('update_chapter rejects a call without changes', async () => {
+      const tool = api.getTool('storymation_update_chapter')!
+      await expect(tool.execute('test-id', { chapter_id: 'ch_1' })).rejects.toMatchObject({ code: 'NO_CHANGES' })
+      expect(mockRpc).not.toHaveBeenCalled()
+    })
+
+    it('list_chapters returns chapters in reading order with a word total', async () => {
+      mockRpc.mockResolvedValue({
+        story: { id: 's1', title: 'The Lighthouse' },
+        chapters: [
+          { id: 'ch_2', position: 2, title: 'Two', word_count: 900 },
+          { id: 'ch_1', position: 1, title: 'One', word_count: 1200 },
+        ],
+      })
+      const tool = api.getTool('storymation_list_chapters')!
+      const parsed = JSON.parse((await tool.execute('test-id', { story_id: 's1' })).content[0].text)
+
+      expect(parsed.chapters.map((c: { id: string }) => c.id)).toEqual(['ch_1', 'ch_2'])
+      expect(parsed).toMatchObject({ count: 2, total_words: 2100 })
+    })
+
+    it('list_chapters reports a missing story', async () => {
+      mockRpc.mockResolvedValue(null)
+      const tool = api.getTool('storymation_list_chapters')!
+      await expect(tool.execute('test-id', { story_id: 'nope' })).rejects.toMatchObject({ code: 'STORY_NOT_FOUND' })
+    })
+
+    it('narrate_chapter queues the narration and points at list_chapters for its status', async () => {
+      mockRpc.mockResolvedValue({ chapter_id: 'ch_1', item_id: 'track_1_abc', status: 'QUEUED' })
+
+      const parsed = JSON.parse((await api.getTool('storymation_narrate_chapter')!
+        .execute('test-id', { chapter_id: 'ch_1', voice: 'warm' })).content[0].text)
+
+      expect(mockRpc).toHaveBeenCalledWith('narrate-chapter', { chapter_id: 'ch_1', voice: 'warm' })
+      expect(parsed).toMatchObject({ item_id: 'track_1_abc', status: 'QUEUED' })
+      expect(parsed.message).toContain('storymation_list_chapters')
+    })
+
+    it('narrate_chapter hands a confirmation back to the agent', async () => {
+      mockRpc.mockResolvedValue({ confirmation_required: true, confirmation_token: 'tok-n' })
+
+      const parsed = JSON.parse((await api.getTool('storymation_narrate_chapter')!
+        .execute('test-id', { chapter_id: 'ch_1' })).content[0].text)
+
+      expect(parsed.instruction).toContain('confirmation_token')
+    })
+  })
+
+  // ─── Skillmation ────────────────────────────────────────────
+
+  describe('skillmation tools', () => {
+    const CONTENT = '# Release Planning\n\n> Plan release weeks.\n\n## Tools\n\n| Tool | Purpose |\n|---|---|\n| `musicmation_export_release` | Package |\n'
+    const SKILL = {
+      id: 'skill_1', name: 'release-planning', title: 'Release Planning', description: 'Plan release weeks',
+      tags: null, modules: null, status: 'draft', current_version: 2, published_version: 1,
+    }
+
+    function exec(name: string, params: Record<string, unknown>) {
+      return api.getTool(name)!.execute('test-id', params).then((r) => JSON.parse(r.content[0].text))
+    }
+
+    it('draft_skill creates the skill and its first version', async () => {
+      mockQuery
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ id: 'skill_new' }])
+        .mockResolvedValueOnce([{ id: 'skillv_1' }])
+
+      const parsed = await exec('skillmation_draft_skill', { name: 'release-planning', content: CONTENT, description: 'Plan release weeks' })
+
+      expect(mockQuery.mock.calls[0][1]).toMatchObject({ name: 'eq.release-planning' })
+      expect(mockQuery.mock.calls[1][2].body).toMatchObject({
+        name: 'release-planning', title: 'Release Planning', status: 'draft', current_version: 1,
+      })
+      expect(mockQuery.mock.calls[2][0]).toBe('skillmation_skill_versions')
+      expect(mockQuery.mock.calls[2][2].body).toMatchObject({
+        skill_id: 'skill_new', version: 1, content: CONTENT, validation: { valid: true, errors: 0, warnings: 0 },
+      })
+      expect(parsed).toMatchObject({ skill_id: 'skill_new', version: 1, created: true, validation: { valid: true } })
+    })
+
+    it('draft_skill adds a version to an existing skill and keeps the published one', async () => {
+      mockQuery
+        .mockResolvedValueOnce([SKILL])
+        .mockResolvedValueOnce([{ version: 2, content: 'old' }])
+        .mockResolvedValueOnce([{ id: 'skillv_3' }])
+        .mockResolvedValueOnce([SKILL])
+
+      const parsed = await exec('skillmation_draft_skill', { name: 'release-planning', content: CONTENT, description: 'Plan release weeks' })
+
+      expect(mockQuery.mock.calls[2][2].body).toMatchObject({ version: 3 })
+      expect(mockQuery.mock.calls[3][2]).toMatchObject({ method: 'PATCH', body: { current_version: 3 } })
+      expect(parsed).toMatchObject({ version: 3, created: false, published_version: 1 })
+    })
+
+    it('draft_skill takes the next version when a concurrent draft claimed it', async () => {
+      mockQuery
+        .mockResolvedValueOnce([SKILL])
+        .mockResolvedValueOnce([{ version: 2, content: 'old' }])
+        .mockRejectedValueOnce(new CynapsApiError('duplicate key value', 409))
+        .mockResolvedValueOnce([{ version: 3 }])
+        .mockResolvedValueOnce([{ id: 'skillv_4' }])
+        .mockResolvedValueOnce([])
+
+      const parsed = await exec('skillmation_draft_skill', { name: 'release-planning', content: CONTENT, description: 'Plan release weeks' })
+
+      expect(mockQuery.mock.calls[2][2].body).toMatchObject({ version: 3 })
+      expect(mockQuery.mock.calls[3][1]).toMatchObject({ skill_id: 'eq.skill_1', order: 'version.desc', limit: '1' })
+      expect(mockQuery.mock.calls[4][2].body).toMatchObject({ version: 4 })
+      expect(mockQuery.mock.calls[5][1]).toMatchObject({ id: 'eq.skill_1', current_version: 'lt.4' })
+      expect(parsed).toMatchObject({ version: 4, created: false })
+    })
+
+    it('draft_skill does not save an identical draft twice', async () => {
+      mockQuery
+        .mockResolvedValueOnce([SKILL])
+        .mockResolvedValueOnce([{ version: 2, content: CONTENT }])
+
+      const parsed = await exec('skillmation_draft_skill', { name: 'release-planning', content: CONTENT, description: 'Plan release weeks' })
+
+      expect(mockQuery).toHaveBeenCalledTimes(2)
+      expect(parsed).toMatchObject({ unchanged: true, version: 2 })
+    })
+
+    it('draft_skill refuses a name that is not kebab-case', async () => {
+      await expect(exec('skillmation_draft_skill', { name: 'Release Planning', content: CONTENT, description: 'x' }))
+        .rejects.toMatchObject({ code: 'INVALID_NAME' })
+      expect(mockQuery).not.toHaveBeenCalled()
+    })
+
+    it('validate_skill checks inline content without touching the server', async () => {
+      const parsed = await exec('skillmation_validate_skill', { content: 'no title here' })
+      expect(parsed.valid).toBe(false)
+      expect(parsed.errors.map((e: { code: string }) => e.code)).toContain('MISSING_TITLE')
+      expect(mockQuery).not.toHaveBeenCalled()
+    })
+
+    it('publish_skill previews first, then publishes with the confirmation token', async () => {
+      const version = { id: 'skillv_2', version: 2, content: CONTENT, description: 'Plan release weeks' }
+      mockQuery.mockResolvedValueOnce([SKILL]).mockResolvedValueOnce([version])
+      const preview = await exec('skillmation_publish_skill', { skill_id: 'skill_1' })
+      expect(preview).toMatchObject({ confirmation_required: true, capability: 'publish_skill', version: 2, replaces_version: 1 })
+      expect(preview.confirmation_token).toEqual(expect.any(String))
+      expect(mockQuery).toHaveBeenCalledTimes(2)
+
+      mockQuery
+        .mockResolvedValueOnce([SKILL])
+        .mockResolvedValueOnce([version])
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([])
+      const published = await exec('skillmation_publish_skill', { skill_id: 'skill_1', confirmation_token: preview.confirmation_token })
+
+      expect(mockQuery.mock.calls[4]).toEqual([
+        'skillmation_skill_versions', { id: 'eq.skillv_2' }, { method: 'PATCH', body: { published_at: expect.any(String) } },
+      ])
+      expect(mockQuery.mock.calls[5][2].body).toMatchObject({ status: 'published', published_version: 2 })
+      expect(published).toMatchObject({ published: true, version: 2 })
+    })
+
+    it('publish_skill refuses a version with validation errors', async () => {
+      mockQuery
+        .mockResolvedValueOnce([SKILL])
+        .mockResolvedValueOnce([{ id: 'skillv_2', version: 2, content: 'no title', description: 'x' }])
+
+      const parsed = await exec('skillmation_publish_skill', { skill_id: 'skill_1', confirmation_token: 'x' })
+
+      expect(parsed.error).toBe('VALIDATION_FAILED')
+      expect(mockQuery).toHaveBeenCalledTimes(2)
+    })
+
+    it('publish_skill refuses a token issued for another version', async () => {
+      const v2 = { id: 'skillv_2', version: 2, content: CONTENT, description: 'Plan release weeks' }
+      mockQuery.mockResolvedValueOnce([SKILL]).mockResolvedValueOnce([v2])
+      const preview = await exec('skillmation_publish_skill', { skill_id: 'skill_1' })
+
+      mockQuery
+        .mockResolvedValueOnce([{ ...SKILL, current_version: 3 }])
+        .mockResolvedValueOnce([{ ...v2, id: 'skillv_3', version: 3 }])
+      const parsed = await exec('skillmation_publish_skill', { skill_id: 'skill_1', confirmation_token: preview.confirmation_token })
+
+      expect(parsed.error).toBe('INVALID_CONFIRMATION')
+      expect(mockQuery).toHaveBeenCalledTimes(4)
+    })
+  })
+
+  describe('contentmation tools', () => {
+    const TRACK = {
+      id: 'track_1', title: 'Night Drive', status: 'COMPLETE', audio_url: 'https://cdn/a.mp3',
+      image_url: 'https://cdn/a.png', project_id: 'proj_1', deleted_at: null,
+    }
+    const POST = { id: 'post_1', channel: 'x', status: 'draft', scheduled_at: null, published_at: null, published_url: null }
+
+    function exec(name: string, params: Record<string, unknown>) {
+      return api.getTool(name)!.execute('test-id', params).then((r) => JSON.parse(r.content[0].text))
+    }
+
+    it('draft_post builds the post from the track with its listen link and artwork', async () => {
+      mockQuery.mockResolvedValueOnce([TRACK]).mockResolvedValueOnce([{ id: 'post_new' }])
+
+      const parsed = await exec('contentmation_draft_post', {
+        track_id: 'track_1', channel: 'x', text: 'New one out tonight.', hashtags: ['#synthwave', 'Synthwave'],
+      })
+
+      expect(mockQuery.mock.calls[0][0]).toBe('sunoma_items')
+      expect(mockQuery.mock.calls[1][0]).toBe('contentmation_posts')
+      expect(mockQuery.mock.calls[1][2].body).toMatchObject({
+        channel: 'x',
+        status: 'draft',
+        source_type: 'track',
+        source_id: 'track_1',
+        project_id: 'proj_1',
+        listen_url: 'https://content.7cycle.life/details/track_1',
+        image_url: 'https://cdn/a.png',
+        hashtags: ['synthwave'],
+        body: 'New one out tonight.\n\nhttps://content.7cycle.life/details/track_1\n\n#synthwave',
+      })
+      expect(parsed).toMatchObject({ post: { id: 'post_new' }, limit: 280 })
+    })
+
+    it('draft_post links an album to its first finished, untrashed track', async () => {
+      mockRpc.mockResolvedValueOnce({
+        id: 'album_1', title: 'Nocturnes', image_url: null,
+        tracks: [{ track_id: 'track_2', order: 3 }, { track_id: 'track_0', order: 1 }, { track_id: 'track_1', order: 2 }],
+      })
+      mockQuery
+        .mockResolvedValueOnce([{ id: 'track_0' }]) // trashed
+        .mockResolvedValueOnce([{ ...TRACK, id: 'track_2' }, { ...TRACK, id: 'track_1', status: 'GENERATING', audio_url: null }])
+        .mockResolvedValueOnce([{ id: 'post_new' }])
+
+      await exec('contentmation_draft_post', { album_id: 'album_1', channel: 'blog', text: 'Liner notes.' })
+
+      expect(mockQuery.mock.calls[1][1].id).toBe('in.(track_1,track_2)')
+      expect(mockQuery.mock.calls[2][2].body).toMatchObject({
+        source_type: 'album',
+        source_id: 'album_1',
+        title: 'Nocturnes',
+        listen_url: 'https://content.7cycle.life/details/track_2',
+        image_url: 'https://cdn/a.png',
+      })
+    })
+
+    it('draft_post explains when the backend cannot read albums', async () => {
+      mockRpc.mockRejectedValueOnce(new CynapsApiError('Unknown method: get-album', 400, 'UNKNOWN_METHOD'))
+
+      await expect(exec('contentmation_draft_post', { album_id: 'album_1', channel: 'x', text: 'Out now' }))
+        .rejects.toMatchObject({ code: 'ALBUM_UNSUPPORTED' })
+      expect(mockQuery).not.toHaveBeenCalled()
+    })
+
+    it('draft_post refuses unfinished tracks and copy over the channel limit', async () => {
+      mockQuery.mockResolvedValueOnce([{ ...TRACK, status: 'GENERATING', audio_url: null }])
+      await expect(exec('contentmation_draft_post', { track_id: 'track_1', channel: 'x', text: 'Soon' }))
+        .rejects.toMatchObject({ code: 'TRACK_NOT_READY' })
+
+      mockQuery.mockResolvedValueOnce([TRACK])
+      await expect(exec('contentmation_draft_post', { track_id: 'track_1', channel: 'x', text: 'a'.repeat(260) }))
+        .rejects.toMatchObject({ code: 'TEXT_TOO_LONG' })
+      expect(mockQuery).toHaveBeenCalledTimes(2)
+    })
+
+    it('schedule_post sets a future date and refuses the past', async () => {
+      await expect(exec('contentmation_schedule_post', { post_id: 'post_1', scheduled_at: '2020-01-01T00:00:00Z' }))
+        .rejects.toMatchObject({ code: 'SCHEDULE_IN_PAST' })
+      expect(mockQuery).not.toHaveBeenCalled()
+
+      mockQuery.mockResolvedValueOnce([POST]).mockResolvedValueOnce([])
+      const parsed = await exec('contentmation_schedule_post', { post_id: 'post_1', scheduled_at: '2999-06-01T18:00:00+02:00' })
+
+      expect(mockQuery.mock.calls[1]).toEqual([
+        'contentmation_posts', { id: 'eq.post_1' },
+        { method: 'PATCH', body: { status: 'scheduled', scheduled_at: '2999-06-01T16:00:00.000Z' } },
+      ])
+      expect(parsed).toMatchObject({ status: 'scheduled', scheduled_at: '2999-06-01T16:00:00.000Z' })
+    })
+
+    it('list_posts defaults to drafts and scheduled posts', async () => {
+      mockQueryPage.mockResolvedValueOnce({ rows: [POST], total: 1 })
+
+      const parsed = await exec('contentmation_list_posts', {})
+
+      expect(mockQueryPage.mock.calls[0][0]).toBe('contentmation_posts')
+      expect(mockQueryPage.mock.calls[0][1]).toMatchObject({ status: 'in.(draft,scheduled)', order: 'created_at.desc,id.asc' })
+      expect(parsed).toMatchObject({ count: 1, total: 1, has_more: false })
+    })
+
+    it('list_posts refuses track_id and album_id together', async () => {
+      await expect(exec('contentmation_list_posts', { track_id: 'track_1', album_id: 'album_1' }))
+        .rejects.toMatchObject({ code: 'INVALID_INPUT' })
+      expect(mockQueryPage).not.toHaveBeenCalled()
+    })
+
+    it('mark_published records the live URL once', async () => {
+      mockQuery.mockResolvedValueOnce([POST]).mockResolvedValueOnce([])
+      const parsed = await exec('contentmation_mark_published', { post_id: 'post_1', url: 'https://x.com/p/1' })
+
+      expect(mockQuery.mock.calls[1][2]).toMatchObject({
+        method: 'PATCH',
+        body: { status: 'published', published_url: 'https://x.com/p/1', published_at: expect.any(String) },
+      })
+      expect(parsed.status).toBe('published')
+
+      mockQuery.mockResolvedValueOnce([{ ...POST, status: 'published', published_at: '2026-01-01T00:00:00.000Z' }])
+      const again = await exec('contentmation_mark_published', { post_id: 'post_1' })
+      expect(again.message).toContain('Already marked published')
+      expect(mockQuery).toHaveBeenCalledTimes(3)
+    })
+  })
+
+  describe('agent profiles', () => {
+    const checks = {
+      suno_api_key: true, sonauto_api_key: true,
+      credits_available: 1000, sonauto_credits_available: 1000,
+      daily_used: 0, daily_used_suno: 0, daily_used_sonauto: 0, daily_limit: 50,
+    }
+    const config = {
+      ...MOCK_CONFIG,
+      agents: {
+        pete: {
+          defaultProjectId: 'proj_pete',
+          defaultProvider: 'sonauto',
+          spendingCaps: { maxCreditsPerRequest: 250, maxTracksPerRequest: 5 },
+        },
+      },
+    }
+
+    function setupAgent(agentId: string) {
+      const agentApi = createMockPluginAPI(undefined, { agentId })
+      registerPreflightTool(agentApi, config)
+      registerMusicmationGenerateTool(agentApi, config)
+      registerMusicmationSunoTools(agentApi, config)
+      registerMusicmationContentTools(agentApi, config)
+      return agentApi
+    }
+
+    function exec(agentApi: ReturnType<typeof setupAgent>, name: string, params: Record<string, unknown>) {
+      return agentApi.getTool(name)!.execute('test-id', params).then((r) => JSON.parse(r.content[0].text))
+    }
+
+    it('generate uses the agent default provider and project', async () => {
+      const pete = setupAgent('pete')
+      mockQuery.mockResolvedValueOnce([{ id: 'track_1' }])
+      mockCall.mockResolvedValueOnce({ success: true, enqueued: 1, skipped: 0, total: 1, tier: 'pro' })
+
+      const parsed = await exec(pete, 'musicmation_generate', { title: 'T' })
+
+      expect(mockQuery.mock.calls[0][2].body).toMatchObject({ project_id: 'proj_pete', generation_source: 'sonauto' })
+      expect(mockCall).toHaveBeenCalledWith('sonauto-generation-enqueue', expect.objectContaining({
+        trackIds: ['track_1'],
+        projectId: 'proj_pete',
+      }))
+      expect(parsed.provider).toBe('sonauto')
+      expect(pete.getTool('musicmation_generate')!.parameters).toMatchObject({
+        properties: { provider: { default: 'sonauto' } },
+      })
+    })
+
+    it('refuses requests over the spending caps before creating anything', async () => {
+      const pete = setupAgent('pete')
+
+      await expect(exec(pete, 'musicmation_bulk_generate', { track_ids: ['a', 'b', 'c'] }))
+        .rejects.toMatchObject({ code: 'SPENDING_CAP_EXCEEDED' })
+      await expect(exec(pete, 'musicmation_bulk_generate', { track_ids: ['1', '2', '3', '4', '5', '6'], provider: 'suno' }))
+        .rejects.toMatchObject({ code: 'SPENDING_CAP_EXCEEDED' })
+      expect(mockCall).not.toHaveBeenCalled()
+      expect(mockQuery).not.toHaveBeenCalled()
+    })
+
+    it('counts the caps in estimates', async () => {
+      const pete = setupAgent('pete')
+      mockRpc.mockResolvedValueOnce({ ready: true, checks })
+
+      const parsed = await exec(pete, 'musicmation_estimate_cost', { count: 3 })
+
+      expect(parsed).toMatchObject({ provider: 'sonauto', total_credits: 300, fits_spending_cap: false, fits: false })
+    })
+
+    it('other agents keep the global settings', async () => {
+      const flow = setupAgent('flow')
+      mockRpc.mockResolvedValueOnce({ ready: true, checks })
+
+      const parsed = await exec(flow, 'musicmation_estimate_cost', { count: 3 })
+
+      expect(parsed.provider).toBe('suno')
+      expect(parsed).not.toHaveProperty('fits_spending_cap')
+      expect(flow.getTool('musicmation_create_item')!.parameters).toMatchObject({ required: ['title', 'project_id'] })
+      expect(setupAgent('pete').getTool('musicmation_create_item')!.parameters).toMatchObject({ required: ['title'] })
+    })
+
+    it('preflight reports the resolved profile', async () => {
+      mockRpc.mockResolvedValueOnce({ ready: true, checks })
+      const parsed = await exec(setupAgent('pete'), 'cynaps3_preflight', {})
+
+      expect(parsed.agent_profile).toEqual({
+        agent_id: 'pete',
+        enabled_modules: ['musicmation'],
+        default_project_id: 'proj_pete',
+        default_provider: 'sonauto',
+        spending_caps: { maxCreditsPerRequest: 250, maxTracksPerRequest: 5 },
+      })
+    })
+  })
 })
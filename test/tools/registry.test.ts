@@ -2,6 +2,7 @@ import { describe, it, expect } from 'vitest'
 import { registerAllTools } from '../../src/tools/_registry.js'
 import { createMockPluginAPI } from '../fixtures/mock-api.js'
 import { MOCK_CONFIG } from '../fixtures/mock-config.js'
+import type { CynapsConfig } from '../../src/core/types.js'
 
 describe('registerAllTools', () => {
   it('registers core tools (preflight) for any config', () => {
@@ -20,10 +21,14 @@ describe('registerAllTools', () => {
     // Core tool
     expect(toolNames).toContain('cynaps3_preflight')
 
-    // Generate tools (3)
+    // Generate tools (7)
     expect(toolNames).toContain('musicmation_generate')
+    expect(toolNames).toContain('musicmation_regenerate')
+    expect(toolNames).toContain('musicmation_cancel_generation')
     expect(toolNames).toContain('musicmation_bulk_generate')
     expect(toolNames).toContain('musicmation_bulk_poll_status')
+    expect(toolNames).toContain('musicmation_wait_for_completion')
+    expect(toolNames).toContain('musicmation_estimate_cost')
 
     // Library tools (10)
     expect(toolNames).toContain('musicmation_search_tracks')
@@ -43,6 +48,11 @@ describe('registerAllTools', () => {
     expect(toolNames).toContain('musicmation_set_dramaturgy')
     expect(toolNames).toContain('musicmation_bulk_rename')
 
+    // Suno transformation tools stay out until suno-proxy confirms their methods
+    expect(toolNames).not.toContain('musicmation_extend_track')
+    expect(toolNames).not.toContain('musicmation_cover_track')
+    expect(toolNames).not.toContain('musicmation_add_vocals')
+
     // Project tools (6)
     expect(toolNames).toContain('musicmation_list_projects')
     expect(toolNames).toContain('musicmation_create_project')
@@ -51,9 +61,19 @@ describe('registerAllTools', () => {
     expect(toolNames).toContain('musicmation_get_project_context')
     expect(toolNames).toContain('musicmation_set_project_context')
 
-    // Content tools (2)
+    // Content tools (6)
+    expect(toolNames).toContain('musicmation_list_items')
     expect(toolNames).toContain('musicmation_create_item')
     expect(toolNames).toContain('musicmation_update_item')
+    expect(toolNames).toContain('musicmation_delete_item')
+    expect(toolNames).toContain('musicmation_restore_item')
+    expect(toolNames).toContain('musicmation_purge_trash')
+
+    // Export tools (4)
+    expect(toolNames).toContain('musicmation_download_tracks')
+    expect(toolNames).toContain('musicmation_export_playlist')
+    expect(toolNames).toContain('musicmation_export_lyrics')
+    expect(toolNames).toContain('musicmation_export_release')
   })
 
   it('does not register musicmation tools when module is disabled', () => {
@@ -75,8 +95,100 @@ describe('registerAllTools', () => {
     const api = createMockPluginAPI()
     registerAllTools(api, { ...MOCK_CONFIG, enabledModules: ['musicmation'] })
 
-    // 1 core + 3 generate + 10 library + 4 write + 6 project + 2 content = 26 tools
-    expect(api.tools.length).toBe(26)
+    // 1 core + 7 generate + 10 library + 4 write + 6 project + 6 content + 4 export = 38 tools
+    expect(api.tools.length).toBe(38)
+  })
+
+  it('registers storymation tools when module is enabled', () => {
+    const api = createMockPluginAPI()
+    registerAllTools(api, { ...MOCK_CONFIG, enabledModules: ['storymation'] })
+
+    // 1 core + 5 storymation
+    expect(api.tools.map((t) => t.name)).toEqual([
+      'cynaps3_preflight',
+      'storymation_create_story',
+      'storymation_write_chapter',
+      'storymation_update_chapter',
+      'storymation_list_chapters',
+      'storymation_narrate_chapter',
+    ])
+  })
+
+  it('registers skillmation tools when module is enabled', () => {
+    const api = createMockPluginAPI()
+    registerAllTools(api, { ...MOCK_CONFIG, enabledModules: ['skillmation'] })
+
+    // 1 core + 5 skillmation
+    expect(api.tools.map((t) => t.name)).toEqual([
+      'cynaps3_preflight',
+      'skillmation_draft_skill',
+      'skillmation_validate_skill',
+      'skillmation_list_skills',
+      'skillmation_get_skill',
+      'skillmation_publish_skill',
+    ])
+  })
+
+  it('registers contentmation tools when module is enabled', () => {
+    const api = createMockPluginAPI()
+    registerAllTools(api, { ...MOCK_CONFIG, enabledModules: ['contentmation'] })
+
+    // 1 core + 4 contentmation
+    expect(api.tools.map((t) => t.name)).toEqual([
+      'cynaps3_preflight',
+      'contentmation_draft_post',
+      'contentmation_schedule_post',
+      'contentmation_list_posts',
+      'contentmation_mark_published',
+    ])
+  })
+
+  it('applies the tools allow/deny policy to every registrar', () => {
+    const api = createMockPluginAPI()
+    registerAllTools(api, {
+      ...MOCK_CONFIG,
+      tools: { allow: ['cynaps3_*', 'musicmation_*'], deny: ['musicmation_delete_project', 'musicmation_*generate*'] },
+    })
+
+    const names = api.tools.map((t) => t.name)
+    expect(names).toContain('cynaps3_preflight')
+    expect(names).toContain('musicmation_search_tracks')
+    expect(names).not.toContain('musicmation_delete_project')
+    expect(names.filter((n) => n.includes('generate'))).toEqual([])
+  })
+
+  it('hides core tools when the allow list leaves them out', () => {
+    const api = createMockPluginAPI()
+    registerAllTools(api, { ...MOCK_CONFIG, tools: { allow: ['musicmation_search_tracks'], deny: [] } })
+    expect(api.tools.map((t) => t.name)).toEqual(['musicmation_search_tracks'])
+  })
+
+  it('resolves modules and tool lists per agent from the factory context', () => {
+    const config: CynapsConfig = {
+      ...MOCK_CONFIG,
+      agents: {
+        flow: { enabledModules: ['musicmation', 'contentmation'], tools: { deny: ['musicmation_*generate*'] } },
+        pete: { enabledModules: [] },
+      },
+    }
+    const names = (agentId: string) => {
+      const api = createMockPluginAPI(undefined, { agentId })
+      registerAllTools(api, config)
+      return api.tools.map((t) => t.name)
+    }
+
+    const flow = names('flow')
+    expect(flow).toContain('contentmation_draft_post')
+    expect(flow).toContain('musicmation_search_tracks')
+    expect(flow).not.toContain('musicmation_generate')
+
+    // pete: core tools only
+    expect(names('pete')).toEqual(['cynaps3_preflight'])
+
+    // No profile: the global modules, so contentmation stays hidden
+    const other = names('someone-else')
+    expect(other).toContain('musicmation_generate')
+    expect(other.some((n) => n.startsWith('contentmation_'))).toBe(false)
   })
 
   it('all tools have name, label, description, parameters, and execute', () => {
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest'
 import { registerAllTools } from '../../src/tools/_registry.js'
+import { registerMusicmationSunoTools } from '../../src/tools/musicmation-suno.js'
 import { createMockPluginAPI } from '../fixtures/mock-api.js'
 import { MOCK_CONFIG } from '../fixtures/mock-config.js'
 
@@ -9,7 +10,9 @@ import { MOCK_CONFIG } from '../fixtures/mock-config.js'
  */
 describe('tool parameters schemas', () => {
   const api = createMockPluginAPI()
-  registerAllTools(api, { ...MOCK_CONFIG, enabledModules: ['musicmation'] })
+  registerAllTools(api, { ...MOCK_CONFIG, enabledModules: ['musicmation', 'storymation', 'skillmation', 'contentmation'] })
+  // Not in the registry yet, but its schemas should be ready when it is
+  registerMusicmationSunoTools(api, MOCK_CONFIG)
 
   for (const tool of api.tools) {
     describe(tool.name, () => {